@@ -5,8 +5,8 @@
  */
 
 import Database from 'bun:sqlite';
-import { readdirSync, readFileSync, existsSync } from 'fs';
-import { resolve, join } from 'path';
+import { readdirSync, readFileSync, existsSync, mkdirSync } from 'fs';
+import { resolve, join, dirname } from 'path';
 
 const DATABASE_PATH = process.env.DATABASE_PATH || './data/nodehub.db';
 const MIGRATIONS_DIR = resolve(process.cwd(), 'drizzle');
@@ -15,6 +15,9 @@ console.log('🔄 Running database migrations...');
 console.log(`📂 Database: ${DATABASE_PATH}`);
 console.log(`📁 Migrations: ${MIGRATIONS_DIR}`);
 
+// Ensure data directory exists
+mkdirSync(dirname(resolve(DATABASE_PATH)), { recursive: true });
+
 // Create database connection
 const sqlite = new Database(DATABASE_PATH);
 
@@ -64,18 +67,20 @@ for (const file of migrationFiles) {
   console.log(`▶️  Running ${file}...`);
 
   try {
-    // Split by semicolon and execute each statement
+    // drizzle-kit separates statements with breakpoint markers; a file is applied as a whole or not at all
     const statements = content
-      .split(';')
+      .split('--> statement-breakpoint')
       .map(s => s.trim())
-      .filter(s => s.length > 0 && !s.startsWith('--'));
+      .filter(s => s.length > 0);
 
-    for (const statement of statements) {
-      sqlite.exec(statement);
-    }
+    sqlite.transaction(() => {
+      for (const statement of statements) {
+        sqlite.exec(statement);
+      }
 
-    // Mark as executed
-    sqlite.prepare('INSERT INTO __drizzle_migrations (hash) VALUES (?)').run(hash);
+      // Mark as executed
+      sqlite.prepare('INSERT INTO __drizzle_migrations (hash) VALUES (?)').run(hash);
+    })();
     executedCount++;
     console.log(`✅ ${file} - completed`);
   } catch (error: any) {
@@ -0,0 +1,75 @@
+#!/usr/bin/env bun
+/**
+ * Secret Re-key Script
+ * Re-wraps encrypted settings secrets with a new master key
+ *
+ * Usage:
+ *   NODEHUB_MASTER_KEY_OLD=<current key> NODEHUB_MASTER_KEY=<new key> bun run secrets:rekey
+ *
+ * Secrets still stored in plaintext are encrypted with the new key.
+ */
+
+import Database from 'bun:sqlite';
+import { isEncryptedSecret, encryptSecret, parseMasterKey, rewrapSecret } from '../src/utils/crypto';
+
+const DATABASE_PATH = process.env.DATABASE_PATH || './data/nodehub.db';
+const SECRET_COLUMNS = ['ssp_api_key', 'srp_api_key', 'dns_api_key', 'dns_api_secret', 'telegram_bot_token'];
+
+console.log('🔑 Re-keying stored secrets...');
+console.log(`📂 Database: ${DATABASE_PATH}`);
+
+let newKey: Buffer;
+let oldKey: Buffer | null = null;
+
+try {
+  newKey = parseMasterKey(process.env.NODEHUB_MASTER_KEY);
+  if (process.env.NODEHUB_MASTER_KEY_OLD) {
+    oldKey = parseMasterKey(process.env.NODEHUB_MASTER_KEY_OLD, 'NODEHUB_MASTER_KEY_OLD');
+  }
+} catch (error: any) {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+}
+
+const sqlite = new Database(DATABASE_PATH);
+const rows = sqlite.prepare(`SELECT id, ${SECRET_COLUMNS.join(', ')} FROM configs`).all() as Record<string, any>[];
+
+let updatedCount = 0;
+
+try {
+  sqlite.exec('BEGIN');
+
+  for (const row of rows) {
+    for (const column of SECRET_COLUMNS) {
+      const value = row[column] as string | null;
+      if (!value) {
+        continue;
+      }
+
+      let rekeyed: string;
+      if (isEncryptedSecret(value)) {
+        if (!oldKey) {
+          throw new Error('NODEHUB_MASTER_KEY_OLD is required to re-key encrypted secrets');
+        }
+        rekeyed = rewrapSecret(value, oldKey, newKey);
+      } else {
+        rekeyed = encryptSecret(value, newKey);
+      }
+
+      sqlite.prepare(`UPDATE configs SET ${column} = ? WHERE id = ?`).run(rekeyed, row.id);
+      updatedCount++;
+    }
+  }
+
+  sqlite.exec('COMMIT');
+} catch (error: any) {
+  sqlite.exec('ROLLBACK');
+  console.error(`❌ Re-key failed, no changes written: ${error.message}`);
+  sqlite.close();
+  process.exit(1);
+}
+
+sqlite.close();
+
+console.log(`✅ Re-keyed ${updatedCount} secrets`);
+console.log('ℹ️  Restart the server with the new NODEHUB_MASTER_KEY');
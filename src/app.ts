@@ -1,17 +1,33 @@
 import { Elysia, t } from 'elysia';
 import { swagger } from '@elysiajs/swagger';
+import { rateLimitPlugin } from './modules/ratelimit/plugin';
+import { rateLimitRoutes } from './modules/ratelimit/routes';
+import { authPlugin } from './modules/auth/plugin';
+import { auditPlugin } from './modules/audit/plugin';
+import { authRoutes } from './modules/auth/routes';
+import { auditRoutes } from './modules/audit/routes';
+import { settingsRoutes } from './modules/settings/routes';
 import { hostRoutes } from './modules/host/routes';
 import { nodeRoutes } from './modules/node/routes';
 import { configRoutes } from './modules/config/routes';
+import { dnsRoutes } from './modules/dns/routes';
+import { reportRoutes } from './modules/report/routes';
+import { networkRoutes } from './modules/network/routes';
 
 /**
  * Main Elysia application
- * Sets up the API server with Swagger documentation
+ * Sets up the API server with Swagger documentation, API key and user session authentication
  */
 
 const app = new Elysia({
   name: 'NodeHub API',
 })
+  // Throttle each client per route group before authenticating
+  .use(rateLimitPlugin)
+  // Require API key or user session on every route except /health and /auth/login
+  .use(authPlugin)
+  // Record mutating calls in the audit log
+  .use(auditPlugin)
   // Add Swagger documentation
   .use(
     swagger({
@@ -26,7 +42,20 @@ const app = new Elysia({
           { name: 'Host', description: 'VPS host management' },
           { name: 'Node', description: 'Proxy node management' },
           { name: 'Config', description: 'Configuration distribution' },
+          { name: 'DNS', description: 'DNS record management' },
+          { name: 'Report', description: 'Availability reports' },
+          { name: 'Network', description: 'Latency and packet loss between hosts' },
+          { name: 'Auth', description: 'Login sessions and user management' },
+          { name: 'Audit', description: 'Audit log of changes' },
+          { name: 'Settings', description: 'System settings' },
+          { name: 'Rate Limit', description: 'Request rate limiting' },
         ],
+        components: {
+          securitySchemes: {
+            bearerAuth: { type: 'http', scheme: 'bearer' },
+          },
+        },
+        security: [{ bearerAuth: [] }],
       },
       path: '/swagger',
     })
@@ -35,6 +64,13 @@ const app = new Elysia({
   .use(hostRoutes)
   .use(nodeRoutes)
   .use(configRoutes)
+  .use(dnsRoutes)
+  .use(reportRoutes)
+  .use(networkRoutes)
+  .use(authRoutes)
+  .use(auditRoutes)
+  .use(settingsRoutes)
+  .use(rateLimitRoutes)
   // Health check endpoint
   .get(
     '/health',
@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer, real } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, real, index, uniqueIndex } from 'drizzle-orm/sqlite-core';
 
 /**
  * Host table - VPS host information
@@ -11,6 +11,19 @@ export const hosts = sqliteTable('hosts', {
   ip: text('ip').notNull(), // Primary IP address
   ipv6: text('ipv6'), // IPv6 address (optional)
 
+  // Inventory info
+  alias: text('alias'), // Display name (e.g., "HK VPS 01")
+  provider: text('provider'), // Hosting provider (e.g., BandwagonHost)
+  plan: text('plan'), // Plan or product name
+  price: real('price'), // Monthly price
+  currency: text('currency'), // ISO 4217 currency code (e.g., USD)
+  purchasedAt: integer('purchased_at'), // Unix timestamp of purchase
+  expiresAt: integer('expires_at'), // Unix timestamp of the next renewal / expiry
+  renewalReminderDays: integer('renewal_reminder_days'), // Lead time of the last reminder sent (0 = expired)
+  renewalNotifiedAt: integer('renewal_notified_at'), // Unix timestamp of the last renewal reminder
+  tags: text('tags'), // Comma-separated lowercase tags
+  notes: text('notes'), // Free-form notes
+
   // Hardware info
   cpuCores: integer('cpu_cores').notNull(), // Number of CPU cores
   cpuUsage: real('cpu_usage'), // Current CPU usage percentage
@@ -18,19 +31,55 @@ export const hosts = sqliteTable('hosts', {
   memoryUsed: integer('memory_used'), // Used memory in MB
   diskTotal: integer('disk_total').notNull(), // Total disk space in GB
   diskUsed: integer('disk_used'), // Used disk space in GB
+  cpuModel: text('cpu_model'), // CPU model name
+  arch: text('arch'), // CPU architecture (e.g., x86_64, aarch64)
+
+  // System info (reported by the agent at registration)
+  os: text('os'), // OS distribution (e.g., debian)
+  osVersion: text('os_version'), // OS release (e.g., 12)
+  kernel: text('kernel'), // Kernel release
+  virtualization: text('virtualization'), // kvm, openvz, lxc, xen, none, etc.
+  interfaces: text('interfaces'), // JSON array of network interfaces
+  agentVersion: text('agent_version'), // Agent version string
+  registeredAt: integer('registered_at'), // Unix timestamp of the last registration
 
   // Network info
-  uploadTotal: integer('upload_total').notNull().default(0), // Total upload bytes
-  downloadTotal: integer('download_total').notNull().default(0), // Total download bytes
-  lastNetworkReset: integer('last_network_reset'), // Timestamp of last traffic reset
+  uploadTotal: integer('upload_total').notNull().default(0), // Raw upload bytes counter reported by the agent
+  downloadTotal: integer('download_total').notNull().default(0), // Raw download bytes counter reported by the agent
+  lifetimeUpload: integer('lifetime_upload').notNull().default(0), // Upload bytes across counter resets
+  lifetimeDownload: integer('lifetime_download').notNull().default(0), // Download bytes across counter resets
+  intervalUpload: integer('interval_upload').notNull().default(0), // Upload bytes since the previous heartbeat
+  intervalDownload: integer('interval_download').notNull().default(0), // Download bytes since the previous heartbeat
+  uploadRate: integer('upload_rate').notNull().default(0), // Upload bytes per second between the last two samples
+  downloadRate: integer('download_rate').notNull().default(0), // Download bytes per second between the last two samples
+  peakUploadRate: integer('peak_upload_rate').notNull().default(0), // Highest upload rate seen
+  peakDownloadRate: integer('peak_download_rate').notNull().default(0), // Highest download rate seen
+  lastSampleAt: integer('last_sample_at'), // Unix timestamp the agent read the latest counters
+  portSpeed: integer('port_speed'), // Port speed in Mbit/s (null = fastest reported interface)
+  saturatedAt: integer('saturated_at'), // Unix timestamp the port was found saturated (null when it isn't)
+  lastNetworkReset: integer('last_network_reset'), // Timestamp of last traffic reset (current billing cycle start)
+
+  // Traffic quota
+  trafficQuota: integer('traffic_quota'), // Transfer cap per billing cycle in bytes (null = unlimited)
+  quotaResetDay: integer('quota_reset_day').notNull().default(1), // Day of month the billing cycle resets (UTC)
+  quotaMode: text('quota_mode').notNull().default('both'), // upload, download, both, max
+  cycleUpload: integer('cycle_upload').notNull().default(0), // Upload bytes in the current billing cycle
+  cycleDownload: integer('cycle_download').notNull().default(0), // Download bytes in the current billing cycle
+
+  // Node ports
+  portRangeStart: integer('port_range_start'), // Lowest port picked for allocated nodes (null = config default)
+  portRangeEnd: integer('port_range_end'), // Highest port picked for allocated nodes (null = config default)
+  reservedPorts: text('reserved_ports'), // Comma-separated ports and ranges nodes may not use (e.g. "22, 80, 443")
 
   // Location info
   region: text('region'), // Region/country code (e.g., US, CN)
   city: text('city'), // City name
   isp: text('isp'), // ISP name
+  asn: integer('asn'), // Autonomous system number
+  geoUpdatedAt: integer('geo_updated_at'), // Unix timestamp of the last GeoIP enrichment
 
   // Status
-  status: text('status').notNull().default('unknown'), // online, offline, unknown
+  status: text('status').notNull().default('unknown'), // online, offline, maintenance, unknown
   uptime: integer('uptime'), // Uptime in seconds
   lastHeartbeat: integer('last_heartbeat'), // Unix timestamp of last heartbeat
 
@@ -39,6 +88,275 @@ export const hosts = sqliteTable('hosts', {
   updatedAt: integer('updated_at').notNull(), // Unix timestamp
 });
 
+/**
+ * HostTokens table - Per-host agent secrets
+ * Stores only SHA-256 hashes; the plaintext token is shown once at issue time
+ */
+export const hostTokens = sqliteTable('host_tokens', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  hostId: integer('host_id').notNull().references(() => hosts.id, { onDelete: 'cascade' }), // Owning host
+  tokenHash: text('token_hash').notNull().unique(), // SHA-256 hex digest of the token
+
+  // Status
+  revokedAt: integer('revoked_at'), // Unix timestamp of revocation (null while active)
+
+  // Metadata
+  createdAt: integer('created_at').notNull(), // Unix timestamp
+});
+
+/**
+ * HostIpChanges table - Host address history
+ * One row per detected IPv4 or IPv6 address change
+ */
+export const hostIpChanges = sqliteTable('host_ip_changes', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  hostId: integer('host_id').notNull().references(() => hosts.id, { onDelete: 'cascade' }), // Affected host
+  family: text('family').notNull(), // ipv4, ipv6
+  oldIp: text('old_ip'), // Previous address (null if none was known)
+  newIp: text('new_ip').notNull(), // New address
+  source: text('source').notNull(), // heartbeat / registration (reported by agent), request (source address)
+  dnsUpdates: integer('dns_updates').notNull().default(0), // DNS record updates queued for linked nodes
+
+  // Metadata
+  createdAt: integer('created_at').notNull(), // Unix timestamp
+});
+
+/**
+ * HostStatusEvents table - Host status transitions
+ * Used to compute availability; offline transitions take effect at the last heartbeat
+ */
+export const hostStatusEvents = sqliteTable(
+  'host_status_events',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    hostId: integer('host_id').notNull().references(() => hosts.id, { onDelete: 'cascade' }), // Affected host
+    fromStatus: text('from_status').notNull(), // Previous status
+    toStatus: text('to_status').notNull(), // New status: online, offline, maintenance, unknown
+    changedAt: integer('changed_at').notNull(), // Unix timestamp the new status took effect
+
+    // Metadata
+    createdAt: integer('created_at').notNull(), // Unix timestamp the transition was detected
+  },
+  (table) => ({
+    hostTimeIdx: index('host_status_events_host_time_idx').on(table.hostId, table.changedAt),
+  })
+);
+
+/**
+ * MaintenanceWindows table - Planned or ad-hoc maintenance
+ * Applies to one host or to every host carrying a tag
+ */
+export const maintenanceWindows = sqliteTable(
+  'maintenance_windows',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    hostId: integer('host_id').references(() => hosts.id, { onDelete: 'cascade' }), // Target host (null for a tag)
+    tag: text('tag'), // Target tag, lowercased (null for host windows)
+    startsAt: integer('starts_at').notNull(), // Unix timestamp
+    endsAt: integer('ends_at').notNull(), // Unix timestamp
+    reason: text('reason'), // e.g. "Rebuild on Debian 12"
+    createdBy: text('created_by').notNull(), // Principal that scheduled the window
+
+    // Metadata
+    createdAt: integer('created_at').notNull(), // Unix timestamp
+    updatedAt: integer('updated_at').notNull(), // Unix timestamp
+  },
+  (table) => ({
+    timeIdx: index('maintenance_windows_time_idx').on(table.startsAt, table.endsAt),
+  })
+);
+
+/**
+ * HostCommands table - Commands queued for agents
+ * Delivered once in a heartbeat response; the agent reports the outcome back
+ */
+export const hostCommands = sqliteTable(
+  'host_commands',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    hostId: integer('host_id').notNull().references(() => hosts.id, { onDelete: 'cascade' }), // Target host
+    type: text('type').notNull(), // reload_xray, pull_config, restart_nginx, speed_test
+    payload: text('payload'), // JSON arguments for the agent
+    idempotencyKey: text('idempotency_key'), // Caller-supplied key; enqueueing it again returns the same command
+    status: text('status').notNull().default('pending'), // pending, delivered, succeeded, failed, expired
+    output: text('output'), // Output reported by the agent
+    exitCode: integer('exit_code'), // Exit code reported by the agent
+    createdBy: text('created_by').notNull(), // Principal that queued the command
+    expiresAt: integer('expires_at').notNull(), // Unix timestamp after which it is no longer run
+    deliveredAt: integer('delivered_at'), // Unix timestamp
+    completedAt: integer('completed_at'), // Unix timestamp
+
+    // Metadata
+    createdAt: integer('created_at').notNull(), // Unix timestamp
+    updatedAt: integer('updated_at').notNull(), // Unix timestamp
+  },
+  (table) => ({
+    hostStatusIdx: index('host_commands_host_status_idx').on(table.hostId, table.status),
+    idempotencyIdx: uniqueIndex('host_commands_idempotency_idx').on(table.hostId, table.idempotencyKey),
+  })
+);
+
+/**
+ * ProbeTargets table - Extra destinations agents probe
+ * Every other host is probed as well without being listed here
+ */
+export const probeTargets = sqliteTable('probe_targets', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull().unique(), // Display name (e.g. "cf-hkg")
+  address: text('address').notNull(), // IP address or hostname
+  method: text('method').notNull().default('icmp'), // icmp (ping) or tcp (connect)
+  port: integer('port'), // Port for tcp probes
+  enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+
+  // Metadata
+  createdAt: integer('created_at').notNull(), // Unix timestamp
+  updatedAt: integer('updated_at').notNull(), // Unix timestamp
+});
+
+/**
+ * ProbeResults table - Latency and packet loss measured by agents
+ * One row per probe round from a host to another host or to a probe target
+ */
+export const probeResults = sqliteTable(
+  'probe_results',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    hostId: integer('host_id').notNull().references(() => hosts.id, { onDelete: 'cascade' }), // Probing host
+    targetHostId: integer('target_host_id').references(() => hosts.id, { onDelete: 'cascade' }), // Probed host
+    targetId: integer('target_id').references(() => probeTargets.id, { onDelete: 'cascade' }), // Or probe target
+    method: text('method').notNull(), // icmp or tcp
+    rttMs: real('rtt_ms'), // Average round trip time in milliseconds (null when every probe was lost)
+    lossPercent: real('loss_percent').notNull(), // Share of probes lost (0-100)
+    measuredAt: integer('measured_at').notNull(), // Unix timestamp of the probe round
+  },
+  (table) => ({
+    hostTargetIdx: index('probe_results_host_target_idx').on(table.hostId, table.targetHostId, table.measuredAt),
+    timeIdx: index('probe_results_time_idx').on(table.measuredAt),
+  })
+);
+
+/**
+ * HostArchives table - Decommissioned hosts
+ * Keeps the final host record and its hourly metrics after the host row is deleted
+ */
+export const hostArchives = sqliteTable('host_archives', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  hostId: integer('host_id').notNull(), // ID the host had (no foreign key, the host is gone)
+  name: text('name').notNull(), // Host name
+  snapshot: text('snapshot').notNull(), // JSON of the final host record
+  changes: text('changes').notNull(), // JSON of the applied decommission plan (nodes and DNS records)
+  metrics: text('metrics').notNull(), // JSON array of hourly metric buckets
+  reason: text('reason'), // Why the host was retired
+  decommissionedBy: text('decommissioned_by').notNull(), // Principal that ran the decommission
+
+  // Metadata
+  createdAt: integer('created_at').notNull(), // Unix timestamp
+});
+
+/**
+ * HostMetrics table - Raw heartbeat samples
+ * One row per accepted heartbeat, pruned after the raw retention period
+ */
+export const hostMetrics = sqliteTable(
+  'host_metrics',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    hostId: integer('host_id').notNull().references(() => hosts.id, { onDelete: 'cascade' }), // Reporting host
+
+    // Resource usage
+    cpuUsage: real('cpu_usage'), // CPU usage percentage
+    memoryUsed: integer('memory_used'), // Used memory in MB
+    diskUsed: integer('disk_used'), // Used disk space in GB
+
+    // Network counters as reported by the agent
+    uploadTotal: integer('upload_total').notNull().default(0), // Upload bytes counter
+    downloadTotal: integer('download_total').notNull().default(0), // Download bytes counter
+    uploadDelta: integer('upload_delta').notNull().default(0), // Upload bytes since the previous sample
+    downloadDelta: integer('download_delta').notNull().default(0), // Download bytes since the previous sample
+
+    uptime: integer('uptime'), // Uptime in seconds
+
+    // Metadata
+    createdAt: integer('created_at').notNull(), // Unix timestamp of the heartbeat
+  },
+  (table) => ({
+    hostTimeIdx: index('host_metrics_host_time_idx').on(table.hostId, table.createdAt),
+  })
+);
+
+/**
+ * HostMetricRollups table - Downsampled host metrics
+ * Aggregates raw samples into 5-minute and hourly buckets
+ */
+export const hostMetricRollups = sqliteTable(
+  'host_metric_rollups',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    hostId: integer('host_id').notNull().references(() => hosts.id, { onDelete: 'cascade' }), // Reporting host
+    resolution: text('resolution').notNull(), // 5m, 1h
+    bucketStart: integer('bucket_start').notNull(), // Unix timestamp of the bucket start
+    samples: integer('samples').notNull(), // Raw samples in the bucket
+
+    // Resource usage
+    cpuAvg: real('cpu_avg'), // Average CPU usage percentage
+    cpuMax: real('cpu_max'), // Peak CPU usage percentage
+    memoryAvg: real('memory_avg'), // Average used memory in MB
+    memoryMax: integer('memory_max'), // Peak used memory in MB
+    diskMax: integer('disk_max'), // Peak used disk space in GB
+
+    // Traffic transferred within the bucket
+    uploadBytes: integer('upload_bytes').notNull().default(0),
+    downloadBytes: integer('download_bytes').notNull().default(0),
+
+    // Metadata
+    lastSampleId: integer('last_sample_id').notNull().default(0), // Highest raw sample id seen by the rollup run
+    updatedAt: integer('updated_at').notNull(), // Unix timestamp
+  },
+  (table) => ({
+    bucketIdx: uniqueIndex('host_metric_rollups_bucket_idx').on(table.hostId, table.resolution, table.bucketStart),
+  })
+);
+
+/**
+ * HostMediaChecks table - Media unlock test history
+ * One row per streaming service test reported by a host's agent
+ */
+export const hostMediaChecks = sqliteTable(
+  'host_media_checks',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    hostId: integer('host_id').notNull().references(() => hosts.id, { onDelete: 'cascade' }), // Tested host
+    service: text('service').notNull(), // Lowercase service name (e.g., netflix, disney, chatgpt)
+    status: text('status').notNull(), // unlocked, blocked
+    region: text('region'), // Region detected by the service (e.g., US, JP)
+    detail: text('detail'), // Extra detail from the test (e.g., "originals only")
+    testedAt: integer('tested_at').notNull(), // Unix timestamp of the test on the agent
+  },
+  (table) => ({
+    hostServiceIdx: index('host_media_checks_host_service_idx').on(table.hostId, table.service, table.testedAt),
+  })
+);
+
+/**
+ * HostMediaStatus table - Latest media unlock result per host and service
+ */
+export const hostMediaStatus = sqliteTable(
+  'host_media_status',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    hostId: integer('host_id').notNull().references(() => hosts.id, { onDelete: 'cascade' }), // Tested host
+    service: text('service').notNull(), // Lowercase service name
+    status: text('status').notNull(), // unlocked, blocked
+    region: text('region'), // Region detected by the service
+    detail: text('detail'), // Extra detail from the test
+    testedAt: integer('tested_at').notNull(), // Unix timestamp of the latest test
+    changedAt: integer('changed_at').notNull(), // Unix timestamp of the test that first reported this status
+  },
+  (table) => ({
+    hostServiceIdx: uniqueIndex('host_media_status_host_service_idx').on(table.hostId, table.service),
+  })
+);
+
 /**
  * Node table - Proxy node instances
  * Represents proxy nodes managed by panels (SSP/SRP)
@@ -131,14 +449,100 @@ export const dnsRecords = sqliteTable('dns_records', {
   updatedAt: integer('updated_at').notNull(), // Unix timestamp
 });
 
+/**
+ * Users table - Admin accounts
+ * Team members who log in to manage the system
+ */
+export const users = sqliteTable('users', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  username: text('username').notNull().unique(), // Login name
+  passwordHash: text('password_hash').notNull(), // Argon2id hash
+  role: text('role').notNull().default('viewer'), // viewer, operator, admin
+
+  // Status
+  isActive: integer('is_active', { mode: 'boolean' }).notNull().default(true),
+  lastLoginAt: integer('last_login_at'), // Unix timestamp of last login
+
+  // Metadata
+  createdAt: integer('created_at').notNull(), // Unix timestamp
+  updatedAt: integer('updated_at').notNull(), // Unix timestamp
+});
+
+/**
+ * Sessions table - Login sessions
+ * Tracks issued session tokens so they can be revoked on logout
+ */
+export const sessions = sqliteTable('sessions', {
+  id: text('id').primaryKey(), // JWT ID (jti)
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  expiresAt: integer('expires_at').notNull(), // Unix timestamp
+  revokedAt: integer('revoked_at'), // Unix timestamp of logout (null while active)
+  createdAt: integer('created_at').notNull(), // Unix timestamp
+});
+
+/**
+ * AuditLog table - Record of changes
+ * Captures who changed what, through the API or background workers
+ */
+export const auditLog = sqliteTable('audit_log', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+
+  // Who and what
+  actor: text('actor').notNull(), // API key / user name, or system:<worker>
+  action: text('action').notNull(), // e.g. 'PATCH /hosts/:id', 'dns.update'
+  method: text('method'), // HTTP method (null for background changes)
+  path: text('path'), // Request path (null for background changes)
+
+  // Affected entity
+  entityType: text('entity_type'), // host, node, config, dns_record
+  entityId: integer('entity_id'), // Entity ID (if applicable)
+
+  // Change details (JSON strings, secrets redacted)
+  before: text('before'), // Snapshot before the change
+  after: text('after'), // Snapshot after the change
+  changes: text('changes'), // Changed fields: { field: { from, to } }
+
+  // Metadata
+  createdAt: integer('created_at').notNull(), // Unix timestamp
+});
+
 /**
  * Type exports for TypeScript usage
  */
 export type Host = typeof hosts.$inferSelect;
 export type NewHost = typeof hosts.$inferInsert;
+export type HostToken = typeof hostTokens.$inferSelect;
+export type NewHostToken = typeof hostTokens.$inferInsert;
+export type HostIpChange = typeof hostIpChanges.$inferSelect;
+export type NewHostIpChange = typeof hostIpChanges.$inferInsert;
+export type HostStatusEvent = typeof hostStatusEvents.$inferSelect;
+export type NewHostStatusEvent = typeof hostStatusEvents.$inferInsert;
+export type MaintenanceWindow = typeof maintenanceWindows.$inferSelect;
+export type NewMaintenanceWindow = typeof maintenanceWindows.$inferInsert;
+export type HostCommand = typeof hostCommands.$inferSelect;
+export type NewHostCommand = typeof hostCommands.$inferInsert;
+export type ProbeTarget = typeof probeTargets.$inferSelect;
+export type NewProbeTarget = typeof probeTargets.$inferInsert;
+export type ProbeResult = typeof probeResults.$inferSelect;
+export type NewProbeResult = typeof probeResults.$inferInsert;
+export type HostArchive = typeof hostArchives.$inferSelect;
+export type NewHostArchive = typeof hostArchives.$inferInsert;
+export type HostMetric = typeof hostMetrics.$inferSelect;
+export type NewHostMetric = typeof hostMetrics.$inferInsert;
+export type HostMetricRollup = typeof hostMetricRollups.$inferSelect;
+export type NewHostMetricRollup = typeof hostMetricRollups.$inferInsert;
+export type HostMediaCheck = typeof hostMediaChecks.$inferSelect;
+export type NewHostMediaCheck = typeof hostMediaChecks.$inferInsert;
+export type HostMediaStatus = typeof hostMediaStatus.$inferSelect;
+export type NewHostMediaStatus = typeof hostMediaStatus.$inferInsert;
 export type Node = typeof nodes.$inferSelect;
 export type NewNode = typeof nodes.$inferInsert;
 export type Config = typeof configs.$inferSelect;
 export type NewConfig = typeof configs.$inferInsert;
 export type DnsRecord = typeof dnsRecords.$inferSelect;
 export type NewDnsRecord = typeof dnsRecords.$inferInsert;
+export type User = typeof users.$inferSelect;
+export type NewUser = typeof users.$inferInsert;
+export type Session = typeof sessions.$inferSelect;
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type NewAuditLogEntry = typeof auditLog.$inferInsert;
@@ -1,30 +1,44 @@
 import app from './app';
 import { createLogger } from './utils/logger';
+import { initializeIntegrations } from './modules/settings/integrations';
+import { getMonitorWorker, shutdownMonitorWorker } from './workers/monitor';
+import config from './utils/config';
 
 const logger = createLogger('Server');
 
 // Get port from environment or use default
 const port = Number(process.env.PORT) || 3000;
 
+// Initialize DNS, Telegram and panel integrations
+await initializeIntegrations();
+
+// Start host monitoring, metrics rollups and retention
+getMonitorWorker({
+  notifyOnHostOffline: config.notifications.notify_on_node_offline,
+  notifyOnLowDisk: config.notifications.notify_on_low_disk,
+  diskThreshold: config.notifications.disk_threshold,
+}).start();
+
 // Start the server
-app
-  .listen(port)
-  .then(() => {
-    logger.info(`🚀 NodeHub API is running at http://localhost:${port}`);
-    logger.info(`📚 Swagger documentation available at http://localhost:${port}/swagger`);
-  })
-  .catch((error) => {
-    logger.error('Failed to start server', { error });
-    process.exit(1);
-  });
+try {
+  app.listen(port);
+  logger.info(`🚀 NodeHub API is running at http://localhost:${port}`);
+  logger.info(`📚 Swagger documentation available at http://localhost:${port}/swagger`);
+  logger.info(`🔌 Agent channel available at ws://localhost:${port}/hosts/channel`);
+} catch (error) {
+  logger.error('Failed to start server', { error });
+  process.exit(1);
+}
 
 // Graceful shutdown
 process.on('SIGINT', () => {
   logger.info('Received SIGINT, shutting down gracefully...');
+  shutdownMonitorWorker();
   process.exit(0);
 });
 
 process.on('SIGTERM', () => {
   logger.info('Received SIGTERM, shutting down gracefully...');
+  shutdownMonitorWorker();
   process.exit(0);
 });
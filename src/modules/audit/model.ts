@@ -0,0 +1,44 @@
+/**
+ * Audit module data models
+ * Defines interfaces for the audit log
+ */
+
+export type AuditEntityType =
+  | 'host'
+  | 'node'
+  | 'config'
+  | 'dns_record'
+  | 'user'
+  | 'maintenance_window'
+  | 'host_command'
+  | 'probe_target';
+
+export interface AuditEntry {
+  actor: string;
+  action: string;
+  method?: string;
+  path?: string;
+  entityType?: AuditEntityType;
+  entityId?: number;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditSubject {
+  entityType: AuditEntityType;
+  entityId?: number;
+  before?: unknown;
+}
+
+export interface AuditQuery {
+  actor?: string;
+  action?: string;
+  entityType?: string;
+  entityId?: number;
+  from?: number; // Unix timestamp (inclusive)
+  to?: number; // Unix timestamp (inclusive)
+  limit?: number;
+  offset?: number;
+}
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
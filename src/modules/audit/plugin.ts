@@ -0,0 +1,49 @@
+/**
+ * Audit plugin
+ * Records every successful mutating call on host, node and config routes
+ */
+
+import { Elysia } from 'elysia';
+import { authPlugin } from '@/modules/auth/plugin';
+import { isAuditedRequest, loadAuditSubject, recordAudit } from './service';
+import type { AuditSubject } from './model';
+
+// Entity snapshots taken before the handler runs
+const subjects = new WeakMap<Request, AuditSubject>();
+
+export const auditPlugin = new Elysia({ name: 'audit' })
+  .use(authPlugin)
+  // Snapshot the affected entity once the caller is authorized
+  .onBeforeHandle({ as: 'global' }, async ({ request, path }) => {
+    if (!isAuditedRequest(request.method, path)) {
+      return;
+    }
+
+    const subject = await loadAuditSubject(path);
+    if (subject) {
+      subjects.set(request, subject);
+    }
+  })
+  // Record the change once the handler succeeded
+  .onAfterHandle({ as: 'global' }, async ({ request, path, route, principal, response }) => {
+    const subject = subjects.get(request);
+    const result = response as { success?: boolean; data?: unknown } | undefined;
+    if (!subject || !result?.success) {
+      return;
+    }
+
+    const data = result.data as Record<string, unknown> | null;
+    const after = request.method === 'DELETE' ? null : data;
+    const createdId = subject.entityId === undefined && typeof data?.id === 'number' ? data.id : undefined;
+
+    await recordAudit({
+      actor: principal?.name || 'anonymous',
+      action: `${request.method} ${route}`,
+      method: request.method,
+      path,
+      entityType: subject.entityType,
+      entityId: subject.entityId ?? createdId,
+      before: subject.before,
+      after,
+    });
+  });
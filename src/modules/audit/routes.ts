@@ -0,0 +1,35 @@
+/**
+ * Audit module routes
+ * API endpoints for querying the audit log
+ */
+
+import { Elysia, t } from 'elysia';
+import { successResponse, errorResponse, ErrorCodes } from '@/utils/response';
+import { getAuditLogs } from './service';
+
+export const auditRoutes = new Elysia({ prefix: '/audit' })
+  // Query audit log
+  .get('/', async ({ query }) => {
+    try {
+      const entries = await getAuditLogs(query);
+      return successResponse(entries);
+    } catch (error) {
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to get audit log', error);
+    }
+  }, {
+    detail: {
+      tags: ['Audit'],
+      summary: 'Query audit log',
+      description: 'List recorded changes, newest first, filtered by actor, action, entity and time range',
+    },
+    query: t.Object({
+      actor: t.Optional(t.String()),
+      action: t.Optional(t.String()),
+      entityType: t.Optional(t.String()),
+      entityId: t.Optional(t.Numeric()),
+      from: t.Optional(t.Numeric()),
+      to: t.Optional(t.Numeric()),
+      limit: t.Optional(t.Numeric({ minimum: 1, maximum: 1000 })),
+      offset: t.Optional(t.Numeric({ minimum: 0 })),
+    }),
+  });
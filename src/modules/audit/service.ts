@@ -0,0 +1,226 @@
+/**
+ * Audit module service
+ * Records and queries the audit log
+ */
+
+import {
+  db,
+  auditLog,
+  hosts,
+  nodes,
+  configs,
+  users,
+  maintenanceWindows,
+  hostCommands,
+  probeTargets,
+  type AuditLogEntry,
+} from '@/db';
+import { eq, and, gte, lte, desc, type SQL } from 'drizzle-orm';
+import { createLogger } from '@/utils/logger';
+import type { AuditEntry, AuditSubject, AuditQuery, AuditChanges } from './model';
+
+const logger = createLogger('AuditService');
+
+/**
+ * Fields never written to the audit log in clear text
+ */
+const REDACTED_FIELDS = new Set([
+  'agentToken',
+  'tokenHash',
+  'password',
+  'passwordHash',
+  'sspApiKey',
+  'srpApiKey',
+  'dnsApiKey',
+  'dnsApiSecret',
+  'telegramBotToken',
+]);
+
+/**
+ * Audited route prefixes; heartbeats are telemetry and DNS checks only read, not changes
+ */
+const AUDITED_PREFIXES = ['/hosts', '/nodes', '/config', '/settings', '/auth/users', '/network', '/dns'];
+const UNAUDITED_PATHS = new Set(['/hosts/heartbeat', '/network/probes', '/dns/check']);
+const AUDITED_METHODS = new Set(['POST', 'PATCH', 'DELETE']);
+
+/**
+ * Replace secret fields with a placeholder, recursively
+ */
+export function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactSecrets);
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(value)) {
+      result[key] = REDACTED_FIELDS.has(key) && field ? '[REDACTED]' : redactSecrets(field);
+    }
+    return result;
+  }
+
+  return value;
+}
+
+/**
+ * Compute changed top-level fields between two snapshots
+ */
+export function diffSnapshots(before: unknown, after: unknown): AuditChanges {
+  const toRecord = (value: unknown): Record<string, unknown> =>
+    value !== null && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+
+  const beforeRecord = toRecord(before);
+  const afterRecord = toRecord(after);
+  const changes: AuditChanges = {};
+
+  for (const key of new Set([...Object.keys(beforeRecord), ...Object.keys(afterRecord)])) {
+    const from = beforeRecord[key];
+    const to = afterRecord[key];
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[key] = { from: from ?? null, to: to ?? null };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Check whether a request should be audited
+ */
+export function isAuditedRequest(method: string, path: string): boolean {
+  return (
+    AUDITED_METHODS.has(method.toUpperCase()) &&
+    !UNAUDITED_PATHS.has(path) &&
+    AUDITED_PREFIXES.some((prefix) => path === prefix || path.startsWith(`${prefix}/`))
+  );
+}
+
+/**
+ * Resolve the entity a request touches and snapshot it before the change
+ */
+export async function loadAuditSubject(path: string): Promise<AuditSubject | null> {
+  try {
+    const maintenanceMatch = path.match(/^\/hosts\/maintenance(?:\/(\d+))?(\/|$)/);
+    if (maintenanceMatch) {
+      if (!maintenanceMatch[1]) {
+        return { entityType: 'maintenance_window' };
+      }
+      const entityId = Number(maintenanceMatch[1]);
+      const result = await db.select().from(maintenanceWindows).where(eq(maintenanceWindows.id, entityId)).limit(1);
+      return { entityType: 'maintenance_window', entityId, before: result[0] || null };
+    }
+
+    const commandMatch = path.match(/^\/hosts\/commands(?:\/(\d+))?(\/|$)/);
+    if (commandMatch) {
+      if (!commandMatch[1]) {
+        return { entityType: 'host_command' };
+      }
+      const entityId = Number(commandMatch[1]);
+      const result = await db.select().from(hostCommands).where(eq(hostCommands.id, entityId)).limit(1);
+      return { entityType: 'host_command', entityId, before: result[0] || null };
+    }
+
+    const entityMatch = path.match(/^\/(hosts|nodes)\/(\d+)(\/|$)/);
+
+    if (entityMatch) {
+      const entityId = Number(entityMatch[2]);
+      if (entityMatch[1] === 'hosts') {
+        const result = await db.select().from(hosts).where(eq(hosts.id, entityId)).limit(1);
+        return { entityType: 'host', entityId, before: result[0] || null };
+      }
+
+      const result = await db.select().from(nodes).where(eq(nodes.id, entityId)).limit(1);
+      return { entityType: 'node', entityId, before: result[0] || null };
+    }
+
+    if (path.startsWith('/hosts')) {
+      return { entityType: 'host' };
+    }
+    if (path.startsWith('/nodes')) {
+      return { entityType: 'node' };
+    }
+    const userMatch = path.match(/^\/auth\/users(?:\/(\d+))?$/);
+    if (userMatch) {
+      if (!userMatch[1]) {
+        return { entityType: 'user' };
+      }
+      const entityId = Number(userMatch[1]);
+      const result = await db.select().from(users).where(eq(users.id, entityId)).limit(1);
+      return { entityType: 'user', entityId, before: result[0] || null };
+    }
+    const targetMatch = path.match(/^\/network\/targets(?:\/(\d+))?$/);
+    if (targetMatch) {
+      if (!targetMatch[1]) {
+        return { entityType: 'probe_target' };
+      }
+      const entityId = Number(targetMatch[1]);
+      const result = await db.select().from(probeTargets).where(eq(probeTargets.id, entityId)).limit(1);
+      return { entityType: 'probe_target', entityId, before: result[0] || null };
+    }
+    if (path.startsWith('/dns')) {
+      return { entityType: 'dns_record' };
+    }
+    if (path.startsWith('/settings')) {
+      const result = await db.select().from(configs).orderBy(configs.id).limit(1);
+      return { entityType: 'config', entityId: result[0]?.id, before: result[0] || null };
+    }
+    return { entityType: 'config' };
+  } catch (error) {
+    logger.error(`Failed to load audit subject for ${path}`, { error });
+    return null;
+  }
+}
+
+/**
+ * Write an audit log entry
+ * Failures are logged but never interrupt the audited operation
+ */
+export async function recordAudit(entry: AuditEntry): Promise<void> {
+  try {
+    const before = entry.before === undefined ? null : redactSecrets(entry.before);
+    const after = entry.after === undefined ? null : redactSecrets(entry.after);
+
+    await db.insert(auditLog).values({
+      actor: entry.actor,
+      action: entry.action,
+      method: entry.method || null,
+      path: entry.path || null,
+      entityType: entry.entityType || null,
+      entityId: entry.entityId ?? null,
+      before: before === null ? null : JSON.stringify(before),
+      after: after === null ? null : JSON.stringify(after),
+      changes: JSON.stringify(diffSnapshots(before, after)),
+      createdAt: Math.floor(Date.now() / 1000),
+    });
+  } catch (error) {
+    logger.error(`Failed to record audit entry: ${entry.action}`, { error });
+  }
+}
+
+/**
+ * Query audit log entries, newest first
+ */
+export async function getAuditLogs(query: AuditQuery = {}): Promise<AuditLogEntry[]> {
+  try {
+    const conditions: SQL[] = [];
+
+    if (query.actor) conditions.push(eq(auditLog.actor, query.actor));
+    if (query.action) conditions.push(eq(auditLog.action, query.action));
+    if (query.entityType) conditions.push(eq(auditLog.entityType, query.entityType));
+    if (query.entityId !== undefined) conditions.push(eq(auditLog.entityId, query.entityId));
+    if (query.from !== undefined) conditions.push(gte(auditLog.createdAt, query.from));
+    if (query.to !== undefined) conditions.push(lte(auditLog.createdAt, query.to));
+
+    const result = await db
+      .select()
+      .from(auditLog)
+      .where(and(...conditions))
+      .orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+      .limit(Math.min(query.limit || 100, 1000))
+      .offset(query.offset || 0);
+    return result;
+  } catch (error) {
+    logger.error('Failed to get audit logs', { error });
+    throw error;
+  }
+}
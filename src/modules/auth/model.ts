@@ -0,0 +1,45 @@
+/**
+ * Auth module data models
+ * Defines interfaces for API authentication and authorization
+ */
+
+import type { User } from '@/db';
+
+export type ApiKeyScope = 'agent' | 'panel' | 'admin';
+
+export type UserRole = 'viewer' | 'operator' | 'admin';
+
+export type AuthRole = ApiKeyScope | UserRole;
+
+export interface AuthPrincipal {
+  type: 'api_key' | 'user';
+  role: AuthRole;
+  name: string; // Human-readable identifier used in logs and the audit log
+  userId?: number; // Set for user sessions
+  sessionId?: string; // Set for user sessions
+}
+
+export interface RouteRule {
+  method: string;
+  path: RegExp;
+}
+
+export type PublicUser = Omit<User, 'passwordHash'>;
+
+export interface UserInfo {
+  username: string;
+  password: string;
+  role?: UserRole;
+}
+
+export interface UserUpdate {
+  password?: string;
+  role?: UserRole;
+  isActive?: boolean;
+}
+
+export interface LoginResult {
+  token: string;
+  expiresAt: number;
+  user: PublicUser;
+}
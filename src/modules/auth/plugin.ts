@@ -0,0 +1,34 @@
+/**
+ * Auth plugin
+ * Requires a valid API key or user session on every route except public ones
+ */
+
+import { Elysia } from 'elysia';
+import { errorResponse, ErrorCodes } from '@/utils/response';
+import { createLogger } from '@/utils/logger';
+import { PUBLIC_PATHS, resolvePrincipal, isRouteAllowed } from './service';
+
+const logger = createLogger('Auth');
+
+export const authPlugin = new Elysia({ name: 'auth' })
+  // Resolve the caller from request headers
+  .derive({ as: 'global' }, async ({ request }) => ({
+    principal: await resolvePrincipal(request.headers),
+  }))
+  // Reject unauthenticated or out-of-scope requests
+  .onBeforeHandle({ as: 'global' }, ({ request, path, principal, set }) => {
+    if (PUBLIC_PATHS.has(path)) {
+      return;
+    }
+
+    if (!principal) {
+      set.status = 401;
+      return errorResponse(ErrorCodes.UNAUTHORIZED, 'Missing or invalid API key or session token');
+    }
+
+    if (!isRouteAllowed(principal, request.method, path)) {
+      logger.warn(`Forbidden: ${principal.name} attempted ${request.method} ${path}`);
+      set.status = 403;
+      return errorResponse(ErrorCodes.FORBIDDEN, `Role '${principal.role}' cannot access this route`);
+    }
+  });
@@ -0,0 +1,156 @@
+/**
+ * Auth module routes
+ * API endpoints for login sessions and user management
+ */
+
+import { Elysia, t } from 'elysia';
+import { successResponse, errorResponse, ErrorCodes } from '@/utils/response';
+import { authPlugin } from './plugin';
+import { getAllUsers, getUserById, createUser, updateUser, deleteUser, login, logout } from './users';
+import type { UserInfo, UserUpdate } from './model';
+
+const roleSchema = t.Union([t.Literal('viewer'), t.Literal('operator'), t.Literal('admin')]);
+
+export const authRoutes = new Elysia({ prefix: '/auth' })
+  .use(authPlugin)
+  // Log in
+  .post('/login', async ({ body, set }) => {
+    try {
+      const result = await login(body.username, body.password);
+      return successResponse(result);
+    } catch (error: any) {
+      if (error.message.includes('Invalid username or password')) {
+        set.status = 401;
+        return errorResponse(ErrorCodes.INVALID_CREDENTIALS, error.message);
+      }
+      if (error.message.includes('JWT_SECRET')) {
+        return errorResponse(ErrorCodes.INVALID_REQUEST, error.message);
+      }
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to log in', error);
+    }
+  }, {
+    detail: {
+      tags: ['Auth'],
+      summary: 'Log in',
+      description: 'Exchange username and password for a session token. Send it as `Authorization: Bearer <token>`',
+    },
+    body: t.Object({
+      username: t.String({ minLength: 1 }),
+      password: t.String({ minLength: 1 }),
+    }),
+  })
+  // Log out
+  .post('/logout', async ({ principal }) => {
+    try {
+      if (!principal?.sessionId) {
+        return errorResponse(ErrorCodes.INVALID_REQUEST, 'Only user sessions can be logged out');
+      }
+      await logout(principal.sessionId);
+      return successResponse({ message: 'Logged out' });
+    } catch (error) {
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to log out', error);
+    }
+  }, {
+    detail: {
+      tags: ['Auth'],
+      summary: 'Log out',
+      description: 'End the current user session',
+    },
+  })
+  // Current principal
+  .get('/me', async ({ principal }) => {
+    try {
+      if (principal?.userId) {
+        const user = await getUserById(principal.userId);
+        return successResponse({ ...principal, user });
+      }
+      return successResponse(principal);
+    } catch (error) {
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to get current user', error);
+    }
+  }, {
+    detail: {
+      tags: ['Auth'],
+      summary: 'Get current principal',
+      description: 'Get the role and identity of the calling API key or user session',
+    },
+  })
+  // Get all users
+  .get('/users', async () => {
+    try {
+      const result = await getAllUsers();
+      return successResponse(result);
+    } catch (error) {
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to get users', error);
+    }
+  }, {
+    detail: {
+      tags: ['Auth'],
+      summary: 'Get all users',
+      description: 'Retrieve all user accounts',
+    },
+  })
+  // Create user
+  .post('/users', async ({ body }) => {
+    try {
+      const user = await createUser(body as UserInfo);
+      return successResponse(user);
+    } catch (error: any) {
+      if (error.message.includes('already exists')) {
+        return errorResponse(ErrorCodes.USER_ALREADY_EXISTS, error.message);
+      }
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to create user', error);
+    }
+  }, {
+    detail: {
+      tags: ['Auth'],
+      summary: 'Create user',
+      description: 'Create a user account with the viewer, operator or admin role',
+    },
+    body: t.Object({
+      username: t.String({ minLength: 1, maxLength: 64 }),
+      password: t.String({ minLength: 8 }),
+      role: t.Optional(roleSchema),
+    }),
+  })
+  // Update user
+  .patch('/users/:id', async ({ params, body }) => {
+    try {
+      const user = await updateUser(Number(params.id), body as UserUpdate);
+      if (!user) {
+        return errorResponse(ErrorCodes.USER_NOT_FOUND, `User with ID ${params.id} not found`);
+      }
+      return successResponse(user);
+    } catch (error) {
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to update user', error);
+    }
+  }, {
+    detail: {
+      tags: ['Auth'],
+      summary: 'Update user',
+      description: 'Change role, password or status. Password changes and deactivation end existing sessions',
+    },
+    body: t.Object({
+      password: t.Optional(t.String({ minLength: 8 })),
+      role: t.Optional(roleSchema),
+      isActive: t.Optional(t.Boolean()),
+    }),
+  })
+  // Delete user
+  .delete('/users/:id', async ({ params }) => {
+    try {
+      const deleted = await deleteUser(Number(params.id));
+      if (!deleted) {
+        return errorResponse(ErrorCodes.USER_NOT_FOUND, `User with ID ${params.id} not found`);
+      }
+      return successResponse({ message: 'User deleted successfully' });
+    } catch (error) {
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to delete user', error);
+    }
+  }, {
+    detail: {
+      tags: ['Auth'],
+      summary: 'Delete user',
+      description: 'Delete a user account and its sessions',
+    },
+  });
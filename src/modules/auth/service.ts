@@ -0,0 +1,161 @@
+/**
+ * Auth module service
+ * Credential resolution and role-based route authorization
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import config from '@/utils/config';
+import { createLogger } from '@/utils/logger';
+import { isJwt } from '@/utils/jwt';
+import { resolveSessionToken } from './users';
+import type { ApiKeyScope, AuthRole, AuthPrincipal, RouteRule } from './model';
+
+const logger = createLogger('AuthService');
+
+/**
+ * Routes reachable without any credentials
+ */
+export const PUBLIC_PATHS = new Set(['/health', '/auth/login']);
+
+/**
+ * Routes allowed for any authenticated caller
+ */
+const AUTHENTICATED_RULES: RouteRule[] = [
+  { method: 'GET', path: /^\/auth\/me$/ },
+  { method: 'POST', path: /^\/auth\/logout$/ },
+];
+
+/**
+ * Read-only access to host, node, config and DNS inventory and reports
+ */
+const INVENTORY_READ_RULES: RouteRule[] = [
+  { method: 'GET', path: /^\/(hosts|nodes|config|dns|reports|network)(\/.*)?$/ },
+];
+
+/**
+ * Routes allowed for each non-admin role
+ * Admins are allowed everywhere and are not listed here
+ */
+const ROLE_RULES: Record<Exclude<AuthRole, 'admin'>, RouteRule[]> = {
+  // API key scopes
+  agent: [
+    { method: 'POST', path: /^\/hosts\/(heartbeat|register)$/ },
+    { method: 'GET', path: /^\/hosts\/channel$/ },
+    { method: 'POST', path: /^\/hosts\/commands\/\d+\/result$/ },
+    { method: 'GET', path: /^\/network\/probes\/targets$/ },
+    { method: 'POST', path: /^\/network\/probes$/ },
+    { method: 'GET', path: /^\/config\/node\/[^/]+\/[^/]+$/ },
+  ],
+  panel: [{ method: 'GET', path: /^\/nodes(\/.*)?$/ }],
+
+  // User roles
+  viewer: INVENTORY_READ_RULES,
+  operator: [
+    ...INVENTORY_READ_RULES,
+    { method: 'POST', path: /^\/nodes(\/.*)?$/ },
+    { method: 'PATCH', path: /^\/nodes\/[^/]+$/ },
+    { method: 'POST', path: /^\/dns\/(update|check)$/ },
+    { method: 'POST', path: /^\/config\/generate$/ },
+    { method: 'POST', path: /^\/hosts\/maintenance(\/\d+\/end)?$/ },
+  ],
+};
+
+interface ConfiguredKey {
+  digest: Buffer;
+  scope: ApiKeyScope;
+}
+
+let configuredKeys: ConfiguredKey[] | null = null;
+
+/**
+ * Hash a key so comparisons always run on equal-length buffers
+ */
+function digestKey(key: string): Buffer {
+  return createHash('sha256').update(key).digest();
+}
+
+/**
+ * Load API keys from configuration
+ */
+function getConfiguredKeys(): ConfiguredKey[] {
+  if (!configuredKeys) {
+    const entries: [string, ApiKeyScope][] = [
+      [config.security.api_key, 'admin'],
+      [config.security.agent_api_key, 'agent'],
+      [config.security.panel_api_key, 'panel'],
+    ];
+
+    configuredKeys = entries
+      .filter(([key]) => !!key)
+      .map(([key, scope]) => ({ digest: digestKey(key), scope }));
+
+    if (configuredKeys.length === 0) {
+      logger.warn('No API keys configured, all protected routes will reject requests');
+    }
+  }
+  return configuredKeys;
+}
+
+/**
+ * Extract credential from request headers
+ * Accepts `Authorization: Bearer <key or session token>` or `X-API-Key: <key>`
+ */
+export function extractCredential(headers: Headers): string | null {
+  const authorization = headers.get('authorization');
+  if (authorization?.toLowerCase().startsWith('bearer ')) {
+    return authorization.slice(7).trim() || null;
+  }
+
+  return headers.get('x-api-key')?.trim() || null;
+}
+
+/**
+ * Resolve an API key to its principal
+ */
+export function resolveApiKey(key: string): AuthPrincipal | null {
+  const digest = digestKey(key);
+
+  for (const configured of getConfiguredKeys()) {
+    if (timingSafeEqual(digest, configured.digest)) {
+      return { type: 'api_key', role: configured.scope, name: `${configured.scope}-key` };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolve request credentials to a principal
+ * Session tokens (JWT) are checked against the sessions table, anything else as an API key
+ */
+export async function resolvePrincipal(headers: Headers): Promise<AuthPrincipal | null> {
+  const credential = extractCredential(headers);
+  if (!credential) {
+    return null;
+  }
+
+  if (isJwt(credential)) {
+    try {
+      return await resolveSessionToken(credential);
+    } catch (error) {
+      logger.error('Failed to resolve session token', { error });
+      return null;
+    }
+  }
+
+  return resolveApiKey(credential);
+}
+
+/**
+ * Check whether a principal may call the given route
+ */
+export function isRouteAllowed(principal: AuthPrincipal, method: string, path: string): boolean {
+  if (principal.role === 'admin') {
+    return true;
+  }
+
+  const upperMethod = method.toUpperCase();
+  return [...AUTHENTICATED_RULES, ...ROLE_RULES[principal.role]].some(
+    (rule) => rule.method === upperMethod && rule.path.test(path)
+  );
+}
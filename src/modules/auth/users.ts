@@ -0,0 +1,248 @@
+/**
+ * User account service
+ * Manages admin users, password login and session tokens
+ */
+
+import { randomUUID } from 'crypto';
+import { db, users, sessions, type User } from '@/db';
+import { eq, and, isNull, gt, desc } from 'drizzle-orm';
+import config from '@/utils/config';
+import { createLogger } from '@/utils/logger';
+import { signJwt, verifyJwt } from '@/utils/jwt';
+import type { AuthPrincipal, PublicUser, UserInfo, UserUpdate, UserRole, LoginResult } from './model';
+
+const logger = createLogger('UserService');
+
+// Used when config.toml has no session lifetime
+const DEFAULT_SESSION_TTL = 86400;
+
+let dummyHash: Promise<string> | null = null;
+
+/**
+ * Get a throwaway password hash, so logins for unknown users take as long as real ones
+ */
+function getDummyHash(): Promise<string> {
+  dummyHash ??= Bun.password.hash(randomUUID());
+  return dummyHash;
+}
+
+/**
+ * Strip the password hash from a user row
+ */
+function toPublicUser(user: User): PublicUser {
+  const { passwordHash: _passwordHash, ...publicUser } = user;
+  return publicUser;
+}
+
+/**
+ * Get JWT signing secret
+ */
+function getJwtSecret(): string {
+  const secret = config.security.jwt_secret;
+  if (!secret) {
+    throw new Error('JWT_SECRET is not configured');
+  }
+  return secret;
+}
+
+/**
+ * Get all users
+ */
+export async function getAllUsers(): Promise<PublicUser[]> {
+  try {
+    const result = await db.select().from(users).orderBy(desc(users.createdAt));
+    return result.map(toPublicUser);
+  } catch (error) {
+    logger.error('Failed to get all users', { error });
+    throw error;
+  }
+}
+
+/**
+ * Get user by ID
+ */
+export async function getUserById(id: number): Promise<PublicUser | null> {
+  try {
+    const result = await db.select().from(users).where(eq(users.id, id)).limit(1);
+    return result[0] ? toPublicUser(result[0]) : null;
+  } catch (error) {
+    logger.error(`Failed to get user by id ${id}`, { error });
+    throw error;
+  }
+}
+
+/**
+ * Create new user
+ */
+export async function createUser(userInfo: UserInfo): Promise<PublicUser> {
+  try {
+    const existing = await db.select().from(users).where(eq(users.username, userInfo.username)).limit(1);
+    if (existing[0]) {
+      throw new Error(`User with username '${userInfo.username}' already exists`);
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const result = await db
+      .insert(users)
+      .values({
+        username: userInfo.username,
+        passwordHash: await Bun.password.hash(userInfo.password),
+        role: userInfo.role || 'viewer',
+        isActive: true,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+
+    const created = result[0];
+    logger.info(`Created user: ${created.username} (ID: ${created.id}, Role: ${created.role})`);
+    return toPublicUser(created);
+  } catch (error) {
+    logger.error('Failed to create user', { error, username: userInfo.username });
+    throw error;
+  }
+}
+
+/**
+ * Update user role, password or status
+ * Deactivating a user or changing their password ends their sessions
+ */
+export async function updateUser(id: number, update: UserUpdate): Promise<PublicUser | null> {
+  try {
+    const now = Math.floor(Date.now() / 1000);
+    const values: Partial<User> = { updatedAt: now };
+
+    if (update.role) values.role = update.role;
+    if (update.isActive !== undefined) values.isActive = update.isActive;
+    if (update.password) values.passwordHash = await Bun.password.hash(update.password);
+
+    const result = await db.update(users).set(values).where(eq(users.id, id)).returning();
+    const updated = result[0];
+    if (!updated) {
+      return null;
+    }
+
+    if (update.password || update.isActive === false) {
+      await db
+        .update(sessions)
+        .set({ revokedAt: now })
+        .where(and(eq(sessions.userId, id), isNull(sessions.revokedAt)));
+    }
+
+    logger.info(`Updated user: ${updated.username} (ID: ${updated.id})`);
+    return toPublicUser(updated);
+  } catch (error) {
+    logger.error(`Failed to update user ${id}`, { error });
+    throw error;
+  }
+}
+
+/**
+ * Delete user
+ */
+export async function deleteUser(id: number): Promise<boolean> {
+  try {
+    const result = await db.delete(users).where(eq(users.id, id)).returning();
+    const deleted = result[0];
+
+    if (deleted) {
+      logger.info(`Deleted user: ${deleted.username} (ID: ${deleted.id})`);
+      return true;
+    }
+    return false;
+  } catch (error) {
+    logger.error(`Failed to delete user ${id}`, { error });
+    throw error;
+  }
+}
+
+/**
+ * Log in with username and password
+ * Issues a signed session token tracked in the sessions table
+ */
+export async function login(username: string, password: string): Promise<LoginResult> {
+  try {
+    const secret = getJwtSecret();
+    const result = await db.select().from(users).where(eq(users.username, username)).limit(1);
+    const user = result[0];
+
+    // Always verify a hash so response time doesn't tell which usernames exist
+    const valid = await Bun.password.verify(password, user?.passwordHash ?? (await getDummyHash()));
+    if (!user || !user.isActive || !valid) {
+      throw new Error('Invalid username or password');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const expiresAt = now + (config.security.session_ttl ?? DEFAULT_SESSION_TTL);
+    const sessionId = randomUUID();
+
+    await db.insert(sessions).values({ id: sessionId, userId: user.id, expiresAt, createdAt: now });
+    await db.update(users).set({ lastLoginAt: now }).where(eq(users.id, user.id));
+
+    const token = signJwt(
+      { sub: String(user.id), jti: sessionId, iat: now, exp: expiresAt, role: user.role, username: user.username },
+      secret
+    );
+
+    logger.info(`User logged in: ${user.username}`);
+    return { token, expiresAt, user: toPublicUser({ ...user, lastLoginAt: now }) };
+  } catch (error) {
+    logger.warn(`Login failed for ${username}`, { error: (error as Error).message });
+    throw error;
+  }
+}
+
+/**
+ * End a session
+ */
+export async function logout(sessionId: string): Promise<boolean> {
+  try {
+    const now = Math.floor(Date.now() / 1000);
+    const result = await db
+      .update(sessions)
+      .set({ revokedAt: now })
+      .where(and(eq(sessions.id, sessionId), isNull(sessions.revokedAt)))
+      .returning();
+    return result.length > 0;
+  } catch (error) {
+    logger.error(`Failed to end session ${sessionId}`, { error });
+    throw error;
+  }
+}
+
+/**
+ * Resolve a session token to its principal
+ * The role is read from the user row, so role changes apply immediately
+ */
+export async function resolveSessionToken(token: string): Promise<AuthPrincipal | null> {
+  const secret = config.security.jwt_secret;
+  if (!secret) {
+    return null;
+  }
+
+  const payload = verifyJwt(token, secret);
+  if (!payload) {
+    return null;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const result = await db
+    .select({ user: users })
+    .from(sessions)
+    .innerJoin(users, eq(sessions.userId, users.id))
+    .where(and(eq(sessions.id, payload.jti), isNull(sessions.revokedAt), gt(sessions.expiresAt, now)))
+    .limit(1);
+
+  const user = result[0]?.user;
+  if (!user || !user.isActive || String(user.id) !== payload.sub) {
+    return null;
+  }
+
+  return {
+    type: 'user',
+    role: user.role as UserRole,
+    name: `user:${user.username}`,
+    userId: user.id,
+    sessionId: payload.jti,
+  };
+}
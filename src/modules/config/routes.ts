@@ -5,11 +5,14 @@
 
 import { Elysia, t } from 'elysia';
 import { successResponse, errorResponse, ErrorCodes } from '@/utils/response';
-import { getNodeConfig, generateConfig, listTemplates, getTemplate } from './service';
+import { authPlugin } from '@/modules/auth/plugin';
+import { HOST_TOKEN_HEADER } from '@/modules/host/token';
+import { getNodeConfig, generateConfig, listTemplates, getTemplate, verifyNodeAgentToken } from './service';
 
 export const configRoutes = new Elysia({ prefix: '/config' })
+  .use(authPlugin)
   // Get node configuration
-  .get('/node/:nodeId/:configType', async ({ params, query }) => {
+  .get('/node/:nodeId/:configType', async ({ params, query, request, principal, set }) => {
     try {
       const nodeId = Number(params.nodeId);
       const configType = params.configType as 'xray' | 'nginx';
@@ -19,6 +22,15 @@ export const configRoutes = new Elysia({ prefix: '/config' })
         return errorResponse(ErrorCodes.INVALID_REQUEST, 'Invalid config type. Must be xray or nginx');
       }
 
+      // Agents may only download configs of nodes linked to their own host
+      if (principal?.role !== 'admin') {
+        const authorized = await verifyNodeAgentToken(nodeId, request.headers.get(HOST_TOKEN_HEADER));
+        if (!authorized) {
+          set.status = 401;
+          return errorResponse(ErrorCodes.UNAUTHORIZED, `Invalid agent token for node ${nodeId}`);
+        }
+      }
+
       const { config, contentType } = await getNodeConfig(nodeId, configType, template);
 
       // Return as downloadable file
@@ -41,7 +53,7 @@ export const configRoutes = new Elysia({ prefix: '/config' })
     detail: {
       tags: ['Config'],
       summary: 'Get node configuration',
-      description: 'Download configuration file for a node (Xray or Nginx)',
+      description: 'Download configuration file for a node (Xray or Nginx). Agents must send the X-Host-Token header of the linked host',
     },
   })
   // Generate configuration (returns as JSON)
@@ -8,6 +8,7 @@ import { resolve } from 'path';
 import { db, nodes, hosts } from '@/db';
 import { eq } from 'drizzle-orm';
 import { createLogger } from '@/utils/logger';
+import { verifyHostToken } from '@/modules/host/token';
 import type { ConfigRequest, ConfigTemplate, NodeConfigContext } from './model';
 
 const logger = createLogger('ConfigService');
@@ -174,6 +175,24 @@ export async function getNodeConfig(nodeId: number, configType: 'xray' | 'nginx'
   }
 }
 
+/**
+ * Check that an agent token belongs to the host a node is linked to
+ * Nodes without a host can't be downloaded with an agent token
+ */
+export async function verifyNodeAgentToken(nodeId: number, agentToken: string | null): Promise<boolean> {
+  try {
+    const node = await db.select({ hostId: nodes.hostId }).from(nodes).where(eq(nodes.id, nodeId)).limit(1);
+    if (!node[0]?.hostId) {
+      return false;
+    }
+
+    return await verifyHostToken(node[0].hostId, agentToken);
+  } catch (error) {
+    logger.error(`Failed to verify agent token for node ${nodeId}`, { error });
+    throw error;
+  }
+}
+
 /**
  * List available templates
  */
@@ -1,8 +1,9 @@
 /**
  * DNS configuration loader
- * Loads DNS provider settings from environment variables
+ * Loads DNS provider settings from stored settings or environment variables
  */
 
+import { getSettings } from '@/modules/settings/service';
 import type { DnsProviderConfig } from './providers';
 
 /**
@@ -39,6 +40,26 @@ export function getDnsConfig(): DnsProviderConfig {
   }
 }
 
+/**
+ * Load DNS provider configuration
+ * Credentials stored in settings (decrypted on read) take precedence over environment variables
+ */
+export async function loadDnsConfig(): Promise<DnsProviderConfig> {
+  const settings = await getSettings();
+  const envConfig = getDnsConfig();
+
+  if (!settings?.dnsApiKey) {
+    return envConfig;
+  }
+
+  return {
+    provider: settings.dnsProvider.toLowerCase() as DnsProviderConfig['provider'],
+    apiKey: settings.dnsApiKey,
+    apiSecret: settings.dnsApiSecret || undefined,
+    zoneId: envConfig.zoneId,
+  };
+}
+
 /**
  * Validate DNS configuration
  * Returns true if configuration is valid for the selected provider
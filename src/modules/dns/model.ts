@@ -6,6 +6,7 @@ export interface DnsProvider {
   name: string;
   updateRecord(domain: string, type: string, value: string): Promise<boolean>;
   getRecord(domain: string, type: string): Promise<string | null>;
+  deleteRecord(domain: string, type: string): Promise<boolean>;
 }
 
 export interface DnsUpdateRequest {
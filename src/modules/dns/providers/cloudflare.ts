@@ -7,6 +7,22 @@ import { createLogger } from '@/utils/logger';
 
 const logger = createLogger('CloudflareDNS');
 
+/**
+ * Envelope of every Cloudflare API v4 response
+ */
+interface CloudflareResponse<T> {
+  success: boolean;
+  errors?: { code: number; message: string }[];
+  result: T;
+}
+
+interface CloudflareRecord {
+  id: string;
+  type: string;
+  name: string;
+  content: string;
+}
+
 export class CloudflareProvider implements DnsProvider {
   name = 'cloudflare';
   private apiToken: string;
@@ -66,6 +82,46 @@ export class CloudflareProvider implements DnsProvider {
     }
   }
 
+  /**
+   * Delete DNS record
+   * Succeeds when no matching record exists
+   */
+  async deleteRecord(domain: string, type: string): Promise<boolean> {
+    try {
+      const zoneId = this.zoneId || (await this.getZoneId(domain));
+      if (!zoneId) {
+        throw new Error('Could not determine zone ID');
+      }
+
+      const existingRecord = await this.findRecord(zoneId, domain, type);
+      if (!existingRecord) {
+        return true;
+      }
+
+      const response = await fetch(
+        `https://api.cloudflare.com/client/v4/zones/${zoneId}/dns_records/${existingRecord.id}`,
+        {
+          method: 'DELETE',
+          headers: {
+            'Authorization': `Bearer ${this.apiToken}`,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+
+      const data = (await response.json()) as CloudflareResponse<{ id: string } | null>;
+      if (!data.success) {
+        throw new Error(`Cloudflare rejected the deletion: ${JSON.stringify(data.errors)}`);
+      }
+
+      logger.info(`Deleted DNS record: ${domain} (${type})`);
+      return true;
+    } catch (error) {
+      logger.error(`Failed to delete DNS record for ${domain}`, { error });
+      return false;
+    }
+  }
+
   /**
    * Get zone ID for domain
    */
@@ -79,7 +135,7 @@ export class CloudflareProvider implements DnsProvider {
         },
       });
 
-      const data = await response.json();
+      const data = (await response.json()) as CloudflareResponse<{ id: string }[]>;
       if (data.success && data.result.length > 0) {
         return data.result[0].id;
       }
@@ -94,7 +150,7 @@ export class CloudflareProvider implements DnsProvider {
   /**
    * Find existing DNS record
    */
-  private async findRecord(zoneId: string, domain: string, type: string): Promise<any | null> {
+  private async findRecord(zoneId: string, domain: string, type: string): Promise<CloudflareRecord | null> {
     try {
       const response = await fetch(
         `https://api.cloudflare.com/client/v4/zones/${zoneId}/dns_records?type=${type}&name=${domain}`,
@@ -106,7 +162,7 @@ export class CloudflareProvider implements DnsProvider {
         }
       );
 
-      const data = await response.json();
+      const data = (await response.json()) as CloudflareResponse<CloudflareRecord[]>;
       if (data.success && data.result.length > 0) {
         return data.result[0];
       }
@@ -0,0 +1,80 @@
+/**
+ * DNS module routes
+ * API endpoints for DNS record management
+ */
+
+import { Elysia, t } from 'elysia';
+import { successResponse, errorResponse, ErrorCodes } from '@/utils/response';
+import { getDnsWorker } from '@/workers/dns';
+import { getNodeById } from '@/modules/node/service';
+import { checkDnsRecord, getNodeDnsRecords } from './service';
+import type { DnsUpdateRequest, DnsCheckRequest } from './model';
+
+export const dnsRoutes = new Elysia({ prefix: '/dns' })
+  // Get DNS records for a node
+  .get('/records/:nodeId', async ({ params }) => {
+    try {
+      const records = await getNodeDnsRecords(Number(params.nodeId));
+      return successResponse(records);
+    } catch (error) {
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to get DNS records', error);
+    }
+  }, {
+    detail: {
+      tags: ['DNS'],
+      summary: 'Get node DNS records',
+      description: 'Retrieve DNS records managed for a node',
+    },
+  })
+  // Queue DNS update
+  .post('/update', async ({ body }) => {
+    try {
+      const node = await getNodeById(body.nodeId);
+      if (!node) {
+        return errorResponse(ErrorCodes.NODE_NOT_FOUND, `Node with ID ${body.nodeId} not found`);
+      }
+
+      const worker = getDnsWorker();
+      const success = await worker.addUpdateTask(body as DnsUpdateRequest);
+      if (!success) {
+        return errorResponse(ErrorCodes.DNS_UPDATE_FAILED, `Failed to update DNS record for ${body.domain}`);
+      }
+      return successResponse({ domain: body.domain, type: body.type, value: body.value });
+    } catch (error) {
+      return errorResponse(ErrorCodes.DNS_UPDATE_FAILED, 'Failed to update DNS record', error);
+    }
+  }, {
+    detail: {
+      tags: ['DNS'],
+      summary: 'Update DNS record',
+      description: 'Update a node DNS record through the DNS update queue',
+    },
+    body: t.Object({
+      nodeId: t.Integer(),
+      domain: t.String({ minLength: 1 }),
+      type: t.Union([t.Literal('A'), t.Literal('AAAA'), t.Literal('CNAME')]),
+      value: t.String({ minLength: 1 }),
+    }),
+  })
+  // Check DNS record
+  .post('/check', async ({ body }) => {
+    try {
+      const result = await checkDnsRecord(body as DnsCheckRequest);
+      return successResponse(result);
+    } catch (error: any) {
+      if (error.message.includes('not initialized')) {
+        return errorResponse(ErrorCodes.DNS_PROVIDER_ERROR, error.message);
+      }
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to check DNS record', error);
+    }
+  }, {
+    detail: {
+      tags: ['DNS'],
+      summary: 'Check DNS record',
+      description: 'Compare the current DNS value of a domain with the expected value',
+    },
+    body: t.Object({
+      domain: t.String({ minLength: 1 }),
+      expectedValue: t.Optional(t.String()),
+    }),
+  });
@@ -3,12 +3,13 @@
  * Handles DNS record management
  */
 
-import { db, dnsRecords } from '@/db';
-import { eq } from 'drizzle-orm';
+import { db, dnsRecords, type DnsRecord } from '@/db';
+import { eq, and } from 'drizzle-orm';
 import { createLogger } from '@/utils/logger';
+import { recordAudit } from '@/modules/audit/service';
 import { createDnsProvider } from './providers';
 import type { DnsProviderConfig } from './providers';
-import type { DnsUpdateRequest, DnsCheckRequest } from './model';
+import type { DnsProvider, DnsUpdateRequest, DnsCheckRequest } from './model';
 
 // Export config functions
 export * from './config';
@@ -31,6 +32,16 @@ export function initializeDnsProvider(config: DnsProviderConfig): void {
   }
 }
 
+/**
+ * Get the initialized DNS provider
+ */
+export function getDnsProvider(): DnsProvider {
+  if (!defaultProvider) {
+    throw new Error('DNS provider not initialized');
+  }
+  return defaultProvider;
+}
+
 /**
  * Update DNS record for a node
  */
@@ -40,8 +51,18 @@ export async function updateDnsRecord(request: DnsUpdateRequest): Promise<boolea
       throw new Error('DNS provider not initialized');
     }
 
-    // Verify node exists
-    const node = await db.select().from(dnsRecords).where(eq(dnsRecords.nodeId, request.nodeId)).limit(1);
+    // Find the existing record for this node, domain and type (A and AAAA are kept separately)
+    const node = await db
+      .select()
+      .from(dnsRecords)
+      .where(
+        and(
+          eq(dnsRecords.nodeId, request.nodeId),
+          eq(dnsRecords.domain, request.domain),
+          eq(dnsRecords.type, request.type)
+        )
+      )
+      .limit(1);
 
     // Update DNS record
     const success = await defaultProvider.updateRecord(request.domain, request.type, request.value);
@@ -50,8 +71,9 @@ export async function updateDnsRecord(request: DnsUpdateRequest): Promise<boolea
       const now = Math.floor(Date.now() / 1000);
 
       // Update database record
+      let saved: DnsRecord[];
       if (node.length > 0) {
-        await db
+        saved = await db
           .update(dnsRecords)
           .set({
             domain: request.domain,
@@ -60,9 +82,10 @@ export async function updateDnsRecord(request: DnsUpdateRequest): Promise<boolea
             lastUpdated: now,
             updatedAt: now,
           })
-          .where(eq(dnsRecords.id, node[0].id));
+          .where(eq(dnsRecords.id, node[0].id))
+          .returning();
       } else {
-        await db.insert(dnsRecords).values({
+        saved = await db.insert(dnsRecords).values({
           nodeId: request.nodeId,
           domain: request.domain,
           type: request.type,
@@ -72,9 +95,19 @@ export async function updateDnsRecord(request: DnsUpdateRequest): Promise<boolea
           lastUpdated: now,
           createdAt: now,
           updatedAt: now,
-        });
+        }).returning();
       }
 
+      // Updates run on the DNS worker; the caller of POST /dns/update is audited by the audit plugin
+      await recordAudit({
+        actor: 'system:dns',
+        action: 'dns.update',
+        entityType: 'dns_record',
+        entityId: saved[0].id,
+        before: node[0] || null,
+        after: saved[0],
+      });
+
       logger.info(`DNS record updated: ${request.domain} -> ${request.value}`);
       return true;
     }
@@ -0,0 +1,206 @@
+/**
+ * Host address tracking
+ * Detects IP changes from heartbeats and repoints DNS records of linked nodes
+ */
+
+import { isIPv4, isIPv6 } from 'net';
+import { db, nodes, dnsRecords, hostIpChanges, type Host, type HostIpChange } from '@/db';
+import { eq, and, inArray, desc } from 'drizzle-orm';
+import { createLogger } from '@/utils/logger';
+import { notifyHostIpChanged, notifyDnsUpdateFailed } from '@/utils/telegram';
+import { getDnsWorker } from '@/workers/dns';
+import type { DnsUpdateRequest } from '@/modules/dns/model';
+import type { HostHeartbeat, IpChange, IpFamily } from './model';
+
+const logger = createLogger('HostAddress');
+
+const DNS_RECORD_TYPES: Record<IpFamily, 'A' | 'AAAA'> = {
+  ipv4: 'A',
+  ipv6: 'AAAA',
+};
+
+/**
+ * Private, loopback and link-local ranges never used as a host's public address
+ */
+const NON_PUBLIC_IPV4 = [
+  /^0\./,
+  /^10\./,
+  /^127\./,
+  /^169\.254\./,
+  /^172\.(1[6-9]|2\d|3[01])\./,
+  /^192\.168\./,
+  /^100\.(6[4-9]|[7-9]\d|1[01]\d|12[0-7])\./, // Carrier-grade NAT
+];
+const NON_PUBLIC_IPV6 = [/^::1?$/, /^f[cd][0-9a-f]{2}:/i, /^fe[89ab][0-9a-f]:/i];
+
+/**
+ * Normalize an address and detect its family
+ * IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) are returned as IPv4
+ */
+export function parseIp(address: string | null | undefined): { family: IpFamily; address: string } | null {
+  if (!address) {
+    return null;
+  }
+
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  const value = mapped ? mapped[1] : address;
+
+  if (isIPv4(value)) {
+    return { family: 'ipv4', address: value };
+  }
+  if (isIPv6(value)) {
+    return { family: 'ipv6', address: value.toLowerCase() };
+  }
+  return null;
+}
+
+/**
+ * Check whether an address is publicly routable
+ */
+export function isPublicIp(address: string): boolean {
+  const parsed = parseIp(address);
+  if (!parsed) {
+    return false;
+  }
+
+  const ranges = parsed.family === 'ipv4' ? NON_PUBLIC_IPV4 : NON_PUBLIC_IPV6;
+  return !ranges.some((range) => range.test(parsed.address));
+}
+
+/**
+ * Compare the addresses reported by an agent with the host's known addresses
+ * Reported addresses win; otherwise a public request source address is used
+ */
+export function detectIpChanges(
+  host: Host,
+  reported: Pick<HostHeartbeat, 'ip' | 'ipv6'>,
+  sourceIp: string | null,
+  reportedBy: 'heartbeat' | 'registration' = 'heartbeat'
+): IpChange[] {
+  const source = parseIp(sourceIp);
+  const fromRequest = source && isPublicIp(source.address) ? source : null;
+  const changes: IpChange[] = [];
+
+  const candidates: { family: IpFamily; current: string | null; reported?: string }[] = [
+    { family: 'ipv4', current: host.ip, reported: reported.ip },
+    { family: 'ipv6', current: host.ipv6, reported: reported.ipv6 },
+  ];
+
+  for (const { family, current, reported } of candidates) {
+    const parsed = parseIp(reported);
+    let next: IpChange | null = null;
+
+    if (parsed?.family === family) {
+      next = { family, oldIp: current, newIp: parsed.address, source: reportedBy };
+    } else if (!reported && fromRequest?.family === family) {
+      next = { family, oldIp: current, newIp: fromRequest.address, source: 'request' };
+    }
+
+    if (next && next.newIp !== parseIp(current)?.address) {
+      changes.push(next);
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Build DNS updates for nodes linked to a host
+ * Covers each node's main domain and any A/AAAA records already managed for it
+ */
+async function getDnsUpdates(hostId: number, change: IpChange): Promise<DnsUpdateRequest[]> {
+  const type = DNS_RECORD_TYPES[change.family];
+  const linkedNodes = await db.select().from(nodes).where(eq(nodes.hostId, hostId));
+  if (linkedNodes.length === 0) {
+    return [];
+  }
+
+  const records = await db
+    .select()
+    .from(dnsRecords)
+    .where(
+      and(
+        inArray(dnsRecords.nodeId, linkedNodes.map((node) => node.id)),
+        eq(dnsRecords.type, type)
+      )
+    );
+
+  const updates = new Map<string, DnsUpdateRequest>();
+  for (const node of linkedNodes) {
+    if (node.domain) {
+      updates.set(`${node.id}:${node.domain}`, { nodeId: node.id, domain: node.domain, type, value: change.newIp });
+    }
+  }
+  for (const record of records) {
+    updates.set(`${record.nodeId}:${record.domain}`, {
+      nodeId: record.nodeId,
+      domain: record.domain,
+      type,
+      value: change.newIp,
+    });
+  }
+
+  return [...updates.values()];
+}
+
+/**
+ * Record address changes, queue DNS updates for linked nodes and notify
+ * DNS updates and notifications run in the background so heartbeats return quickly
+ */
+export async function applyIpChanges(host: Host, changes: IpChange[], now: number): Promise<void> {
+  try {
+    const queued: DnsUpdateRequest[] = [];
+
+    for (const change of changes) {
+      const updates = await getDnsUpdates(host.id, change);
+      queued.push(...updates);
+
+      await db.insert(hostIpChanges).values({
+        hostId: host.id,
+        family: change.family,
+        oldIp: change.oldIp,
+        newIp: change.newIp,
+        source: change.source,
+        dnsUpdates: updates.length,
+        createdAt: now,
+      });
+
+      logger.info(`Host ${host.name} ${change.family} changed: ${change.oldIp || '(none)'} -> ${change.newIp}`);
+    }
+
+    const worker = getDnsWorker();
+    for (const update of queued) {
+      void worker.addUpdateTask(update).then((success) => {
+        if (!success) {
+          void notifyDnsUpdateFailed(update.domain, `Could not point ${update.type} record to ${update.value}`);
+        }
+      });
+    }
+
+    void notifyHostIpChanged(
+      host.name,
+      changes,
+      queued.map((update) => `${update.domain} (${update.type})`)
+    );
+  } catch (error) {
+    logger.error(`Failed to apply IP changes for host ${host.name}`, { error });
+    throw error;
+  }
+}
+
+/**
+ * Get address change history for a host, newest first
+ */
+export async function getHostIpChanges(hostId: number, limit = 100): Promise<HostIpChange[]> {
+  try {
+    return await db
+      .select()
+      .from(hostIpChanges)
+      .where(eq(hostIpChanges.hostId, hostId))
+      .orderBy(desc(hostIpChanges.createdAt), desc(hostIpChanges.id))
+      .limit(limit);
+  } catch (error) {
+    logger.error(`Failed to get IP changes for host ${hostId}`, { error });
+    throw error;
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Host bandwidth saturation
+ * Compares the transfer rates of hosts with their port speed and alerts once a port fills up
+ */
+
+import { db, hosts, type Host } from '@/db';
+import { eq } from 'drizzle-orm';
+import config from '@/utils/config';
+import { createLogger } from '@/utils/logger';
+import { getTelegramNotifier, notifyPortSaturated } from '@/utils/telegram';
+import { findHostsInMaintenance } from './maintenance';
+import type { NetworkInterface } from './model';
+
+const logger = createLogger('HostBandwidth');
+
+// Used when config.toml has no bandwidth threshold
+const DEFAULT_THRESHOLD_PERCENT = 90;
+
+/**
+ * Get the port speed of a host in Mbit/s
+ * The configured speed wins over the fastest interface the agent reported
+ */
+export function getPortSpeed(host: Pick<Host, 'portSpeed' | 'interfaces'>): number | null {
+  if (host.portSpeed) {
+    return host.portSpeed;
+  }
+
+  try {
+    const interfaces: NetworkInterface[] = host.interfaces ? JSON.parse(host.interfaces) : [];
+    const speeds = interfaces.map((entry) => entry.speed ?? 0).filter((speed) => speed > 0);
+    return speeds.length > 0 ? Math.max(...speeds) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Percentage of the port speed used by the busier direction, null when the speed is unknown
+ */
+export function getPortUsage(
+  host: Pick<Host, 'portSpeed' | 'interfaces' | 'uploadRate' | 'downloadRate'>
+): number | null {
+  const portSpeed = getPortSpeed(host);
+  if (!portSpeed) {
+    return null;
+  }
+
+  const bitsPerSecond = Math.max(host.uploadRate, host.downloadRate) * 8;
+  return Math.round((bitsPerSecond / (portSpeed * 1_000_000)) * 10000) / 100;
+}
+
+/**
+ * Alert on hosts whose port went past the threshold, and clear hosts that dropped below it
+ * Each host is alerted on once per saturation; hosts in maintenance or not online are skipped
+ */
+export async function checkBandwidthSaturation(now = Math.floor(Date.now() / 1000)): Promise<number> {
+  try {
+    const threshold = config.notifications?.bandwidth_threshold ?? DEFAULT_THRESHOLD_PERCENT;
+    const allHosts = await db.select().from(hosts);
+    const inMaintenance = await findHostsInMaintenance(allHosts, now);
+
+    let alerted = 0;
+    for (const host of allHosts) {
+      const usage = getPortUsage(host);
+      const saturated =
+        host.status === 'online' && !inMaintenance.has(host.id) && usage !== null && usage >= threshold;
+
+      if (!saturated) {
+        if (host.saturatedAt !== null) {
+          logger.info(`Port of host ${host.name} is no longer saturated`);
+          await db.update(hosts).set({ saturatedAt: null }).where(eq(hosts.id, host.id));
+        }
+        continue;
+      }
+      if (host.saturatedAt !== null) {
+        continue;
+      }
+
+      logger.warn(`Port of host ${host.name} is saturated (${usage}%)`);
+
+      // Retry on the next check if Telegram is configured but the message failed
+      const delivered = await notifyPortSaturated(host.name, usage!, getPortSpeed(host)!, host);
+      if (!delivered && getTelegramNotifier().isEnabled()) {
+        continue;
+      }
+
+      await db.update(hosts).set({ saturatedAt: now }).where(eq(hosts.id, host.id));
+      alerted++;
+    }
+
+    return alerted;
+  } catch (error) {
+    logger.error('Failed to check bandwidth saturation', { error });
+    throw error;
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * Agent channel
+ * Persistent WebSocket between an agent and the hub carrying heartbeats, metric batches and acknowledgements.
+ * The connection itself keeps the host online; dropping it marks the host offline right away
+ */
+
+import { db, hosts, hostMetrics, type Host } from '@/db';
+import { eq, and, desc } from 'drizzle-orm';
+import config from '@/utils/config';
+import { createLogger } from '@/utils/logger';
+import { notifyHostOffline } from '@/utils/telegram';
+import { recordAudit } from '@/modules/audit/service';
+import { getHostById, getHostByName, applyHeartbeat } from './service';
+import { verifyHostToken } from './token';
+import { assertHeartbeatFresh } from './signature';
+import { recordStatusEvent } from './events';
+import { findHostsInMaintenance } from './maintenance';
+import { claimHostCommands } from './commands';
+import {
+  addAgentConnection,
+  removeAgentConnection,
+  touchAgentConnection,
+  resolveAgentAck,
+  type AgentSocket,
+} from './connections';
+import type { AgentAck, AgentMessage, HostSample, MetricBatch } from './model';
+
+const logger = createLogger('AgentChannel');
+
+/**
+ * Authenticate an agent opening the channel
+ */
+export async function authenticateAgent(name: string, agentToken: string | null): Promise<Host> {
+  const host = await getHostByName(name);
+  if (!host || !(await verifyHostToken(host.id, agentToken))) {
+    throw new Error(`Channel rejected: invalid agent token for host '${name}'`);
+  }
+  return host;
+}
+
+/**
+ * Set a host's status after its connection opened or closed
+ * Returns false if the host is gone or already had that status
+ */
+async function setChannelStatus(host: Host, status: string, now: number): Promise<boolean> {
+  if (host.status === status) {
+    return false;
+  }
+
+  const result = await db
+    .update(hosts)
+    .set({ status, updatedAt: now })
+    .where(and(eq(hosts.id, host.id), eq(hosts.status, host.status)))
+    .returning();
+  if (!result[0]) {
+    return false;
+  }
+
+  await recordStatusEvent(host.id, host.status, status, now, now);
+  return true;
+}
+
+/**
+ * Register an authenticated connection and mark its host online
+ */
+export async function openAgentChannel(socket: AgentSocket, host: Host, sourceIp: string | null): Promise<void> {
+  try {
+    const now = Math.floor(Date.now() / 1000);
+    addAgentConnection(socket, host, sourceIp, now);
+
+    await setChannelStatus(host, 'online', now);
+
+    socket.send(JSON.stringify({ type: 'welcome', data: { hostId: host.id, serverTime: now } }));
+    logger.info(`Agent channel opened for host: ${host.name}${sourceIp ? ` from ${sourceIp}` : ''}`);
+  } catch (error) {
+    logger.error(`Failed to open agent channel for host ${host.name}`, { error });
+    throw error;
+  }
+}
+
+/**
+ * Forget a closed connection and mark its host offline, or in maintenance while a window covers it
+ * Connections replaced by a newer one from the same agent leave the host alone
+ */
+export async function closeAgentChannel(socketId: string): Promise<void> {
+  const connection = removeAgentConnection(socketId);
+  if (!connection) {
+    return;
+  }
+
+  try {
+    const now = Math.floor(Date.now() / 1000);
+    const host = await getHostById(connection.hostId);
+    if (!host) {
+      return;
+    }
+
+    const inMaintenance = (await findHostsInMaintenance([host], now)).has(host.id);
+    const status = inMaintenance ? 'maintenance' : 'offline';
+    if (!(await setChannelStatus(host, status, now))) {
+      return;
+    }
+
+    await recordAudit({
+      actor: 'system:channel',
+      action: `host.mark_${status}`,
+      entityType: 'host',
+      entityId: host.id,
+      before: { status: host.status },
+      after: { status },
+    });
+    logger.warn(`Agent channel closed for host: ${host.name}, marked ${status}`);
+
+    if (status === 'offline' && config.notifications.notify_on_node_offline) {
+      void notifyHostOffline(host.name, host.lastHeartbeat ?? undefined);
+    }
+  } catch (error) {
+    logger.error(`Failed to close agent channel for host ${connection.hostName}`, { error });
+  }
+}
+
+/**
+ * Check that a value carries the numeric fields of a sample
+ */
+function isHostSample(value: unknown): value is HostSample {
+  const sample = value as Record<string, unknown> | null;
+  return (
+    typeof sample === 'object' &&
+    sample !== null &&
+    ['cpuUsage', 'memoryUsed', 'diskUsed', 'uploadTotal', 'downloadTotal', 'uptime', 'timestamp'].every(
+      (field) => typeof sample[field] === 'number' && Number.isFinite(sample[field])
+    )
+  );
+}
+
+/**
+ * Get the time of a host's most recent stored sample
+ */
+async function getLatestSampleTime(hostId: number): Promise<number> {
+  const [latest] = await db
+    .select({ createdAt: hostMetrics.createdAt })
+    .from(hostMetrics)
+    .where(eq(hostMetrics.hostId, hostId))
+    .orderBy(desc(hostMetrics.createdAt))
+    .limit(1);
+  return latest?.createdAt ?? 0;
+}
+
+/**
+ * Apply a batch of samples taken between heartbeats, oldest first
+ * Samples not newer than the latest stored one are dropped, so resent batches don't count traffic twice
+ */
+async function applyMetricBatch(host: Host, batch: MetricBatch, sourceIp: string | null): Promise<number> {
+  if (!Array.isArray(batch?.samples) || !batch.samples.every(isHostSample)) {
+    throw new Error('Invalid metrics batch: every sample needs numeric counters and a timestamp');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const latest = await getLatestSampleTime(host.id);
+  const samples = batch.samples
+    .map((sample) => ({ ...sample, timestamp: Math.min(Math.floor(sample.timestamp), now) }))
+    .filter((sample) => sample.timestamp > latest)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  let current = host;
+  for (const sample of samples) {
+    current = await applyHeartbeat(current, sample, sourceIp, sample.timestamp);
+  }
+  return samples.length;
+}
+
+/**
+ * Handle a message from an agent
+ * Returns the acknowledgement to send back, or null for messages that need none
+ */
+export async function handleAgentMessage(socketId: string, message: AgentMessage): Promise<AgentAck | null> {
+  const connection = touchAgentConnection(socketId);
+  const id = typeof message?.id === 'string' ? message.id : null;
+  if (!connection) {
+    return { type: 'ack', id, success: false, error: 'Connection is not registered' };
+  }
+
+  // Agents acknowledge pushed messages the same way the hub acknowledges theirs
+  if (message?.type === 'ack') {
+    const ack = message as AgentMessage & Partial<AgentAck>;
+    if (id) {
+      resolveAgentAck(socketId, id, {
+        type: 'ack',
+        id,
+        success: ack.success === true,
+        error: ack.error,
+        data: ack.data,
+      });
+    }
+    return null;
+  }
+
+  try {
+    // Reload so counters and status reflect earlier messages
+    const host = await getHostById(connection.hostId);
+    if (!host) {
+      throw new Error(`Host with ID ${connection.hostId} not found`);
+    }
+
+    switch (message?.type) {
+      case 'heartbeat': {
+        const heartbeat = message.data as (HostSample & { nonce?: unknown }) | undefined;
+        if (!isHostSample(heartbeat) || typeof heartbeat.nonce !== 'string') {
+          throw new Error('Invalid heartbeat: needs numeric counters, a timestamp and a nonce');
+        }
+        assertHeartbeatFresh(host.id, heartbeat.timestamp, heartbeat.nonce);
+        await applyHeartbeat(host, heartbeat, connection.sourceIp);
+        return { type: 'ack', id, success: true, data: { commands: await claimHostCommands(host.id) } };
+      }
+      case 'metrics': {
+        const applied = await applyMetricBatch(host, message.data as MetricBatch, connection.sourceIp);
+        return { type: 'ack', id, success: true, data: { applied } };
+      }
+      default:
+        throw new Error(`Unknown message type: ${String(message?.type)}`);
+    }
+  } catch (error: any) {
+    logger.warn(`Agent message from host ${connection.hostName} failed: ${error.message}`);
+    return { type: 'ack', id, success: false, error: error.message };
+  }
+}
@@ -0,0 +1,276 @@
+/**
+ * Host command queue
+ * Commands queued for agents, pushed down the agent channel or handed out once in heartbeat responses,
+ * and completed by the agent's report
+ */
+
+import { db, hosts, hostCommands, type HostCommand } from '@/db';
+import { eq, and, gt, lte, desc, inArray, type SQL } from 'drizzle-orm';
+import { createLogger } from '@/utils/logger';
+import { parseDuration } from '@/utils/duration';
+import { getAllHosts } from './service';
+import { verifyHostToken } from './token';
+import { isAgentConnected, pushToAgent } from './connections';
+import type {
+  DeliveredCommand,
+  HostCommandInput,
+  HostCommandQuery,
+  HostCommandResult,
+  HostCommandType,
+} from './model';
+
+const logger = createLogger('HostCommands');
+
+/**
+ * Commands agents understand
+ */
+export const HOST_COMMAND_TYPES: HostCommandType[] = ['reload_xray', 'pull_config', 'restart_nginx', 'speed_test'];
+
+// Commands wait this long for delivery unless the caller says otherwise
+const DEFAULT_EXPIRY = '1h';
+
+// Longest output kept from an agent report
+const MAX_OUTPUT_LENGTH = 64 * 1024;
+
+/**
+ * Queue a command for a host or for every host carrying a tag
+ * With an idempotency key, hosts that already have a command under that key get it back instead of a new one
+ */
+export async function enqueueHostCommand(
+  input: HostCommandInput,
+  createdBy: string,
+  now = Math.floor(Date.now() / 1000)
+): Promise<HostCommand[]> {
+  const tag = input.tag?.trim().toLowerCase() || null;
+  if ((input.hostId === undefined) === !tag) {
+    throw new Error('Command needs either hostId or tag');
+  }
+  if (!HOST_COMMAND_TYPES.includes(input.type)) {
+    throw new Error(`Invalid command type: ${input.type}`);
+  }
+
+  const expiresIn = parseDuration(input.expiresIn ?? DEFAULT_EXPIRY);
+  if (expiresIn === null || expiresIn <= 0) {
+    throw new Error(`Invalid duration: ${input.expiresIn}`);
+  }
+
+  try {
+    let targets: number[];
+    if (input.hostId !== undefined) {
+      const [target] = await db.select({ id: hosts.id }).from(hosts).where(eq(hosts.id, input.hostId)).limit(1);
+      if (!target) {
+        throw new Error(`Host with ID ${input.hostId} not found`);
+      }
+      targets = [target.id];
+    } else {
+      targets = (await getAllHosts({ tag: tag! })).map((host) => host.id).sort((a, b) => a - b);
+      if (targets.length === 0) {
+        throw new Error(`No hosts found with tag '${tag}'`);
+      }
+    }
+
+    const idempotencyKey = input.idempotencyKey?.trim() || null;
+    const existing = idempotencyKey
+      ? await db
+          .select()
+          .from(hostCommands)
+          .where(and(inArray(hostCommands.hostId, targets), eq(hostCommands.idempotencyKey, idempotencyKey)))
+      : [];
+    const existingByHost = new Map(existing.map((command) => [command.hostId, command]));
+
+    const commands: HostCommand[] = [];
+    for (const hostId of targets) {
+      const previous = existingByHost.get(hostId);
+      if (previous) {
+        commands.push(previous);
+        continue;
+      }
+
+      const result = await db
+        .insert(hostCommands)
+        .values({
+          hostId,
+          type: input.type,
+          payload: input.payload ? JSON.stringify(input.payload) : null,
+          idempotencyKey,
+          status: 'pending',
+          createdBy,
+          expiresAt: now + expiresIn,
+          createdAt: now,
+          updatedAt: now,
+        })
+        .returning();
+      commands.push(result[0]);
+    }
+
+    const queued = commands.length - existingByHost.size;
+    logger.info(
+      `Queued ${input.type} for ${input.hostId !== undefined ? `host ${input.hostId}` : `tag ${tag}`}: ` +
+        `${queued} new, ${existingByHost.size} already queued`
+    );
+    return commands;
+  } catch (error) {
+    logger.error(`Failed to queue ${input.type} command`, { error });
+    throw error;
+  }
+}
+
+/**
+ * List commands, newest first
+ */
+export async function getHostCommands(query: HostCommandQuery = {}): Promise<HostCommand[]> {
+  try {
+    const conditions: SQL[] = [];
+
+    if (query.hostId !== undefined) conditions.push(eq(hostCommands.hostId, query.hostId));
+    if (query.status) conditions.push(eq(hostCommands.status, query.status));
+
+    return await db
+      .select()
+      .from(hostCommands)
+      .where(and(...conditions))
+      .orderBy(desc(hostCommands.createdAt), desc(hostCommands.id))
+      .limit(Math.min(query.limit ?? 100, 1000));
+  } catch (error) {
+    logger.error('Failed to get host commands', { error });
+    throw error;
+  }
+}
+
+/**
+ * Hand a host's pending commands to its agent, oldest first
+ * Each command is delivered once; commands past their expiry are left for expireHostCommands
+ */
+export async function claimHostCommands(
+  hostId: number,
+  now = Math.floor(Date.now() / 1000)
+): Promise<DeliveredCommand[]> {
+  try {
+    // The status guard keeps concurrent heartbeats from claiming the same command
+    const claimed = await db
+      .update(hostCommands)
+      .set({ status: 'delivered', deliveredAt: now, updatedAt: now })
+      .where(
+        and(eq(hostCommands.hostId, hostId), eq(hostCommands.status, 'pending'), gt(hostCommands.expiresAt, now))
+      )
+      .returning();
+
+    return claimed
+      .sort((a, b) => a.id - b.id)
+      .map((command) => ({
+        id: command.id,
+        type: command.type,
+        payload: command.payload ? JSON.parse(command.payload) : null,
+        expiresAt: command.expiresAt,
+      }));
+  } catch (error) {
+    logger.error(`Failed to claim commands for host ${hostId}`, { error });
+    throw error;
+  }
+}
+
+/**
+ * Push a host's pending commands down its agent channel right away
+ * Commands the agent doesn't acknowledge go back to pending for its next heartbeat. Failures are
+ * logged, never thrown, so callers may fire and forget; returns how many commands were acknowledged
+ */
+export async function pushHostCommands(hostId: number): Promise<number> {
+  if (!isAgentConnected(hostId)) {
+    return 0;
+  }
+
+  try {
+    const commands = await claimHostCommands(hostId);
+    if (commands.length === 0) {
+      return 0;
+    }
+
+    const ack = await pushToAgent(hostId, 'commands', { commands });
+    if (ack?.success) {
+      logger.info(`Pushed ${commands.length} command(s) to host ${hostId}`);
+      return commands.length;
+    }
+
+    // The status guard leaves commands the agent already reported on alone
+    const now = Math.floor(Date.now() / 1000);
+    await db
+      .update(hostCommands)
+      .set({ status: 'pending', deliveredAt: null, updatedAt: now })
+      .where(
+        and(inArray(hostCommands.id, commands.map((command) => command.id)), eq(hostCommands.status, 'delivered'))
+      );
+    logger.warn(`Agent of host ${hostId} did not take pushed commands, leaving them for its next heartbeat`);
+    return 0;
+  } catch (error) {
+    logger.error(`Failed to push commands to host ${hostId}`, { error });
+    return 0;
+  }
+}
+
+/**
+ * Record the outcome an agent reports for a delivered command
+ * Reports for a command already completed are ignored, so agents may retry them
+ */
+export async function reportHostCommandResult(
+  id: number,
+  agentToken: string | null,
+  result: HostCommandResult,
+  now = Math.floor(Date.now() / 1000)
+): Promise<HostCommand> {
+  try {
+    const [command] = await db.select().from(hostCommands).where(eq(hostCommands.id, id)).limit(1);
+    if (!command) {
+      throw new Error(`Command with ID ${id} not found`);
+    }
+    if (!(await verifyHostToken(command.hostId, agentToken))) {
+      throw new Error(`Invalid agent token for command ${id}`);
+    }
+
+    if (command.status === 'succeeded' || command.status === 'failed') {
+      return command;
+    }
+    // Late reports still count for commands that expired while running
+    if (command.deliveredAt === null) {
+      throw new Error(`Command ${id} has not been delivered`);
+    }
+
+    const updated = await db
+      .update(hostCommands)
+      .set({
+        status: result.status,
+        output: result.output?.slice(0, MAX_OUTPUT_LENGTH) ?? null,
+        exitCode: result.exitCode ?? null,
+        completedAt: now,
+        updatedAt: now,
+      })
+      .where(eq(hostCommands.id, id))
+      .returning();
+
+    logger.info(`Command ${id} (${command.type}) on host ${command.hostId} ${result.status}`);
+    return updated[0];
+  } catch (error) {
+    logger.error(`Failed to record result of command ${id}`, { error });
+    throw error;
+  }
+}
+
+/**
+ * Expire commands never delivered in time, and delivered ones whose agent never reported back
+ */
+export async function expireHostCommands(now = Math.floor(Date.now() / 1000)): Promise<number> {
+  try {
+    const result = await db
+      .update(hostCommands)
+      .set({ status: 'expired', updatedAt: now })
+      .where(and(inArray(hostCommands.status, ['pending', 'delivered']), lte(hostCommands.expiresAt, now)))
+      .returning({ id: hostCommands.id });
+
+    if (result.length > 0) {
+      logger.info(`Expired ${result.length} host commands`);
+    }
+    return result.length;
+  } catch (error) {
+    logger.error('Failed to expire host commands', { error });
+    throw error;
+  }
+}
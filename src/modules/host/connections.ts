@@ -0,0 +1,167 @@
+/**
+ * Agent channel connections
+ * Registry of live agent WebSocket connections and messages pushed down them
+ */
+
+import { randomUUID } from 'crypto';
+import { createLogger } from '@/utils/logger';
+import type { AgentAck, AgentConnectionInfo } from './model';
+
+const logger = createLogger('AgentConnections');
+
+/**
+ * The parts of a WebSocket the registry needs
+ */
+export interface AgentSocket {
+  id: string;
+  send(data: string): unknown;
+  close(code?: number, reason?: string): unknown;
+}
+
+interface AgentConnection extends AgentConnectionInfo {
+  socket: AgentSocket;
+  pending: Map<string, { resolve: (ack: AgentAck | null) => void; timer: ReturnType<typeof setTimeout> }>;
+}
+
+// Live connections by host ID; an agent has at most one
+const connections = new Map<number, AgentConnection>();
+
+/**
+ * Close code sent to a connection replaced by a newer one from the same host
+ */
+export const REPLACED_CLOSE_CODE = 4000;
+
+/**
+ * Register a connection, closing any older one from the same host
+ */
+export function addAgentConnection(
+  socket: AgentSocket,
+  host: { id: number; name: string },
+  sourceIp: string | null,
+  now = Math.floor(Date.now() / 1000)
+): void {
+  const previous = connections.get(host.id);
+  connections.set(host.id, {
+    hostId: host.id,
+    hostName: host.name,
+    sourceIp,
+    connectedAt: now,
+    lastMessageAt: now,
+    socket,
+    pending: new Map(),
+  });
+
+  if (previous) {
+    logger.info(`Replacing agent connection of host ${host.name}`);
+    settlePending(previous);
+    previous.socket.close(REPLACED_CLOSE_CODE, 'Replaced by a newer connection');
+  }
+}
+
+/**
+ * Remove a connection
+ * Returns null if the socket was already replaced or removed, so callers leave the host status alone
+ */
+export function removeAgentConnection(socketId: string): AgentConnectionInfo | null {
+  for (const [hostId, connection] of connections) {
+    if (connection.socket.id === socketId) {
+      connections.delete(hostId);
+      settlePending(connection);
+      return describe(connection);
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the connection a socket belongs to, noting its activity
+ */
+export function touchAgentConnection(
+  socketId: string,
+  now = Math.floor(Date.now() / 1000)
+): AgentConnectionInfo | null {
+  for (const connection of connections.values()) {
+    if (connection.socket.id === socketId) {
+      connection.lastMessageAt = now;
+      return describe(connection);
+    }
+  }
+  return null;
+}
+
+/**
+ * Check whether a host's agent is connected
+ */
+export function isAgentConnected(hostId: number): boolean {
+  return connections.has(hostId);
+}
+
+/**
+ * List live connections
+ */
+export function listAgentConnections(): AgentConnectionInfo[] {
+  return [...connections.values()].map(describe).sort((a, b) => a.hostName.localeCompare(b.hostName));
+}
+
+/**
+ * Push a message to a host's agent and wait for its acknowledgement
+ * Resolves to null if the agent isn't connected or doesn't answer in time
+ */
+export function pushToAgent(hostId: number, type: string, data: unknown, timeoutMs = 10000): Promise<AgentAck | null> {
+  const connection = connections.get(hostId);
+  if (!connection) {
+    return Promise.resolve(null);
+  }
+
+  const id = randomUUID();
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      connection.pending.delete(id);
+      logger.warn(`Agent of host ${connection.hostName} did not acknowledge ${type} message ${id}`);
+      resolve(null);
+    }, timeoutMs);
+
+    connection.pending.set(id, { resolve, timer });
+    connection.socket.send(JSON.stringify({ type, id, data }));
+  });
+}
+
+/**
+ * Settle a pushed message with the agent's acknowledgement
+ */
+export function resolveAgentAck(socketId: string, messageId: string, ack: AgentAck): boolean {
+  for (const connection of connections.values()) {
+    const pending = connection.socket.id === socketId ? connection.pending.get(messageId) : undefined;
+    if (pending) {
+      clearTimeout(pending.timer);
+      connection.pending.delete(messageId);
+      pending.resolve(ack);
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Fail messages still waiting on a connection that went away
+ */
+function settlePending(connection: AgentConnection): void {
+  for (const { resolve, timer } of connection.pending.values()) {
+    clearTimeout(timer);
+    resolve(null);
+  }
+  connection.pending.clear();
+}
+
+/**
+ * Public view of a connection
+ */
+function describe(connection: AgentConnection): AgentConnectionInfo {
+  return {
+    hostId: connection.hostId,
+    hostName: connection.hostName,
+    sourceIp: connection.sourceIp,
+    connectedAt: connection.connectedAt,
+    lastMessageAt: connection.lastMessageAt,
+  };
+}
@@ -0,0 +1,308 @@
+/**
+ * Host decommissioning
+ * Retires a host: moves or unlinks its nodes, deletes or repoints their DNS records and archives its metrics
+ */
+
+import { db, hosts, nodes, dnsRecords, hostMetrics, hostMetricRollups, hostArchives, type Host } from '@/db';
+import { eq, and, inArray, asc, count } from 'drizzle-orm';
+import { createLogger } from '@/utils/logger';
+import { notifyHostDecommissioned } from '@/utils/telegram';
+import { getDnsProvider } from '@/modules/dns/service';
+import { findMoveConflicts } from '@/modules/node/ports';
+import { aggregateSamples } from './metrics';
+import type { DecommissionOptions, DecommissionPlan, DecommissionResult } from './model';
+
+const logger = createLogger('HostDecommission');
+
+// Address records follow the host; CNAMEs are left alone
+const ADDRESS_RECORD_TYPES = ['A', 'AAAA'];
+
+type DnsChange = DecommissionPlan['dnsRecords'][number];
+
+/**
+ * Address a host serves for a DNS record type
+ */
+function addressOf(host: Host, type: string): string | null {
+  return type === 'A' ? host.ip : host.ipv6;
+}
+
+/**
+ * Identify a host in a plan
+ */
+function describeHost(host: Host): DecommissionPlan['host'] {
+  return { id: host.id, name: host.name, ip: host.ip, ipv6: host.ipv6 };
+}
+
+/**
+ * Work out what decommissioning a host would change, without changing anything
+ * Nodes whose ports are taken on the host they would move to are reported with the conflict
+ */
+export async function planDecommission(hostId: number, options: DecommissionOptions = {}): Promise<DecommissionPlan> {
+  try {
+    const [host] = await db.select().from(hosts).where(eq(hosts.id, hostId)).limit(1);
+    if (!host) {
+      throw new Error(`Host with ID ${hostId} not found`);
+    }
+
+    let target: Host | null = null;
+    if (options.reassignTo !== undefined) {
+      if (options.reassignTo === hostId) {
+        throw new Error('Cannot reassign nodes to the host being decommissioned');
+      }
+      [target] = await db.select().from(hosts).where(eq(hosts.id, options.reassignTo)).limit(1);
+      if (!target) {
+        throw new Error(`Host with ID ${options.reassignTo} not found`);
+      }
+    }
+
+    const dnsAction = options.dnsAction ?? (target ? 'repoint' : 'delete');
+    if (dnsAction === 'repoint' && !target) {
+      throw new Error('Repointing DNS records needs reassignTo');
+    }
+
+    const linkedNodes = await db.select().from(nodes).where(eq(nodes.hostId, hostId)).orderBy(asc(nodes.id));
+    const portConflicts = target ? await findMoveConflicts(target.id, linkedNodes) : new Map<number, string>();
+    const records =
+      linkedNodes.length > 0
+        ? await db
+            .select()
+            .from(dnsRecords)
+            .where(
+              and(
+                inArray(dnsRecords.nodeId, linkedNodes.map((node) => node.id)),
+                inArray(dnsRecords.type, ADDRESS_RECORD_TYPES)
+              )
+            )
+            .orderBy(asc(dnsRecords.id))
+        : [];
+
+    // Each node's main domain points at the host even without a managed record, like on IP changes
+    const changes = new Map<string, DnsChange>();
+    const planChange = (id: number | null, nodeId: number, domain: string, type: string, value: string) => {
+      // Records the new host has no address for (e.g. AAAA without IPv6) are deleted
+      const newValue = dnsAction === 'repoint' ? addressOf(target!, type) : null;
+      changes.set(`${nodeId}:${domain}:${type}`, {
+        id,
+        nodeId,
+        domain,
+        type,
+        value,
+        action: newValue ? 'repoint' : 'delete',
+        newValue,
+      });
+    };
+    for (const node of linkedNodes) {
+      for (const type of ADDRESS_RECORD_TYPES) {
+        const value = addressOf(host, type);
+        if (node.domain && value) {
+          planChange(null, node.id, node.domain, type, value);
+        }
+      }
+    }
+    for (const record of records) {
+      planChange(record.id, record.nodeId, record.domain, record.type, record.value);
+    }
+
+    const [samples] = await db.select({ value: count() }).from(hostMetrics).where(eq(hostMetrics.hostId, hostId));
+    const [rollups] = await db
+      .select({ value: count() })
+      .from(hostMetricRollups)
+      .where(eq(hostMetricRollups.hostId, hostId));
+
+    return {
+      host: describeHost(host),
+      reassignTo: target ? describeHost(target) : null,
+      nodes: linkedNodes.map((node) => ({
+        id: node.id,
+        name: node.name,
+        domain: node.domain,
+        action: target ? 'reassign' : 'unlink',
+        portConflict: portConflicts.get(node.id) ?? null,
+      })),
+      dnsRecords: [...changes.values()],
+      metrics: { samples: samples?.value ?? 0, rollups: rollups?.value ?? 0 },
+      dryRun: options.dryRun ?? false,
+    };
+  } catch (error) {
+    logger.error(`Failed to plan decommission of host ${hostId}`, { error });
+    throw error;
+  }
+}
+
+/**
+ * Put DNS records changed at the provider back to their previous value, last change first
+ */
+async function revertDnsChanges(applied: DnsChange[]): Promise<void> {
+  const provider = getDnsProvider();
+  for (const done of [...applied].reverse()) {
+    if (!(await provider.updateRecord(done.domain, done.type, done.value))) {
+      logger.error(`Failed to restore DNS record ${done.domain} (${done.type}) -> ${done.value}`);
+    }
+  }
+}
+
+/**
+ * Apply DNS changes at the provider
+ * If one fails, the changes already made are reverted so nothing is left half done
+ */
+async function applyDnsChanges(changes: DnsChange[]): Promise<DnsChange[]> {
+  if (changes.length === 0) {
+    return [];
+  }
+
+  const provider = getDnsProvider();
+  const applied: DnsChange[] = [];
+
+  for (const change of changes) {
+    const success =
+      change.action === 'repoint'
+        ? await provider.updateRecord(change.domain, change.type, change.newValue!)
+        : await provider.deleteRecord(change.domain, change.type);
+
+    if (!success) {
+      await revertDnsChanges(applied);
+      throw new Error(
+        `Decommission aborted: DNS provider failed to ${change.action} ${change.domain} (${change.type})`
+      );
+    }
+    applied.push(change);
+  }
+  return applied;
+}
+
+/**
+ * Collect the hourly metrics history of a host
+ * Hours not rolled up yet are aggregated from the raw samples
+ */
+async function collectHourlyMetrics(hostId: number, now: number) {
+  const stored = await db
+    .select()
+    .from(hostMetricRollups)
+    .where(and(eq(hostMetricRollups.hostId, hostId), eq(hostMetricRollups.resolution, '1h')));
+  const samples = await db.select().from(hostMetrics).where(eq(hostMetrics.hostId, hostId));
+
+  const covered = new Set(stored.map((row) => row.bucketStart));
+  const pending = aggregateSamples(samples, '1h', now).filter((row) => !covered.has(row.bucketStart));
+
+  return [...stored, ...pending]
+    .sort((a, b) => a.bucketStart - b.bucketStart)
+    .map(({ id: _id, hostId: _hostId, resolution: _resolution, updatedAt: _updatedAt, ...bucket }) => bucket);
+}
+
+/**
+ * Move the nodes, update their DNS records, archive the host and delete it, in one transaction
+ */
+function moveToArchive(
+  host: Host,
+  plan: DecommissionPlan,
+  metrics: Awaited<ReturnType<typeof collectHourlyMetrics>>,
+  options: DecommissionOptions,
+  actor: string,
+  now: number
+): number {
+  return db.transaction((tx) => {
+    if (plan.nodes.length > 0) {
+      tx.update(nodes)
+        .set({ hostId: plan.reassignTo?.id ?? null, updatedAt: now })
+        .where(inArray(nodes.id, plan.nodes.map((node) => node.id)))
+        .run();
+    }
+
+    for (const record of plan.dnsRecords) {
+      if (record.action === 'repoint' && record.id === null) {
+        // The node domain is managed from now on
+        tx.insert(dnsRecords)
+          .values({
+            nodeId: record.nodeId,
+            domain: record.domain,
+            type: record.type,
+            value: record.newValue!,
+            lastUpdated: now,
+            createdAt: now,
+            updatedAt: now,
+          })
+          .run();
+      } else if (record.action === 'repoint') {
+        tx.update(dnsRecords)
+          .set({ value: record.newValue!, lastUpdated: now, updatedAt: now })
+          .where(eq(dnsRecords.id, record.id!))
+          .run();
+      } else if (record.id !== null) {
+        tx.delete(dnsRecords).where(eq(dnsRecords.id, record.id)).run();
+      }
+    }
+
+    const archive = tx
+      .insert(hostArchives)
+      .values({
+        hostId: host.id,
+        name: host.name,
+        snapshot: JSON.stringify(host),
+        changes: JSON.stringify({ reassignTo: plan.reassignTo, nodes: plan.nodes, dnsRecords: plan.dnsRecords }),
+        metrics: JSON.stringify(metrics),
+        reason: options.reason || null,
+        decommissionedBy: actor,
+        createdAt: now,
+      })
+      .returning({ id: hostArchives.id })
+      .get();
+
+    // Tokens, metrics and other per-host history go with the host
+    tx.delete(hosts).where(eq(hosts.id, host.id)).run();
+    return archive!.id;
+  });
+}
+
+/**
+ * Decommission a host
+ * DNS records are changed at the provider first; the database changes then run in one transaction
+ * that moves or unlinks the nodes, updates their DNS records, archives the host and deletes it.
+ * If the transaction fails, the provider records are put back so they match the database again
+ */
+export async function decommissionHost(
+  hostId: number,
+  options: DecommissionOptions = {},
+  actor = 'system'
+): Promise<DecommissionResult> {
+  const plan = await planDecommission(hostId, options);
+  if (plan.dryRun) {
+    return { ...plan, archiveId: null };
+  }
+
+  const blocked = plan.nodes.find((node) => node.portConflict);
+  if (blocked) {
+    throw new Error(`${blocked.portConflict} (node '${blocked.name}' cannot move there)`);
+  }
+
+  try {
+    const now = Math.floor(Date.now() / 1000);
+    const [host] = await db.select().from(hosts).where(eq(hosts.id, hostId)).limit(1);
+    const metrics = await collectHourlyMetrics(hostId, now);
+
+    const applied = await applyDnsChanges(plan.dnsRecords);
+    let archiveId: number;
+    try {
+      archiveId = moveToArchive(host, plan, metrics, options, actor, now);
+    } catch (error) {
+      // The database still has the host, so the provider records must point at it again
+      await revertDnsChanges(applied);
+      throw error;
+    }
+
+    logger.info(
+      `Decommissioned host ${host.name} (ID: ${hostId}): ${plan.nodes.length} nodes ` +
+        `${plan.reassignTo ? `moved to ${plan.reassignTo.name}` : 'unlinked'}, ${plan.dnsRecords.length} DNS records`
+    );
+    void notifyHostDecommissioned(host.name, {
+      nodes: plan.nodes.length,
+      dnsRecords: plan.dnsRecords.length,
+      reassignedTo: plan.reassignTo?.name ?? null,
+      reason: options.reason || null,
+    });
+
+    return { ...plan, archiveId };
+  } catch (error) {
+    logger.error(`Failed to decommission host ${hostId}`, { error });
+    throw error;
+  }
+}
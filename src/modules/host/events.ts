@@ -0,0 +1,74 @@
+/**
+ * Host status events
+ * Records status transitions for availability reporting
+ */
+
+import { db, hostStatusEvents, type HostStatusEvent } from '@/db';
+import { eq, and, gte, lt, desc, asc, inArray } from 'drizzle-orm';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('HostEvents');
+
+/**
+ * Record a host status transition
+ * Failures are logged but never interrupt the status change itself
+ */
+export async function recordStatusEvent(
+  hostId: number,
+  fromStatus: string,
+  toStatus: string,
+  changedAt: number,
+  now = Math.floor(Date.now() / 1000)
+): Promise<void> {
+  if (fromStatus === toStatus) {
+    return;
+  }
+
+  try {
+    await db.insert(hostStatusEvents).values({ hostId, fromStatus, toStatus, changedAt, createdAt: now });
+  } catch (error) {
+    logger.error(`Failed to record status event for host ${hostId}`, { error });
+  }
+}
+
+/**
+ * Get status events of hosts within a time range, plus the last event before it
+ * The earlier event tells the status each host was in when the range starts
+ */
+export async function getStatusEvents(hostIds: number[], from: number, to: number): Promise<HostStatusEvent[]> {
+  try {
+    if (hostIds.length === 0) {
+      return [];
+    }
+
+    const inRange = await db
+      .select()
+      .from(hostStatusEvents)
+      .where(
+        and(
+          inArray(hostStatusEvents.hostId, hostIds),
+          gte(hostStatusEvents.changedAt, from),
+          lt(hostStatusEvents.changedAt, to)
+        )
+      )
+      .orderBy(asc(hostStatusEvents.changedAt), asc(hostStatusEvents.id));
+
+    const before: HostStatusEvent[] = [];
+    for (const hostId of hostIds) {
+      const [previous] = await db
+        .select()
+        .from(hostStatusEvents)
+        .where(and(eq(hostStatusEvents.hostId, hostId), lt(hostStatusEvents.changedAt, from)))
+        .orderBy(desc(hostStatusEvents.changedAt), desc(hostStatusEvents.id))
+        .limit(1);
+      if (previous) {
+        before.push(previous);
+      }
+    }
+
+    return [...before, ...inRange];
+  } catch (error) {
+    logger.error('Failed to get host status events', { error });
+    throw error;
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Host GeoIP enrichment
+ * Fills in country, city, ASN and ISP from local MaxMind-format (.mmdb) databases
+ */
+
+import { existsSync } from 'fs';
+import { resolve } from 'path';
+import maxmind, { type Reader, type CityResponse, type AsnResponse, type IspResponse } from 'maxmind';
+import { db, hosts, type Host } from '@/db';
+import { eq, or, isNull } from 'drizzle-orm';
+import config from '@/utils/config';
+import { createLogger } from '@/utils/logger';
+import { parseIp, isPublicIp } from './address';
+import type { GeoIpResult, EnrichmentSummary } from './model';
+
+const logger = createLogger('HostGeoIp');
+
+type DatabaseKind = 'city' | 'asn';
+
+// The ASN database may be GeoLite2-ASN or GeoIP2-ISP
+type AsnRecord = AsnResponse | IspResponse;
+
+// Readers opened on first lookup; they resolve to null when a database is missing or unreadable
+let cityReader: Promise<Reader<CityResponse> | null> | null = null;
+let asnReader: Promise<Reader<AsnRecord> | null> | null = null;
+
+/**
+ * Get the configured database path for a kind
+ */
+function getDatabasePath(kind: DatabaseKind): string {
+  return (kind === 'city' ? config.geoip?.city_database : config.geoip?.asn_database) || '';
+}
+
+/**
+ * Check whether any GeoIP database is configured
+ */
+export function isGeoIpEnabled(): boolean {
+  return !!(getDatabasePath('city') || getDatabasePath('asn'));
+}
+
+/**
+ * Open a database, or resolve to null when it is missing or unreadable
+ */
+function openDatabase<T extends CityResponse | AsnRecord>(kind: DatabaseKind): Promise<Reader<T> | null> {
+  const path = getDatabasePath(kind);
+  const fullPath = resolve(process.cwd(), path);
+
+  if (!path) {
+    return Promise.resolve(null);
+  }
+  if (!existsSync(fullPath)) {
+    logger.warn(`GeoIP ${kind} database not found: ${fullPath}`);
+    return Promise.resolve(null);
+  }
+  return maxmind.open<T>(fullPath).catch((error) => {
+    logger.error(`Failed to open GeoIP ${kind} database: ${fullPath}`, { error });
+    return null;
+  });
+}
+
+/**
+ * Drop opened readers so updated database files are picked up
+ */
+export function resetGeoIpReaders(): void {
+  cityReader = null;
+  asnReader = null;
+}
+
+/**
+ * Map database records to host fields
+ * The ASN database may be GeoLite2-ASN or GeoIP2-ISP; the ISP name is preferred when present
+ */
+export function toGeoIpResult(city: CityResponse | null, asn: AsnRecord | null): GeoIpResult {
+  return {
+    country: city?.country?.iso_code || city?.registered_country?.iso_code || null,
+    city: city?.city?.names?.en || null,
+    asn: asn?.autonomous_system_number ?? null,
+    isp: (asn && 'isp' in asn && asn.isp) || asn?.autonomous_system_organization || null,
+  };
+}
+
+/**
+ * Look up an address in the configured databases
+ * Returns null for non-public addresses or when nothing is known about the address
+ */
+export async function lookupIp(address: string): Promise<GeoIpResult | null> {
+  const parsed = parseIp(address);
+  if (!parsed || !isPublicIp(parsed.address)) {
+    return null;
+  }
+
+  // Each database is opened once and the reader kept for later lookups
+  cityReader ??= openDatabase<CityResponse>('city');
+  asnReader ??= openDatabase<AsnRecord>('asn');
+  const [city, asn] = await Promise.all([cityReader, asnReader]);
+
+  const result = toGeoIpResult(city?.get(parsed.address) ?? null, asn?.get(parsed.address) ?? null);
+  return result.country || result.city || result.asn !== null || result.isp ? result : null;
+}
+
+/**
+ * Enrich a host from its primary address, falling back to IPv6
+ * Failures are logged and leave the host unchanged, so callers on the agent path never fail
+ */
+export async function enrichHost(host: Host, now = Math.floor(Date.now() / 1000)): Promise<Host | null> {
+  if (!isGeoIpEnabled()) {
+    return null;
+  }
+
+  try {
+    const result = (host.ip ? await lookupIp(host.ip) : null) ?? (host.ipv6 ? await lookupIp(host.ipv6) : null);
+    if (!result) {
+      logger.debug(`No GeoIP data for host ${host.name}`);
+      return null;
+    }
+
+    const updated = await db
+      .update(hosts)
+      .set({
+        region: result.country ?? host.region,
+        city: result.city ?? host.city,
+        isp: result.isp ?? host.isp,
+        asn: result.asn ?? host.asn,
+        geoUpdatedAt: now,
+        updatedAt: now,
+      })
+      .where(eq(hosts.id, host.id))
+      .returning();
+
+    logger.info(`Enriched host ${host.name}: ${[result.country, result.city, result.isp].filter(Boolean).join(', ')}`);
+    return updated[0] || null;
+  } catch (error) {
+    logger.error(`Failed to enrich host ${host.name}`, { error });
+    return null;
+  }
+}
+
+/**
+ * Enrich every host, or only hosts that were never enriched
+ */
+export async function enrichAllHosts(missingOnly = false): Promise<EnrichmentSummary> {
+  if (!isGeoIpEnabled()) {
+    throw new Error('GeoIP database not configured');
+  }
+
+  try {
+    const targets = await db
+      .select()
+      .from(hosts)
+      .where(missingOnly ? or(isNull(hosts.geoUpdatedAt), isNull(hosts.region)) : undefined);
+
+    const now = Math.floor(Date.now() / 1000);
+    let enriched = 0;
+    for (const host of targets) {
+      if (await enrichHost(host, now)) {
+        enriched++;
+      }
+    }
+
+    logger.info(`Enriched ${enriched} of ${targets.length} hosts`);
+    return { total: targets.length, enriched, skipped: targets.length - enriched };
+  } catch (error) {
+    logger.error('Failed to enrich hosts', { error });
+    throw error;
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Host maintenance windows
+ * Planned or ad-hoc periods during which a host or every host with a tag is expected to be down
+ */
+
+import { db, hosts, maintenanceWindows, type Host, type MaintenanceWindow } from '@/db';
+import { eq, and, or, gt, lte, asc, isNull, inArray, type SQL } from 'drizzle-orm';
+import { createLogger } from '@/utils/logger';
+import { parseDuration } from '@/utils/duration';
+import type { MaintenanceWindowInput, MaintenanceQuery, MaintenanceState, MaintenanceWindowView } from './model';
+
+const logger = createLogger('HostMaintenance');
+
+/**
+ * Get where a window stands at a point in time
+ */
+export function getMaintenanceState(window: MaintenanceWindow, now: number): MaintenanceState {
+  if (now < window.startsAt) {
+    return 'scheduled';
+  }
+  return now < window.endsAt ? 'active' : 'ended';
+}
+
+/**
+ * Check whether a window targets a host, directly or through one of its tags
+ */
+export function windowAppliesTo(window: MaintenanceWindow, host: Pick<Host, 'id' | 'tags'>): boolean {
+  if (window.hostId !== null) {
+    return window.hostId === host.id;
+  }
+  return !!window.tag && (host.tags?.split(',') ?? []).includes(window.tag);
+}
+
+/**
+ * Get windows in progress
+ */
+async function getActiveWindows(now: number): Promise<MaintenanceWindow[]> {
+  return db
+    .select()
+    .from(maintenanceWindows)
+    .where(and(lte(maintenanceWindows.startsAt, now), gt(maintenanceWindows.endsAt, now)));
+}
+
+/**
+ * Find which of the given hosts are inside a maintenance window
+ */
+export async function findHostsInMaintenance(
+  candidates: Pick<Host, 'id' | 'tags'>[],
+  now = Math.floor(Date.now() / 1000)
+): Promise<Set<number>> {
+  try {
+    const active = candidates.length > 0 ? await getActiveWindows(now) : [];
+    return new Set(
+      candidates.filter((host) => active.some((window) => windowAppliesTo(window, host))).map((host) => host.id)
+    );
+  } catch (error) {
+    logger.error('Failed to find hosts in maintenance', { error });
+    throw error;
+  }
+}
+
+/**
+ * Schedule a maintenance window, starting now unless a start time is given
+ */
+export async function createMaintenanceWindow(
+  input: MaintenanceWindowInput,
+  createdBy: string,
+  now = Math.floor(Date.now() / 1000)
+): Promise<MaintenanceWindowView> {
+  const tag = input.tag?.trim().toLowerCase() || null;
+  if ((input.hostId === undefined) === !tag) {
+    throw new Error('Maintenance window needs either hostId or tag');
+  }
+
+  const startsAt = input.startsAt ?? now;
+  let endsAt = input.endsAt;
+  if (endsAt === undefined && input.duration !== undefined) {
+    const duration = parseDuration(input.duration);
+    if (duration === null) {
+      throw new Error(`Invalid duration: ${input.duration}`);
+    }
+    endsAt = startsAt + duration;
+  }
+  if (endsAt === undefined) {
+    throw new Error('Maintenance window needs endsAt or duration');
+  }
+  if (endsAt <= startsAt || endsAt <= now) {
+    throw new Error('Invalid time range: maintenance must end after it starts and in the future');
+  }
+
+  try {
+    if (input.hostId !== undefined) {
+      const target = await db.select().from(hosts).where(eq(hosts.id, input.hostId)).limit(1);
+      if (!target[0]) {
+        throw new Error(`Host with ID ${input.hostId} not found`);
+      }
+    }
+
+    const result = await db
+      .insert(maintenanceWindows)
+      .values({
+        hostId: input.hostId ?? null,
+        tag: input.hostId !== undefined ? null : tag,
+        startsAt,
+        endsAt,
+        reason: input.reason || null,
+        createdBy,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+    const window = result[0];
+
+    logger.info(
+      `Scheduled maintenance for ${window.hostId !== null ? `host ${window.hostId}` : `tag ${window.tag}`}: ` +
+        `${new Date(startsAt * 1000).toISOString()} - ${new Date(endsAt * 1000).toISOString()}`
+    );
+    return { ...window, state: getMaintenanceState(window, now) };
+  } catch (error) {
+    logger.error('Failed to create maintenance window', { error });
+    throw error;
+  }
+}
+
+/**
+ * List maintenance windows, soonest first
+ */
+export async function getMaintenanceWindows(
+  query: MaintenanceQuery = {},
+  now = Math.floor(Date.now() / 1000)
+): Promise<MaintenanceWindowView[]> {
+  try {
+    const conditions: SQL[] = [];
+
+    if (query.state === 'scheduled') conditions.push(gt(maintenanceWindows.startsAt, now));
+    if (query.state === 'active') {
+      conditions.push(lte(maintenanceWindows.startsAt, now), gt(maintenanceWindows.endsAt, now));
+    }
+    if (query.state === 'ended') conditions.push(lte(maintenanceWindows.endsAt, now));
+
+    if (query.hostId !== undefined) {
+      const target = await db.select().from(hosts).where(eq(hosts.id, query.hostId)).limit(1);
+      const tags = target[0]?.tags?.split(',') ?? [];
+      conditions.push(
+        or(
+          eq(maintenanceWindows.hostId, query.hostId),
+          tags.length > 0 ? and(isNull(maintenanceWindows.hostId), inArray(maintenanceWindows.tag, tags)) : undefined
+        )!
+      );
+    }
+
+    const result = await db
+      .select()
+      .from(maintenanceWindows)
+      .where(and(...conditions))
+      .orderBy(asc(maintenanceWindows.startsAt), asc(maintenanceWindows.id));
+
+    return result.map((window) => ({ ...window, state: getMaintenanceState(window, now) }));
+  } catch (error) {
+    logger.error('Failed to get maintenance windows', { error });
+    throw error;
+  }
+}
+
+/**
+ * End an active window early
+ * Hosts still without heartbeats are marked offline on the next monitor check
+ */
+export async function endMaintenanceWindow(
+  id: number,
+  now = Math.floor(Date.now() / 1000)
+): Promise<MaintenanceWindowView | null> {
+  try {
+    const existing = await db.select().from(maintenanceWindows).where(eq(maintenanceWindows.id, id)).limit(1);
+    const window = existing[0];
+    if (!window) {
+      return null;
+    }
+
+    const state = getMaintenanceState(window, now);
+    if (state !== 'active') {
+      throw new Error(`Maintenance window ${id} is not active (${state}); delete it instead`);
+    }
+
+    const result = await db
+      .update(maintenanceWindows)
+      .set({ endsAt: now, updatedAt: now })
+      .where(eq(maintenanceWindows.id, id))
+      .returning();
+
+    logger.info(`Ended maintenance window ${id}`);
+    return { ...result[0], state: 'ended' };
+  } catch (error) {
+    logger.error(`Failed to end maintenance window ${id}`, { error });
+    throw error;
+  }
+}
+
+/**
+ * Delete a maintenance window
+ */
+export async function deleteMaintenanceWindow(id: number): Promise<boolean> {
+  try {
+    const result = await db.delete(maintenanceWindows).where(eq(maintenanceWindows.id, id)).returning();
+    if (result[0]) {
+      logger.info(`Deleted maintenance window ${id}`);
+      return true;
+    }
+    return false;
+  } catch (error) {
+    logger.error(`Failed to delete maintenance window ${id}`, { error });
+    throw error;
+  }
+}
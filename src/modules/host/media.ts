@@ -0,0 +1,201 @@
+/**
+ * Host media unlock status
+ * Keeps streaming service test results reported by agents and alerts when a service becomes blocked
+ */
+
+import {
+  db,
+  hosts,
+  hostMediaChecks,
+  hostMediaStatus,
+  type Host,
+  type HostMediaCheck,
+  type HostMediaStatus,
+} from '@/db';
+import { eq, and, asc, desc, lt } from 'drizzle-orm';
+import config from '@/utils/config';
+import { createLogger } from '@/utils/logger';
+import { notifyMediaBlocked } from '@/utils/telegram';
+import type { MediaCheckResult, MediaMatrix, MediaMatrixRow, MediaStatus } from './model';
+
+const logger = createLogger('HostMedia');
+
+const DAY_SECONDS = 86400;
+
+/**
+ * Normalize a service name for storage (e.g. "YouTube Premium" -> youtube_premium)
+ */
+export function normalizeService(service: string): string {
+  return service
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9+]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Store media test results from a heartbeat
+ * Results not newer than the stored one are ignored, so agents may resend their last results
+ */
+export async function recordMediaResults(host: Host, results: MediaCheckResult[], now: number): Promise<number> {
+  try {
+    const blocked: { service: string; region: string | null }[] = [];
+    let recorded = 0;
+
+    for (const result of results) {
+      const service = normalizeService(result.service);
+      if (!service) {
+        continue;
+      }
+
+      const testedAt = Math.min(result.testedAt ?? now, now);
+      const region = result.region?.toUpperCase() || null;
+      const detail = result.detail || null;
+
+      const [latest] = await db
+        .select()
+        .from(hostMediaStatus)
+        .where(and(eq(hostMediaStatus.hostId, host.id), eq(hostMediaStatus.service, service)))
+        .limit(1);
+      if (latest && latest.testedAt >= testedAt) {
+        continue;
+      }
+
+      await db
+        .insert(hostMediaChecks)
+        .values({ hostId: host.id, service, status: result.status, region, detail, testedAt });
+
+      const changedAt = latest && latest.status === result.status ? latest.changedAt : testedAt;
+      await db
+        .insert(hostMediaStatus)
+        .values({ hostId: host.id, service, status: result.status, region, detail, testedAt, changedAt })
+        .onConflictDoUpdate({
+          target: [hostMediaStatus.hostId, hostMediaStatus.service],
+          set: { status: result.status, region, detail, testedAt, changedAt },
+        });
+
+      if (latest?.status === 'unlocked' && result.status === 'blocked') {
+        logger.warn(`Host ${host.name} lost access to ${service}`);
+        blocked.push({ service, region: latest.region });
+      }
+      recorded++;
+    }
+
+    if (blocked.length > 0) {
+      void notifyMediaBlocked(host.name, blocked);
+    }
+    return recorded;
+  } catch (error) {
+    logger.error(`Failed to record media results for host ${host.name}`, { error });
+    throw error;
+  }
+}
+
+/**
+ * Get the latest result of every service tested on a host
+ */
+export async function getHostMedia(hostId: number): Promise<HostMediaStatus[]> {
+  try {
+    return await db
+      .select()
+      .from(hostMediaStatus)
+      .where(eq(hostMediaStatus.hostId, hostId))
+      .orderBy(asc(hostMediaStatus.service));
+  } catch (error) {
+    logger.error(`Failed to get media status for host ${hostId}`, { error });
+    throw error;
+  }
+}
+
+/**
+ * Get media test history of a host, newest first
+ */
+export async function getHostMediaHistory(hostId: number, service?: string, limit = 100): Promise<HostMediaCheck[]> {
+  try {
+    return await db
+      .select()
+      .from(hostMediaChecks)
+      .where(
+        and(
+          eq(hostMediaChecks.hostId, hostId),
+          service ? eq(hostMediaChecks.service, normalizeService(service)) : undefined
+        )
+      )
+      .orderBy(desc(hostMediaChecks.testedAt), desc(hostMediaChecks.id))
+      .limit(Math.min(limit, 1000));
+  } catch (error) {
+    logger.error(`Failed to get media history for host ${hostId}`, { error });
+    throw error;
+  }
+}
+
+/**
+ * Build the fleet matrix of hosts by services
+ * Hosts that never reported a result are left out
+ */
+export async function getMediaMatrix(): Promise<MediaMatrix> {
+  try {
+    const rows = await db
+      .select({
+        hostId: hosts.id,
+        name: hosts.name,
+        alias: hosts.alias,
+        hostRegion: hosts.region,
+        service: hostMediaStatus.service,
+        status: hostMediaStatus.status,
+        region: hostMediaStatus.region,
+        testedAt: hostMediaStatus.testedAt,
+      })
+      .from(hostMediaStatus)
+      .innerJoin(hosts, eq(hostMediaStatus.hostId, hosts.id))
+      .orderBy(asc(hosts.name));
+
+    const services = [...new Set(rows.map((row) => row.service))].sort();
+    const matrix = new Map<number, MediaMatrixRow>();
+
+    for (const row of rows) {
+      let entry = matrix.get(row.hostId);
+      if (!entry) {
+        entry = {
+          hostId: row.hostId,
+          name: row.name,
+          alias: row.alias,
+          region: row.hostRegion,
+          services: Object.fromEntries(services.map((service) => [service, null])),
+        };
+        matrix.set(row.hostId, entry);
+      }
+      entry.services[row.service] = {
+        status: row.status as MediaStatus,
+        region: row.region,
+        testedAt: row.testedAt,
+      };
+    }
+
+    return { services, hosts: [...matrix.values()] };
+  } catch (error) {
+    logger.error('Failed to build media matrix', { error });
+    throw error;
+  }
+}
+
+/**
+ * Delete media test history older than the retention period
+ */
+export async function pruneMediaHistory(now = Math.floor(Date.now() / 1000)): Promise<number> {
+  try {
+    const cutoff = now - (config.metrics?.media_retention_days ?? 90) * DAY_SECONDS;
+    const result = await db
+      .delete(hostMediaChecks)
+      .where(lt(hostMediaChecks.testedAt, cutoff))
+      .returning({ id: hostMediaChecks.id });
+
+    if (result.length > 0) {
+      logger.info(`Pruned ${result.length} expired media checks`);
+    }
+    return result.length;
+  } catch (error) {
+    logger.error('Failed to prune media history', { error });
+    throw error;
+  }
+}
@@ -0,0 +1,367 @@
+/**
+ * Host metrics history
+ * Stores heartbeat samples and downsamples them into 5-minute and hourly rollups
+ */
+
+import {
+  db,
+  hostMetrics,
+  hostMetricRollups,
+  type HostMetric,
+  type HostMetricRollup,
+  type NewHostMetricRollup,
+} from '@/db';
+import { eq, and, gt, gte, lt, lte, asc, desc, max, sql } from 'drizzle-orm';
+import config from '@/utils/config';
+import { createLogger } from '@/utils/logger';
+import type {
+  HostSample,
+  TrafficDelta,
+  MetricResolution,
+  MetricsQuery,
+  MetricPoint,
+  HostMetricsSeries,
+} from './model';
+
+const logger = createLogger('HostMetrics');
+
+type RollupResolution = Exclude<MetricResolution, 'raw'>;
+
+/**
+ * Bucket size of each rollup resolution in seconds
+ */
+export const ROLLUP_SECONDS: Record<RollupResolution, number> = {
+  '5m': 300,
+  '1h': 3600,
+};
+
+const DAY_SECONDS = 86400;
+
+// Rows per upsert statement, well below SQLite's bound parameter limit
+const UPSERT_CHUNK_SIZE = 200;
+
+/**
+ * Pick a resolution for a time range when none is requested
+ */
+export function pickResolution(from: number, to: number): MetricResolution {
+  const range = to - from;
+  if (range <= 6 * 3600) return 'raw';
+  if (range <= 7 * DAY_SECONDS) return '5m';
+  return '1h';
+}
+
+/**
+ * Store a heartbeat sample
+ */
+export async function recordHostMetric(
+  hostId: number,
+  heartbeat: HostSample,
+  delta: TrafficDelta,
+  createdAt: number
+): Promise<void> {
+  await db.insert(hostMetrics).values({
+    hostId,
+    cpuUsage: heartbeat.cpuUsage,
+    memoryUsed: heartbeat.memoryUsed,
+    diskUsed: heartbeat.diskUsed,
+    uploadTotal: heartbeat.uploadTotal,
+    downloadTotal: heartbeat.downloadTotal,
+    uploadDelta: delta.upload,
+    downloadDelta: delta.download,
+    uptime: heartbeat.uptime,
+    createdAt,
+  });
+}
+
+/**
+ * Aggregate raw samples into rollup buckets
+ */
+export function aggregateSamples(
+  samples: HostMetric[],
+  resolution: RollupResolution,
+  updatedAt: number
+): NewHostMetricRollup[] {
+  const size = ROLLUP_SECONDS[resolution];
+  const buckets = new Map<string, NewHostMetricRollup & { cpuSamples: number; memorySamples: number }>();
+
+  for (const sample of samples) {
+    const bucketStart = Math.floor(sample.createdAt / size) * size;
+    const key = `${sample.hostId}:${bucketStart}`;
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = {
+        hostId: sample.hostId,
+        resolution,
+        bucketStart,
+        samples: 0,
+        cpuAvg: null,
+        cpuMax: null,
+        memoryAvg: null,
+        memoryMax: null,
+        diskMax: null,
+        uploadBytes: 0,
+        downloadBytes: 0,
+        updatedAt,
+        cpuSamples: 0,
+        memorySamples: 0,
+      };
+      buckets.set(key, bucket);
+    }
+
+    bucket.samples++;
+
+    if (sample.cpuUsage !== null) {
+      bucket.cpuAvg = ((bucket.cpuAvg ?? 0) * bucket.cpuSamples + sample.cpuUsage) / (bucket.cpuSamples + 1);
+      bucket.cpuMax = Math.max(bucket.cpuMax ?? sample.cpuUsage, sample.cpuUsage);
+      bucket.cpuSamples++;
+    }
+    if (sample.memoryUsed !== null) {
+      bucket.memoryAvg =
+        ((bucket.memoryAvg ?? 0) * bucket.memorySamples + sample.memoryUsed) / (bucket.memorySamples + 1);
+      bucket.memoryMax = Math.max(bucket.memoryMax ?? sample.memoryUsed, sample.memoryUsed);
+      bucket.memorySamples++;
+    }
+    if (sample.diskUsed !== null) {
+      bucket.diskMax = Math.max(bucket.diskMax ?? sample.diskUsed, sample.diskUsed);
+    }
+
+    bucket.uploadBytes! += sample.uploadDelta;
+    bucket.downloadBytes! += sample.downloadDelta;
+  }
+
+  return [...buckets.values()].map(({ cpuSamples: _cpu, memorySamples: _memory, ...row }) => row);
+}
+
+/**
+ * Roll raw samples up into closed 5-minute and hourly buckets
+ * Only buckets touched by samples stored since the last run are recomputed, so late samples are picked up too
+ */
+export async function rollupHostMetrics(now = Math.floor(Date.now() / 1000)): Promise<number> {
+  try {
+    let written = 0;
+
+    for (const [resolution, size] of Object.entries(ROLLUP_SECONDS) as [RollupResolution, number][]) {
+      const end = Math.floor(now / size) * size;
+
+      const [watermark] = await db
+        .select({ sampleId: max(hostMetricRollups.lastSampleId) })
+        .from(hostMetricRollups)
+        .where(eq(hostMetricRollups.resolution, resolution));
+
+      const fresh = await db
+        .select({ id: hostMetrics.id, hostId: hostMetrics.hostId, createdAt: hostMetrics.createdAt })
+        .from(hostMetrics)
+        .where(gt(hostMetrics.id, watermark?.sampleId ?? 0))
+        .orderBy(asc(hostMetrics.id));
+      if (fresh.length === 0) {
+        continue;
+      }
+
+      // Samples in the still-open bucket must be seen again by the next run
+      const pending = fresh.filter((sample) => sample.createdAt >= end);
+      const lastSampleId = pending.length > 0 ? pending[0].id - 1 : fresh[fresh.length - 1].id;
+
+      const touched = new Map<number, Set<number>>();
+      for (const sample of fresh) {
+        if (sample.createdAt >= end) {
+          continue;
+        }
+        const buckets = touched.get(sample.hostId) ?? new Set<number>();
+        buckets.add(Math.floor(sample.createdAt / size) * size);
+        touched.set(sample.hostId, buckets);
+      }
+
+      const rows: NewHostMetricRollup[] = [];
+      for (const [hostId, buckets] of touched) {
+        const starts = [...buckets];
+        const samples = await db
+          .select()
+          .from(hostMetrics)
+          .where(
+            and(
+              eq(hostMetrics.hostId, hostId),
+              gte(hostMetrics.createdAt, Math.min(...starts)),
+              lt(hostMetrics.createdAt, Math.max(...starts) + size)
+            )
+          )
+          .orderBy(asc(hostMetrics.createdAt));
+
+        for (const row of aggregateSamples(samples, resolution, now)) {
+          if (buckets.has(row.bucketStart)) {
+            rows.push({ ...row, lastSampleId });
+          }
+        }
+      }
+
+      for (let i = 0; i < rows.length; i += UPSERT_CHUNK_SIZE) {
+        await db
+          .insert(hostMetricRollups)
+          .values(rows.slice(i, i + UPSERT_CHUNK_SIZE))
+          .onConflictDoUpdate({
+            target: [hostMetricRollups.hostId, hostMetricRollups.resolution, hostMetricRollups.bucketStart],
+            set: {
+              samples: sql`excluded.samples`,
+              cpuAvg: sql`excluded.cpu_avg`,
+              cpuMax: sql`excluded.cpu_max`,
+              memoryAvg: sql`excluded.memory_avg`,
+              memoryMax: sql`excluded.memory_max`,
+              diskMax: sql`excluded.disk_max`,
+              uploadBytes: sql`excluded.upload_bytes`,
+              downloadBytes: sql`excluded.download_bytes`,
+              lastSampleId: sql`excluded.last_sample_id`,
+              updatedAt: sql`excluded.updated_at`,
+            },
+          });
+      }
+
+      written += rows.length;
+    }
+
+    if (written > 0) {
+      logger.debug(`Rolled up ${written} host metric buckets`);
+    }
+    return written;
+  } catch (error) {
+    logger.error('Failed to roll up host metrics', { error });
+    throw error;
+  }
+}
+
+/**
+ * Delete samples and rollups older than their retention period
+ */
+export async function pruneHostMetrics(now = Math.floor(Date.now() / 1000)): Promise<number> {
+  try {
+    const retention = config.metrics;
+    const rawCutoff = now - (retention?.raw_retention_days ?? 2) * DAY_SECONDS;
+    const cutoffs: Record<RollupResolution, number> = {
+      '5m': now - (retention?.rollup_5m_retention_days ?? 30) * DAY_SECONDS,
+      '1h': now - (retention?.rollup_1h_retention_days ?? 365) * DAY_SECONDS,
+    };
+
+    const raw = await db
+      .delete(hostMetrics)
+      .where(lt(hostMetrics.createdAt, rawCutoff))
+      .returning({ id: hostMetrics.id });
+    let pruned = raw.length;
+
+    for (const [resolution, cutoff] of Object.entries(cutoffs)) {
+      const result = await db
+        .delete(hostMetricRollups)
+        .where(and(eq(hostMetricRollups.resolution, resolution), lt(hostMetricRollups.bucketStart, cutoff)))
+        .returning({ id: hostMetricRollups.id });
+      pruned += result.length;
+    }
+
+    if (pruned > 0) {
+      logger.info(`Pruned ${pruned} expired host metric rows`);
+    }
+    return pruned;
+  } catch (error) {
+    logger.error('Failed to prune host metrics', { error });
+    throw error;
+  }
+}
+
+/**
+ * Convert raw samples to points, with rates over the time since the previous sample
+ */
+function toRawPoints(samples: HostMetric[], from: number): MetricPoint[] {
+  const points: MetricPoint[] = [];
+  let previous: HostMetric | null = null;
+
+  for (const sample of samples) {
+    const elapsed = previous ? sample.createdAt - previous.createdAt : 0;
+    previous = sample;
+
+    if (sample.createdAt < from) {
+      continue;
+    }
+
+    points.push({
+      timestamp: sample.createdAt,
+      samples: 1,
+      cpuUsage: sample.cpuUsage,
+      cpuMax: sample.cpuUsage,
+      memoryUsed: sample.memoryUsed,
+      memoryMax: sample.memoryUsed,
+      diskUsed: sample.diskUsed,
+      uploadBytes: sample.uploadDelta,
+      downloadBytes: sample.downloadDelta,
+      uploadRate: elapsed > 0 ? sample.uploadDelta / elapsed : 0,
+      downloadRate: elapsed > 0 ? sample.downloadDelta / elapsed : 0,
+    });
+  }
+
+  return points;
+}
+
+/**
+ * Convert rollup rows to points
+ */
+function toRollupPoints(rows: HostMetricRollup[], size: number): MetricPoint[] {
+  return rows.map((row) => ({
+    timestamp: row.bucketStart,
+    samples: row.samples,
+    cpuUsage: row.cpuAvg,
+    cpuMax: row.cpuMax,
+    memoryUsed: row.memoryAvg,
+    memoryMax: row.memoryMax,
+    diskUsed: row.diskMax,
+    uploadBytes: row.uploadBytes,
+    downloadBytes: row.downloadBytes,
+    uploadRate: row.uploadBytes / size,
+    downloadRate: row.downloadBytes / size,
+  }));
+}
+
+/**
+ * Get metrics history for a host
+ */
+export async function getHostMetrics(hostId: number, query: MetricsQuery = {}): Promise<HostMetricsSeries> {
+  try {
+    const to = query.to ?? Math.floor(Date.now() / 1000);
+    const from = query.from ?? to - DAY_SECONDS;
+    if (from > to) {
+      throw new Error('Invalid time range: from must be before to');
+    }
+
+    const resolution = !query.resolution || query.resolution === 'auto' ? pickResolution(from, to) : query.resolution;
+
+    if (resolution === 'raw') {
+      // Include the sample just before the range so the first point has a rate
+      const [previous] = await db
+        .select()
+        .from(hostMetrics)
+        .where(and(eq(hostMetrics.hostId, hostId), lt(hostMetrics.createdAt, from)))
+        .orderBy(desc(hostMetrics.createdAt))
+        .limit(1);
+      const samples = await db
+        .select()
+        .from(hostMetrics)
+        .where(and(eq(hostMetrics.hostId, hostId), gte(hostMetrics.createdAt, from), lte(hostMetrics.createdAt, to)))
+        .orderBy(asc(hostMetrics.createdAt));
+
+      return { hostId, resolution, from, to, points: toRawPoints(previous ? [previous, ...samples] : samples, from) };
+    }
+
+    const size = ROLLUP_SECONDS[resolution];
+    const rows = await db
+      .select()
+      .from(hostMetricRollups)
+      .where(
+        and(
+          eq(hostMetricRollups.hostId, hostId),
+          eq(hostMetricRollups.resolution, resolution),
+          gte(hostMetricRollups.bucketStart, Math.floor(from / size) * size),
+          lte(hostMetricRollups.bucketStart, to)
+        )
+      )
+      .orderBy(asc(hostMetricRollups.bucketStart));
+
+    return { hostId, resolution, from, to, points: toRollupPoints(rows, size) };
+  } catch (error) {
+    logger.error(`Failed to get metrics for host ${hostId}`, { error });
+    throw error;
+  }
+}
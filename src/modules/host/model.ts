@@ -3,7 +3,23 @@
  * Defines interfaces for host-related data structures
  */
 
-export interface HostInfo {
+import type { Host, HostMediaStatus, MaintenanceWindow } from '@/db';
+
+export type QuotaMode = 'upload' | 'download' | 'both' | 'max';
+
+export interface HostInventory {
+  alias?: string | null;
+  provider?: string | null;
+  plan?: string | null;
+  price?: number | null; // Monthly price
+  currency?: string | null; // ISO 4217 code
+  purchasedAt?: number | null; // Unix timestamp
+  expiresAt?: number | null; // Unix timestamp of the next renewal / expiry
+  tags?: string[]; // Stored comma-separated, lowercased
+  notes?: string | null;
+}
+
+export interface HostInfo extends HostInventory {
   name: string;
   ip: string;
   ipv6?: string;
@@ -16,6 +32,13 @@ export interface HostInfo {
   uploadTotal?: number;
   downloadTotal?: number;
   lastNetworkReset?: number;
+  trafficQuota?: number | null;
+  quotaResetDay?: number;
+  quotaMode?: QuotaMode;
+  portSpeed?: number | null; // Mbit/s, null to use the fastest reported interface
+  portRangeStart?: number | null; // Port range for allocated nodes, null for the config default
+  portRangeEnd?: number | null;
+  reservedPorts?: string | null; // Comma-separated ports and ranges nodes may not use
   region?: string;
   city?: string;
   isp?: string;
@@ -24,7 +47,7 @@ export interface HostInfo {
   lastHeartbeat?: number;
 }
 
-export interface HostUpdate {
+export interface HostUpdate extends HostInventory {
   cpuUsage?: number;
   memoryUsed?: number;
   diskUsed?: number;
@@ -33,24 +56,321 @@ export interface HostUpdate {
   status?: string;
   uptime?: number;
   lastHeartbeat?: number;
+  trafficQuota?: number | null;
+  quotaResetDay?: number;
+  quotaMode?: QuotaMode;
+  portSpeed?: number | null; // Mbit/s, null to use the fastest reported interface
+  portRangeStart?: number | null; // Port range for allocated nodes, null for the config default
+  portRangeEnd?: number | null;
+  reservedPorts?: string | null; // Comma-separated ports and ranges nodes may not use
+}
+
+export interface HostQuery {
+  status?: string;
+  provider?: string; // Case-insensitive exact match
+  region?: string;
+  tag?: string; // Hosts carrying this tag
+  search?: string; // Substring of name, alias, IP or notes
+  expiresBefore?: number; // Unix timestamp
+}
+
+export interface NetworkInterface {
+  name: string; // e.g. eth0
+  mac?: string;
+  addresses?: string[]; // Addresses with prefix length (e.g. 203.0.113.5/24)
+  speed?: number; // Link speed in Mbit/s
+}
+
+export interface HostRegistration {
+  name: string;
+  ip?: string; // Public IPv4, defaults to the request source address
+  ipv6?: string; // Public IPv6
+  cpuCores: number;
+  cpuModel?: string;
+  arch?: string;
+  memoryTotal: number; // MB
+  diskTotal: number; // GB
+  os?: string;
+  osVersion?: string;
+  kernel?: string;
+  virtualization?: string;
+  interfaces?: NetworkInterface[];
+  agentVersion?: string;
+}
+
+export interface RegistrationAuth {
+  agentToken: string | null; // X-Host-Token header, proves an earlier registration
+  enrollmentToken: string | null; // X-Enrollment-Token header
+}
+
+export type RegisteredHost = Host & {
+  agentToken: string | null; // Newly issued agent token, only returned once
+  created: boolean; // First registration of this host name
+};
+
+export interface GeoIpResult {
+  country: string | null; // ISO 3166-1 alpha-2 code, stored as region
+  city: string | null;
+  asn: number | null;
+  isp: string | null; // ISP name, or the AS organization
+}
+
+export interface EnrichmentSummary {
+  total: number; // Hosts looked up
+  enriched: number; // Hosts updated from the databases
+  skipped: number; // Hosts without a match or with a non-public address
 }
 
-export interface HostHeartbeat {
+export type MediaStatus = 'unlocked' | 'blocked';
+
+export interface MediaCheckResult {
+  service: string; // e.g. netflix, disney, youtube_premium
+  status: MediaStatus;
+  region?: string; // Region detected by the service
+  detail?: string; // e.g. "originals only"
+  testedAt?: number; // Unix timestamp of the test, defaults to the heartbeat time
+}
+
+export interface MediaMatrixRow {
+  hostId: number;
   name: string;
+  alias: string | null;
+  region: string | null; // Host region
+  services: Record<string, { status: MediaStatus; region: string | null; testedAt: number } | null>;
+}
+
+export type MaintenanceState = 'scheduled' | 'active' | 'ended';
+
+export interface MaintenanceWindowInput {
+  hostId?: number; // Either a host...
+  tag?: string; // ...or every host carrying a tag
+  startsAt?: number; // Unix timestamp, defaults to now
+  endsAt?: number; // Unix timestamp
+  duration?: string; // Alternative to endsAt (e.g. 2h, 30m)
+  reason?: string;
+}
+
+export interface MaintenanceQuery {
+  hostId?: number; // Windows applying to this host, directly or through its tags
+  state?: MaintenanceState;
+}
+
+export type MaintenanceWindowView = MaintenanceWindow & {
+  state: MaintenanceState;
+};
+
+export type HostCommandType = 'reload_xray' | 'pull_config' | 'restart_nginx' | 'speed_test';
+
+export type HostCommandStatus = 'pending' | 'delivered' | 'succeeded' | 'failed' | 'expired';
+
+export interface HostCommandInput {
+  hostId?: number; // Either a host...
+  tag?: string; // ...or every host carrying a tag
+  type: HostCommandType;
+  payload?: Record<string, unknown>; // Arguments passed to the agent as is
+  idempotencyKey?: string; // Queueing the same key for a host again returns the existing command
+  expiresIn?: string; // How long the command may wait for delivery (e.g. 30m), defaults to 1h
+}
+
+export interface HostCommandQuery {
+  hostId?: number;
+  status?: HostCommandStatus;
+  limit?: number;
+}
+
+export interface HostCommandResult {
+  status: 'succeeded' | 'failed';
+  output?: string;
+  exitCode?: number;
+}
+
+/**
+ * Command as handed to an agent
+ */
+export interface DeliveredCommand {
+  id: number;
+  type: string;
+  payload: unknown;
+  expiresAt: number; // Unix timestamp
+}
+
+export type DnsDecommissionAction = 'delete' | 'repoint';
+
+export interface DecommissionOptions {
+  reassignTo?: number; // Host taking over the nodes; nodes are unlinked when omitted
+  dnsAction?: DnsDecommissionAction; // Defaults to repoint when reassigning, delete otherwise
+  reason?: string;
+  dryRun?: boolean; // Only return the plan
+}
+
+export interface DecommissionPlan {
+  host: Pick<Host, 'id' | 'name' | 'ip' | 'ipv6'>;
+  reassignTo: Pick<Host, 'id' | 'name' | 'ip' | 'ipv6'> | null;
+  nodes: {
+    id: number;
+    name: string;
+    domain: string | null;
+    action: 'unlink' | 'reassign';
+    portConflict: string | null; // Why the node cannot move to the new host; blocks the decommission
+  }[];
+  dnsRecords: {
+    id: number | null; // Null for a node domain without a managed record
+    nodeId: number;
+    domain: string;
+    type: string;
+    value: string;
+    action: DnsDecommissionAction;
+    newValue: string | null; // Address the record is repointed to
+  }[];
+  metrics: { samples: number; rollups: number }; // Rows archived and removed with the host
+  dryRun: boolean;
+}
+
+export type DecommissionResult = DecommissionPlan & {
+  archiveId: number | null; // Null for dry runs
+};
+
+export interface MediaMatrix {
+  services: string[]; // Every service reported by any host, sorted
+  hosts: MediaMatrixRow[];
+}
+
+export interface HostSample {
   cpuUsage: number;
   memoryUsed: number;
   diskUsed: number;
   uploadTotal: number;
   downloadTotal: number;
   uptime: number;
-  timestamp: number;
+  ip?: string; // Public IPv4, defaults to the request source address
+  ipv6?: string; // Public IPv6, defaults to the request source address when it is IPv6
+  media?: MediaCheckResult[]; // Media unlock test results since the previous heartbeat
+  timestamp: number; // Unix timestamp the sample was taken
+}
+
+export interface HostHeartbeat extends HostSample {
+  name: string;
+  nonce: string; // Random per-heartbeat value, rejected if seen again; timestamp is checked against the clock skew
+}
+
+export interface MetricBatch {
+  samples: HostSample[]; // Samples taken between heartbeats, in any order
+}
+
+/**
+ * Message on the agent channel
+ * Agents send heartbeat and metrics messages, each answered with an ack, and ack messages pushed by the hub
+ */
+export interface AgentMessage {
+  type: string;
+  id?: string; // Set by the sender when it wants an acknowledgement
+  data?: unknown;
+}
+
+export interface AgentAck {
+  type: 'ack';
+  id: string | null; // ID of the acknowledged message, if it had one
+  success: boolean;
+  error?: string;
+  data?: unknown;
 }
 
+export interface AgentConnectionInfo {
+  hostId: number;
+  hostName: string;
+  sourceIp: string | null;
+  connectedAt: number; // Unix timestamp
+  lastMessageAt: number; // Unix timestamp
+}
+
+export interface HeartbeatAuth {
+  agentToken: string | null; // X-Host-Token header
+  signature: string | null; // X-Signature header
+  rawBody: string; // Exact request body the signature covers
+}
+
+export type IpFamily = 'ipv4' | 'ipv6';
+
+export interface IpChange {
+  family: IpFamily;
+  oldIp: string | null;
+  newIp: string;
+  source: 'heartbeat' | 'registration' | 'request';
+}
+
+export type HostWithToken = Host & {
+  agentToken: string; // Plaintext agent token, only returned once
+};
+
+export interface TrafficDelta {
+  upload: number; // Bytes uploaded since the previous heartbeat
+  download: number; // Bytes downloaded since the previous heartbeat
+  counterReset: boolean; // Agent counters went backwards
+}
+
+export interface TrafficQuotaStatus {
+  quota: number | null; // Transfer cap in bytes (null = unlimited)
+  mode: QuotaMode;
+  resetDay: number;
+  cycleStart: number; // Unix timestamp
+  cycleEnd: number; // Unix timestamp of the next reset
+  uploadUsed: number; // Upload bytes this cycle
+  downloadUsed: number; // Download bytes this cycle
+  used: number; // Bytes counted against the quota for the mode
+  remaining: number | null; // Bytes left (null = unlimited)
+  percentUsed: number | null; // 0-100+ (null = unlimited)
+  projected: number; // Expected bytes counted by cycle end at the current rate
+}
+
+export type ExpiringHost = Host & {
+  daysLeft: number; // Whole days until expiry; zero or negative once expired
+  expired: boolean;
+};
+
+export type HostDetail = Host & {
+  traffic: TrafficQuotaStatus;
+  media: HostMediaStatus[];
+};
+
 export interface HostStats {
   totalHosts: number;
   onlineHosts: number;
   offlineHosts: number;
+  maintenanceHosts: number;
   unknownHosts: number;
-  totalTrafficUpload: number;
-  totalTrafficDownload: number;
+  totalTrafficUpload: number; // Lifetime bytes across counter resets
+  totalTrafficDownload: number; // Lifetime bytes across counter resets
+  throughputUpload: number; // Bytes per second across online hosts
+  throughputDownload: number; // Bytes per second across online hosts
+  saturatedHosts: number; // Hosts whose port is saturated
+}
+
+export type MetricResolution = 'raw' | '5m' | '1h';
+
+export interface MetricsQuery {
+  from?: number; // Unix timestamp, defaults to 24 hours before `to`
+  to?: number; // Unix timestamp, defaults to now
+  resolution?: MetricResolution | 'auto'; // `auto` picks by range length
+}
+
+export interface MetricPoint {
+  timestamp: number; // Sample time, or bucket start for rollups
+  samples: number; // Raw samples behind this point
+  cpuUsage: number | null; // Average CPU usage percentage
+  cpuMax: number | null; // Peak CPU usage percentage
+  memoryUsed: number | null; // Average used memory in MB
+  memoryMax: number | null; // Peak used memory in MB
+  diskUsed: number | null; // Peak used disk space in GB
+  uploadBytes: number; // Bytes uploaded since the previous point
+  downloadBytes: number; // Bytes downloaded since the previous point
+  uploadRate: number; // Average upload bytes per second
+  downloadRate: number; // Average download bytes per second
+}
+
+export interface HostMetricsSeries {
+  hostId: number;
+  resolution: MetricResolution;
+  from: number;
+  to: number;
+  points: MetricPoint[];
 }
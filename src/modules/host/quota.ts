@@ -0,0 +1,159 @@
+/**
+ * Host traffic quota
+ * Tracks transfer used per billing cycle against the host's monthly cap
+ */
+
+import { db, hosts, type Host } from '@/db';
+import { eq } from 'drizzle-orm';
+import { createLogger } from '@/utils/logger';
+import { recordAudit } from '@/modules/audit/service';
+import type { QuotaMode, TrafficDelta, TrafficQuotaStatus } from './model';
+
+const logger = createLogger('HostQuota');
+
+// Projections need some history before they mean anything
+const MIN_PROJECTION_SECONDS = 3600;
+
+/**
+ * Start of the cycle in a given month, clamped to the month's last day
+ */
+function cycleStartIn(year: number, month: number, resetDay: number): number {
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return Date.UTC(year, month, Math.min(resetDay, daysInMonth)) / 1000;
+}
+
+/**
+ * Get the billing cycle containing a timestamp
+ * Cycles start at 00:00 UTC on the reset day
+ */
+export function getCycleBounds(resetDay: number, now: number): { start: number; end: number } {
+  const date = new Date(now * 1000);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+
+  let start = cycleStartIn(year, month, resetDay);
+  let startMonth = month;
+  if (start > now) {
+    startMonth = month - 1;
+    start = cycleStartIn(year, startMonth, resetDay);
+  }
+
+  return { start, end: cycleStartIn(year, startMonth + 1, resetDay) };
+}
+
+/**
+ * Bytes counted against the quota for a mode
+ */
+export function quotaUsage(mode: QuotaMode, upload: number, download: number): number {
+  switch (mode) {
+    case 'upload':
+      return upload;
+    case 'download':
+      return download;
+    case 'max':
+      return Math.max(upload, download);
+    default:
+      return upload + download;
+  }
+}
+
+/**
+ * Check whether the host's stored cycle counters belong to an earlier cycle
+ */
+function isCycleExpired(host: Host, now: number): boolean {
+  return (host.lastNetworkReset ?? 0) < getCycleBounds(host.quotaResetDay, now).start;
+}
+
+/**
+ * Compute cycle counters after a heartbeat
+ */
+export function accumulateCycleTraffic(
+  host: Host,
+  delta: TrafficDelta,
+  now: number
+): Pick<Host, 'cycleUpload' | 'cycleDownload' | 'lastNetworkReset'> {
+  const expired = isCycleExpired(host, now);
+
+  return {
+    cycleUpload: (expired ? 0 : host.cycleUpload) + delta.upload,
+    cycleDownload: (expired ? 0 : host.cycleDownload) + delta.download,
+    lastNetworkReset: expired ? getCycleBounds(host.quotaResetDay, now).start : host.lastNetworkReset,
+  };
+}
+
+/**
+ * Get quota usage for the host's current billing cycle
+ */
+export function getTrafficQuotaStatus(host: Host, now = Math.floor(Date.now() / 1000)): TrafficQuotaStatus {
+  const { start, end } = getCycleBounds(host.quotaResetDay, now);
+  const expired = isCycleExpired(host, now);
+  const mode = host.quotaMode as QuotaMode;
+
+  const uploadUsed = expired ? 0 : host.cycleUpload;
+  const downloadUsed = expired ? 0 : host.cycleDownload;
+  const used = quotaUsage(mode, uploadUsed, downloadUsed);
+
+  // Linear projection of the usage rate so far over the whole cycle
+  const elapsed = Math.max(now - start, MIN_PROJECTION_SECONDS);
+  const projected = Math.round((used / elapsed) * (end - start));
+
+  const quota = host.trafficQuota;
+  return {
+    quota,
+    mode,
+    resetDay: host.quotaResetDay,
+    cycleStart: start,
+    cycleEnd: end,
+    uploadUsed,
+    downloadUsed,
+    used,
+    remaining: quota === null ? null : Math.max(0, quota - used),
+    percentUsed: quota === null ? null : quota > 0 ? Math.round((used / quota) * 10000) / 100 : 100,
+    projected,
+  };
+}
+
+/**
+ * Reset cycle counters for hosts whose billing cycle has ended
+ * Heartbeats reset lazily as well; this covers hosts that stopped reporting
+ */
+export async function resetTrafficCycles(now = Math.floor(Date.now() / 1000)): Promise<number> {
+  try {
+    const allHosts = await db.select().from(hosts);
+    let reset = 0;
+
+    for (const host of allHosts) {
+      if (!isCycleExpired(host, now)) {
+        continue;
+      }
+
+      const cycleStart = getCycleBounds(host.quotaResetDay, now).start;
+      await db
+        .update(hosts)
+        .set({ cycleUpload: 0, cycleDownload: 0, lastNetworkReset: cycleStart, updatedAt: now })
+        .where(eq(hosts.id, host.id));
+
+      await recordAudit({
+        actor: 'system:monitor',
+        action: 'host.traffic_reset',
+        entityType: 'host',
+        entityId: host.id,
+        before: {
+          cycleUpload: host.cycleUpload,
+          cycleDownload: host.cycleDownload,
+          lastNetworkReset: host.lastNetworkReset,
+        },
+        after: { cycleUpload: 0, cycleDownload: 0, lastNetworkReset: cycleStart },
+      });
+      reset++;
+    }
+
+    if (reset > 0) {
+      logger.info(`Reset traffic cycle for ${reset} hosts`);
+    }
+    return reset;
+  } catch (error) {
+    logger.error('Failed to reset traffic cycles', { error });
+    throw error;
+  }
+}
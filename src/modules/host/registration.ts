@@ -0,0 +1,146 @@
+/**
+ * Host registration
+ * Agent handshake that creates a host or refreshes its static hardware and system facts
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { db, hosts } from '@/db';
+import { eq } from 'drizzle-orm';
+import config from '@/utils/config';
+import { createLogger } from '@/utils/logger';
+import { createHost, getHostByName } from './service';
+import { verifyHostToken } from './token';
+import { parseIp, detectIpChanges, applyIpChanges } from './address';
+import { enrichHost } from './geoip';
+import type { HostRegistration, RegistrationAuth, RegisteredHost } from './model';
+
+const logger = createLogger('HostRegistration');
+
+/**
+ * Header carrying the pre-shared enrollment token
+ */
+export const ENROLLMENT_TOKEN_HEADER = 'x-enrollment-token';
+
+/**
+ * Check whether new hosts need the enrollment token
+ */
+export function isEnrollmentRequired(): boolean {
+  return !!config.security.enrollment_token;
+}
+
+/**
+ * Check a token against the configured enrollment token
+ */
+export function verifyEnrollmentToken(token: string | null | undefined): boolean {
+  const configured = config.security.enrollment_token;
+  if (!configured || !token) {
+    return false;
+  }
+
+  // Compare fixed-length digests so the token length doesn't leak
+  const expected = createHash('sha256').update(configured).digest();
+  const provided = createHash('sha256').update(token).digest();
+  return timingSafeEqual(expected, provided);
+}
+
+/**
+ * Static facts written on every registration
+ */
+function registrationFacts(registration: HostRegistration, now: number) {
+  return {
+    cpuCores: registration.cpuCores,
+    cpuModel: registration.cpuModel || null,
+    arch: registration.arch || null,
+    memoryTotal: registration.memoryTotal,
+    diskTotal: registration.diskTotal,
+    os: registration.os || null,
+    osVersion: registration.osVersion || null,
+    kernel: registration.kernel || null,
+    virtualization: registration.virtualization || null,
+    interfaces: registration.interfaces ? JSON.stringify(registration.interfaces) : null,
+    agentVersion: registration.agentVersion || null,
+    registeredAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Register a host on agent boot
+ * New hosts need the enrollment token when one is configured. Known hosts must re-register with
+ * their agent token; an agent that lost it needs an admin to rotate the token
+ */
+export async function registerHost(
+  registration: HostRegistration,
+  auth: RegistrationAuth,
+  sourceIp: string | null = null
+): Promise<RegisteredHost> {
+  try {
+    const now = Math.floor(Date.now() / 1000);
+    const enrolled = verifyEnrollmentToken(auth.enrollmentToken);
+    const existing = await getHostByName(registration.name);
+
+    if (!existing) {
+      if (isEnrollmentRequired() && !enrolled) {
+        throw new Error('Registration rejected: invalid enrollment token');
+      }
+
+      const reported = parseIp(registration.ip);
+      const source = parseIp(sourceIp);
+      const ip = reported?.family === 'ipv4' ? reported.address : source?.family === 'ipv4' ? source.address : null;
+      if (!ip) {
+        throw new Error('IPv4 address is required to register a new host');
+      }
+
+      const created = await createHost({
+        name: registration.name,
+        ip,
+        ipv6: parseIp(registration.ipv6)?.address,
+        cpuCores: registration.cpuCores,
+        memoryTotal: registration.memoryTotal,
+        diskTotal: registration.diskTotal,
+      });
+      const result = await db
+        .update(hosts)
+        .set(registrationFacts(registration, now))
+        .where(eq(hosts.id, created.id))
+        .returning();
+      const enriched = (await enrichHost(result[0], now)) ?? result[0];
+
+      logger.info(`Registered new host: ${created.name} (ID: ${created.id})`);
+      return { ...enriched, agentToken: created.agentToken, created: true };
+    }
+
+    const hasToken = await verifyHostToken(existing.id, auth.agentToken);
+    if (!hasToken) {
+      throw new Error(`Registration rejected: host '${registration.name}' is already registered; send its agent token`);
+    }
+
+    const ipChanges = detectIpChanges(existing, registration, sourceIp, 'registration');
+    const ipv4Change = ipChanges.find((change) => change.family === 'ipv4');
+    const ipv6Change = ipChanges.find((change) => change.family === 'ipv6');
+
+    const result = await db
+      .update(hosts)
+      .set({
+        ...registrationFacts(registration, now),
+        ip: ipv4Change?.newIp ?? existing.ip,
+        ipv6: ipv6Change?.newIp ?? existing.ipv6,
+      })
+      .where(eq(hosts.id, existing.id))
+      .returning();
+    let updated = result[0];
+
+    if (ipChanges.length > 0) {
+      await applyIpChanges(updated, ipChanges, now);
+    }
+    if (ipChanges.length > 0 || updated.geoUpdatedAt === null) {
+      updated = (await enrichHost(updated, now)) ?? updated;
+    }
+
+    logger.info(`Re-registered host: ${updated.name} (ID: ${updated.id})`);
+    return { ...updated, agentToken: null, created: false };
+  } catch (error) {
+    logger.error(`Failed to register host ${registration.name}`, { error });
+    throw error;
+  }
+}
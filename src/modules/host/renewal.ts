@@ -0,0 +1,118 @@
+/**
+ * Host renewals
+ * Reminds before a host's renewal date and keeps alerting once it has expired
+ */
+
+import { db, hosts, type Host } from '@/db';
+import { eq, and, asc, isNotNull, lte } from 'drizzle-orm';
+import config from '@/utils/config';
+import { createLogger } from '@/utils/logger';
+import { getTelegramNotifier, notifyHostRenewal } from '@/utils/telegram';
+import type { ExpiringHost } from './model';
+
+const logger = createLogger('HostRenewal');
+
+const DAY_SECONDS = 86400;
+
+// Used when config.toml has no renewal settings
+const DEFAULT_REMINDER_DAYS = [14, 7, 3, 1];
+const DEFAULT_OVERDUE_REPEAT_HOURS = 24;
+
+/**
+ * Whole days until expiry, rounded up; zero or negative once expired
+ */
+export function getDaysLeft(expiresAt: number, now: number): number {
+  return expiresAt > now ? Math.ceil((expiresAt - now) / DAY_SECONDS) : -Math.floor((now - expiresAt) / DAY_SECONDS);
+}
+
+/**
+ * Pick the reminder stage reached for an expiry date
+ * Returns the smallest lead time already reached, 0 once expired, or null if no reminder is due yet
+ */
+export function getReminderStage(expiresAt: number, now: number, leadDays: number[]): number | null {
+  if (expiresAt <= now) {
+    return 0;
+  }
+
+  const remaining = (expiresAt - now) / DAY_SECONDS;
+  const reached = leadDays.filter((days) => days > 0 && remaining <= days);
+  return reached.length > 0 ? Math.min(...reached) : null;
+}
+
+/**
+ * Check whether a host still needs a reminder for a stage
+ * Each lead time is sent once per expiry date; expired alerts repeat every interval
+ */
+export function isReminderDue(host: Host, stage: number, now: number, repeatSeconds: number): boolean {
+  if (stage > 0) {
+    return host.renewalReminderDays === null || stage < host.renewalReminderDays;
+  }
+  return host.renewalReminderDays !== 0 || now - (host.renewalNotifiedAt ?? 0) >= repeatSeconds;
+}
+
+/**
+ * Send due renewal reminders and expiry alerts
+ */
+export async function checkHostRenewals(now = Math.floor(Date.now() / 1000)): Promise<number> {
+  try {
+    const leadDays = config.notifications?.renewal_reminder_days ?? DEFAULT_REMINDER_DAYS;
+    const repeatSeconds = (config.notifications?.renewal_overdue_repeat_hours ?? DEFAULT_OVERDUE_REPEAT_HOURS) * 3600;
+    const horizon = now + Math.max(0, ...leadDays) * DAY_SECONDS;
+
+    const candidates = await db
+      .select()
+      .from(hosts)
+      .where(and(isNotNull(hosts.expiresAt), lte(hosts.expiresAt, horizon)));
+
+    let sent = 0;
+    for (const host of candidates) {
+      const expiresAt = host.expiresAt!;
+      const stage = getReminderStage(expiresAt, now, leadDays);
+      if (stage === null || !isReminderDue(host, stage, now, repeatSeconds)) {
+        continue;
+      }
+
+      const daysLeft = getDaysLeft(expiresAt, now);
+      logger.warn(daysLeft > 0 ? `Host ${host.name} expires in ${daysLeft} days` : `Host ${host.name} has expired`);
+
+      // Retry on the next check if Telegram is configured but the message failed
+      const delivered = await notifyHostRenewal(host.name, expiresAt, daysLeft, host);
+      if (!delivered && getTelegramNotifier().isEnabled()) {
+        continue;
+      }
+
+      await db
+        .update(hosts)
+        .set({ renewalReminderDays: stage, renewalNotifiedAt: now })
+        .where(eq(hosts.id, host.id));
+      sent++;
+    }
+
+    return sent;
+  } catch (error) {
+    logger.error('Failed to check host renewals', { error });
+    throw error;
+  }
+}
+
+/**
+ * Get hosts expiring within a period, soonest first, including already expired ones
+ */
+export async function getExpiringHosts(within: number, now = Math.floor(Date.now() / 1000)): Promise<ExpiringHost[]> {
+  try {
+    const result = await db
+      .select()
+      .from(hosts)
+      .where(and(isNotNull(hosts.expiresAt), lte(hosts.expiresAt, now + within)))
+      .orderBy(asc(hosts.expiresAt));
+
+    return result.map((host) => ({
+      ...host,
+      daysLeft: getDaysLeft(host.expiresAt!, now),
+      expired: host.expiresAt! <= now,
+    }));
+  } catch (error) {
+    logger.error('Failed to get expiring hosts', { error });
+    throw error;
+  }
+}
@@ -5,6 +5,10 @@
 
 import { Elysia, t } from 'elysia';
 import { successResponse, errorResponse, ErrorCodes } from '@/utils/response';
+import { getClientIp } from '@/utils/request';
+import { parseDuration } from '@/utils/duration';
+import { authPlugin } from '@/modules/auth/plugin';
+import { getHostPorts } from '@/modules/node/ports';
 import {
   getAllHosts,
   getHostById,
@@ -13,14 +17,77 @@ import {
   deleteHost,
   processHeartbeat,
   getHostStats,
+  rotateHostToken,
+  revokeHostAccess,
 } from './service';
-import type { HostInfo, HostUpdate, HostHeartbeat } from './model';
+import { HOST_TOKEN_HEADER } from './token';
+import { SIGNATURE_HEADER } from './signature';
+import { getHostMetrics } from './metrics';
+import { getTrafficQuotaStatus } from './quota';
+import { getHostIpChanges } from './address';
+import { getExpiringHosts } from './renewal';
+import { registerHost, ENROLLMENT_TOKEN_HEADER } from './registration';
+import { enrichAllHosts } from './geoip';
+import { decommissionHost } from './decommission';
+import { authenticateAgent, openAgentChannel, closeAgentChannel, handleAgentMessage } from './channel';
+import { listAgentConnections } from './connections';
+import {
+  HOST_COMMAND_TYPES,
+  enqueueHostCommand,
+  getHostCommands,
+  claimHostCommands,
+  pushHostCommands,
+  reportHostCommandResult,
+} from './commands';
+import { getHostMedia, getHostMediaHistory, getMediaMatrix } from './media';
+import {
+  createMaintenanceWindow,
+  getMaintenanceWindows,
+  endMaintenanceWindow,
+  deleteMaintenanceWindow,
+} from './maintenance';
+import type { Host } from '@/db';
+import type {
+  HostInfo,
+  HostUpdate,
+  HostQuery,
+  HostHeartbeat,
+  HostRegistration,
+  MetricsQuery,
+  AgentMessage,
+} from './model';
+
+// Raw request bodies kept for heartbeat signature verification
+const rawBodies = new WeakMap<Request, string>();
+
+// Hosts authenticated while upgrading to the agent channel, with the connection's source address
+const channelHosts = new WeakMap<Request, { host: Host; sourceIp: string | null }>();
+
+/**
+ * Map decommission errors to API errors
+ */
+function decommissionError(error: any) {
+  if (error.message.includes('Port conflict')) {
+    return errorResponse(ErrorCodes.PORT_CONFLICT, error.message);
+  }
+  if (error.message.includes('not found')) {
+    return errorResponse(ErrorCodes.HOST_NOT_FOUND, error.message);
+  }
+  if (error.message.includes('Cannot reassign') || error.message.includes('needs reassignTo')) {
+    return errorResponse(ErrorCodes.INVALID_REQUEST, error.message);
+  }
+  if (error.message.includes('Decommission aborted') || error.message.includes('DNS provider not initialized')) {
+    return errorResponse(ErrorCodes.DNS_PROVIDER_ERROR, error.message);
+  }
+  return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to decommission host', error);
+}
 
 export const hostRoutes = new Elysia({ prefix: '/hosts' })
+  .use(authPlugin)
   // Get all hosts
-  .get('/', async () => {
+  .get('/', async ({ query }) => {
     try {
-      const hosts = await getAllHosts();
+      const hosts = await getAllHosts(query as HostQuery);
       return successResponse(hosts);
     } catch (error) {
       return errorResponse(
@@ -33,9 +100,241 @@ export const hostRoutes = new Elysia({ prefix: '/hosts' })
     detail: {
       tags: ['Host'],
       summary: 'Get all hosts',
-      description: 'Retrieve all VPS hosts',
+      description: 'Retrieve VPS hosts, filtered by status, provider, region, tag, expiry or a search term',
+    },
+    query: t.Object({
+      status: t.Optional(t.String()),
+      provider: t.Optional(t.String()),
+      region: t.Optional(t.String()),
+      tag: t.Optional(t.String()),
+      search: t.Optional(t.String()),
+      expiresBefore: t.Optional(t.Numeric()),
+    }),
+  })
+  // Get fleet media unlock matrix
+  .get('/media/matrix', async () => {
+    try {
+      const matrix = await getMediaMatrix();
+      return successResponse(matrix);
+    } catch (error) {
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to get media matrix', error);
+    }
+  }, {
+    detail: {
+      tags: ['Host'],
+      summary: 'Get media unlock matrix',
+      description: 'Latest media unlock result of every host for every service reported across the fleet',
+    },
+  })
+  // Get hosts due for renewal
+  .get('/expiring', async ({ query }) => {
+    try {
+      const within = parseDuration(query.within || '30d', 'd');
+      if (within === null) {
+        return errorResponse(ErrorCodes.INVALID_REQUEST, `Invalid duration: ${query.within}`);
+      }
+      const hosts = await getExpiringHosts(within);
+      return successResponse(hosts);
+    } catch (error) {
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to get expiring hosts', error);
+    }
+  }, {
+    detail: {
+      tags: ['Host'],
+      summary: 'Get expiring hosts',
+      description: 'List hosts whose expiresAt is within a period (e.g. 30d, 2w; default 30d), expired ones included',
+    },
+    query: t.Object({
+      within: t.Optional(t.String()),
+    }),
+  })
+  // List maintenance windows
+  .get('/maintenance', async ({ query }) => {
+    try {
+      const windows = await getMaintenanceWindows(query);
+      return successResponse(windows);
+    } catch (error) {
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to get maintenance windows', error);
+    }
+  }, {
+    detail: {
+      tags: ['Host'],
+      summary: 'List maintenance windows',
+      description: 'List maintenance windows by state, or those applying to a host directly or through its tags',
+    },
+    query: t.Object({
+      hostId: t.Optional(t.Numeric()),
+      state: t.Optional(t.Union([t.Literal('scheduled'), t.Literal('active'), t.Literal('ended')])),
+    }),
+  })
+  // Schedule maintenance
+  .post('/maintenance', async ({ body, principal }) => {
+    try {
+      const window = await createMaintenanceWindow(body, principal?.name || 'anonymous');
+      return successResponse(window);
+    } catch (error: any) {
+      if (error.message.includes('not found')) {
+        return errorResponse(ErrorCodes.HOST_NOT_FOUND, error.message);
+      }
+      if (error.message.includes('Maintenance window needs') || error.message.includes('Invalid')) {
+        return errorResponse(ErrorCodes.INVALID_REQUEST, error.message);
+      }
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to create maintenance window', error);
+    }
+  }, {
+    detail: {
+      tags: ['Host'],
+      summary: 'Schedule maintenance',
+      description:
+        'Schedule maintenance for a host or a tag, starting now unless startsAt is given and ending at endsAt or ' +
+        'after duration (e.g. 2h). Covered hosts raise no offline or disk alerts, go to the maintenance status ' +
+        'instead of offline and are left out of availability reports',
+    },
+    body: t.Object({
+      hostId: t.Optional(t.Integer()),
+      tag: t.Optional(t.String({ minLength: 1, maxLength: 50 })),
+      startsAt: t.Optional(t.Integer()),
+      endsAt: t.Optional(t.Integer()),
+      duration: t.Optional(t.String()),
+      reason: t.Optional(t.String({ maxLength: 500 })),
+    }),
+  })
+  // End maintenance early
+  .post('/maintenance/:id/end', async ({ params }) => {
+    try {
+      const window = await endMaintenanceWindow(Number(params.id));
+      if (!window) {
+        return errorResponse(ErrorCodes.NOT_FOUND, `Maintenance window with ID ${params.id} not found`);
+      }
+      return successResponse(window);
+    } catch (error: any) {
+      if (error.message.includes('is not active')) {
+        return errorResponse(ErrorCodes.INVALID_REQUEST, error.message);
+      }
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to end maintenance window', error);
+    }
+  }, {
+    detail: {
+      tags: ['Host'],
+      summary: 'End maintenance',
+      description: 'End an active maintenance window now; hosts still silent are marked offline on the next check',
     },
   })
+  // Delete maintenance window
+  .delete('/maintenance/:id', async ({ params }) => {
+    try {
+      const deleted = await deleteMaintenanceWindow(Number(params.id));
+      if (!deleted) {
+        return errorResponse(ErrorCodes.NOT_FOUND, `Maintenance window with ID ${params.id} not found`);
+      }
+      return successResponse({ message: 'Maintenance window deleted successfully' });
+    } catch (error) {
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to delete maintenance window', error);
+    }
+  }, {
+    detail: {
+      tags: ['Host'],
+      summary: 'Delete maintenance window',
+      description: 'Delete a scheduled or past maintenance window',
+    },
+  })
+  // List queued commands
+  .get('/commands', async ({ query }) => {
+    try {
+      const commands = await getHostCommands(query);
+      return successResponse(commands);
+    } catch (error) {
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to get host commands', error);
+    }
+  }, {
+    detail: {
+      tags: ['Host'],
+      summary: 'List host commands',
+      description: 'List commands queued for agents, newest first',
+    },
+    query: t.Object({
+      hostId: t.Optional(t.Numeric()),
+      status: t.Optional(
+        t.Union([
+          t.Literal('pending'),
+          t.Literal('delivered'),
+          t.Literal('succeeded'),
+          t.Literal('failed'),
+          t.Literal('expired'),
+        ])
+      ),
+      limit: t.Optional(t.Numeric({ minimum: 1, maximum: 1000 })),
+    }),
+  })
+  // Queue a command
+  .post('/commands', async ({ body, principal }) => {
+    try {
+      const commands = await enqueueHostCommand(body, principal?.name || 'anonymous');
+      // Connected agents get their commands now instead of on their next heartbeat
+      for (const hostId of new Set(commands.map((command) => command.hostId))) {
+        void pushHostCommands(hostId);
+      }
+      return successResponse(commands);
+    } catch (error: any) {
+      if (error.message.includes('not found')) {
+        return errorResponse(ErrorCodes.HOST_NOT_FOUND, error.message);
+      }
+      if (error.message.includes('Command needs') || error.message.includes('Invalid')) {
+        return errorResponse(ErrorCodes.INVALID_REQUEST, error.message);
+      }
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to queue host command', error);
+    }
+  }, {
+    detail: {
+      tags: ['Host'],
+      summary: 'Queue host command',
+      description:
+        'Queue a command for a host or every host carrying a tag. Agents on the agent channel get pending ' +
+        'commands pushed right away, others once in their next heartbeat response. Commands not delivered ' +
+        'within expiresIn (default 1h) expire; queueing the same idempotencyKey for a host again returns its ' +
+        'existing command',
+    },
+    body: t.Object({
+      hostId: t.Optional(t.Integer()),
+      tag: t.Optional(t.String({ minLength: 1, maxLength: 50 })),
+      type: t.Union(HOST_COMMAND_TYPES.map((type) => t.Literal(type))),
+      payload: t.Optional(t.Record(t.String(), t.Unknown())),
+      idempotencyKey: t.Optional(t.String({ minLength: 1, maxLength: 128 })),
+      expiresIn: t.Optional(t.String()),
+    }),
+  })
+  // Report command result (called by VPS nodes)
+  .post('/commands/:id/result', async ({ params, body, request, set }) => {
+    try {
+      const command = await reportHostCommandResult(Number(params.id), request.headers.get(HOST_TOKEN_HEADER), body);
+      return successResponse(command);
+    } catch (error: any) {
+      if (error.message.includes('not found')) {
+        return errorResponse(ErrorCodes.NOT_FOUND, error.message);
+      }
+      if (error.message.includes('Invalid agent token')) {
+        set.status = 401;
+        return errorResponse(ErrorCodes.UNAUTHORIZED, error.message);
+      }
+      if (error.message.includes('has not been delivered')) {
+        return errorResponse(ErrorCodes.INVALID_REQUEST, error.message);
+      }
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to record command result', error);
+    }
+  }, {
+    detail: {
+      tags: ['Host'],
+      summary: 'Report command result',
+      description:
+        'Called by the agent once a delivered command finished. Requires the X-Host-Token header of the ' +
+        'command\'s host. Repeated reports for a completed command are ignored',
+    },
+    body: t.Object({
+      status: t.Union([t.Literal('succeeded'), t.Literal('failed')]),
+      output: t.Optional(t.String()),
+      exitCode: t.Optional(t.Integer()),
+    }),
+  })
   // Get host by ID
   .get('/:id', async ({ params }) => {
     try {
@@ -43,7 +342,7 @@ export const hostRoutes = new Elysia({ prefix: '/hosts' })
       if (!host) {
         return errorResponse(ErrorCodes.HOST_NOT_FOUND, `Host with ID ${params.id} not found`);
       }
-      return successResponse(host);
+      return successResponse({ ...host, traffic: getTrafficQuotaStatus(host), media: await getHostMedia(host.id) });
     } catch (error) {
       return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to get host', error);
     }
@@ -51,7 +350,99 @@ export const hostRoutes = new Elysia({ prefix: '/hosts' })
     detail: {
       tags: ['Host'],
       summary: 'Get host by ID',
-      description: 'Retrieve a specific VPS host by ID',
+      description: 'Retrieve a VPS host by ID, with billing cycle traffic usage and latest media unlock results',
+    },
+  })
+  // Get host media unlock history
+  .get('/:id/media', async ({ params, query }) => {
+    try {
+      const host = await getHostById(Number(params.id));
+      if (!host) {
+        return errorResponse(ErrorCodes.HOST_NOT_FOUND, `Host with ID ${params.id} not found`);
+      }
+      const history = await getHostMediaHistory(host.id, query.service, query.limit);
+      return successResponse(history);
+    } catch (error) {
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to get host media history', error);
+    }
+  }, {
+    detail: {
+      tags: ['Host'],
+      summary: 'Get host media history',
+      description: 'List media unlock test results of a host, newest first, optionally for one service',
+    },
+    query: t.Object({
+      service: t.Optional(t.String()),
+      limit: t.Optional(t.Numeric({ minimum: 1, maximum: 1000 })),
+    }),
+  })
+  // Get host metrics history
+  .get('/:id/metrics', async ({ params, query }) => {
+    try {
+      const host = await getHostById(Number(params.id));
+      if (!host) {
+        return errorResponse(ErrorCodes.HOST_NOT_FOUND, `Host with ID ${params.id} not found`);
+      }
+      const series = await getHostMetrics(host.id, query as MetricsQuery);
+      return successResponse(series);
+    } catch (error: any) {
+      if (error.message.includes('Invalid time range')) {
+        return errorResponse(ErrorCodes.INVALID_REQUEST, error.message);
+      }
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to get host metrics', error);
+    }
+  }, {
+    detail: {
+      tags: ['Host'],
+      summary: 'Get host metrics',
+      description: 'Get CPU, memory, disk and bandwidth history at raw, 5m or 1h resolution (auto by range)',
+    },
+    query: t.Object({
+      from: t.Optional(t.Numeric()),
+      to: t.Optional(t.Numeric()),
+      resolution: t.Optional(
+        t.Union([t.Literal('auto'), t.Literal('raw'), t.Literal('5m'), t.Literal('1h')])
+      ),
+    }),
+  })
+  // Get host IP change history
+  .get('/:id/ip-changes', async ({ params }) => {
+    try {
+      const host = await getHostById(Number(params.id));
+      if (!host) {
+        return errorResponse(ErrorCodes.HOST_NOT_FOUND, `Host with ID ${params.id} not found`);
+      }
+      const changes = await getHostIpChanges(host.id);
+      return successResponse(changes);
+    } catch (error) {
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to get host IP changes', error);
+    }
+  }, {
+    detail: {
+      tags: ['Host'],
+      summary: 'Get host IP changes',
+      description: 'List detected public address changes of a host and the DNS updates they queued',
+    },
+  })
+  // Get host ports
+  .get('/:id/ports', async ({ params }) => {
+    try {
+      const host = await getHostById(Number(params.id));
+      if (!host) {
+        return errorResponse(ErrorCodes.HOST_NOT_FOUND, `Host with ID ${params.id} not found`);
+      }
+      const ports = await getHostPorts(host);
+      return successResponse(ports);
+    } catch (error) {
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to get host ports', error);
+    }
+  }, {
+    detail: {
+      tags: ['Host'],
+      summary: 'Get host ports',
+      description:
+        'List the ports used by nodes on a host and the reserved ones, with the range allocated nodes are picked ' +
+        'from, how many ports are free in it and the next one POST /nodes/allocate would use',
     },
   })
   // Create new host
@@ -64,18 +455,30 @@ export const hostRoutes = new Elysia({ prefix: '/hosts' })
       if (error.message.includes('already exists')) {
         return errorResponse(ErrorCodes.HOST_ALREADY_EXISTS, error.message);
       }
+      if (error.message.includes('Invalid port')) {
+        return errorResponse(ErrorCodes.INVALID_REQUEST, error.message);
+      }
       return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to create host', error);
     }
   }, {
     detail: {
       tags: ['Host'],
       summary: 'Create new host',
-      description: 'Register a new VPS host',
+      description: 'Register a new VPS host. The response includes the agent token, shown only once',
     },
     body: t.Object({
       name: t.String(),
       ip: t.String(),
       ipv6: t.Optional(t.String()),
+      alias: t.Optional(t.Nullable(t.String({ maxLength: 100 }))),
+      provider: t.Optional(t.Nullable(t.String({ maxLength: 100 }))),
+      plan: t.Optional(t.Nullable(t.String({ maxLength: 100 }))),
+      price: t.Optional(t.Nullable(t.Number({ minimum: 0 }))),
+      currency: t.Optional(t.Nullable(t.String({ pattern: '^[A-Za-z]{3}$' }))),
+      purchasedAt: t.Optional(t.Nullable(t.Integer())),
+      expiresAt: t.Optional(t.Nullable(t.Integer())),
+      tags: t.Optional(t.Array(t.String({ maxLength: 50 }))),
+      notes: t.Optional(t.Nullable(t.String())),
       cpuCores: t.Number(),
       cpuUsage: t.Optional(t.Number()),
       memoryTotal: t.Number(),
@@ -85,6 +488,15 @@ export const hostRoutes = new Elysia({ prefix: '/hosts' })
       uploadTotal: t.Optional(t.Integer()),
       downloadTotal: t.Optional(t.Integer()),
       lastNetworkReset: t.Optional(t.Integer()),
+      trafficQuota: t.Optional(t.Nullable(t.Integer({ minimum: 0 }))),
+      portSpeed: t.Optional(t.Nullable(t.Integer({ minimum: 1 }))),
+      portRangeStart: t.Optional(t.Nullable(t.Integer({ minimum: 1, maximum: 65535 }))),
+      portRangeEnd: t.Optional(t.Nullable(t.Integer({ minimum: 1, maximum: 65535 }))),
+      reservedPorts: t.Optional(t.Nullable(t.String({ maxLength: 1000 }))),
+      quotaResetDay: t.Optional(t.Integer({ minimum: 1, maximum: 31 })),
+      quotaMode: t.Optional(
+        t.Union([t.Literal('upload'), t.Literal('download'), t.Literal('both'), t.Literal('max')])
+      ),
       region: t.Optional(t.String()),
       city: t.Optional(t.String()),
       isp: t.Optional(t.String()),
@@ -93,6 +505,86 @@ export const hostRoutes = new Elysia({ prefix: '/hosts' })
       lastHeartbeat: t.Optional(t.Integer()),
     }),
   })
+  // Agent registration handshake
+  .post('/register', async ({ body, request, server, set }) => {
+    try {
+      const host = await registerHost(
+        body as HostRegistration,
+        {
+          agentToken: request.headers.get(HOST_TOKEN_HEADER),
+          enrollmentToken: request.headers.get(ENROLLMENT_TOKEN_HEADER),
+        },
+        getClientIp(request, server)
+      );
+      return successResponse(host);
+    } catch (error: any) {
+      if (error.message.includes('Registration rejected')) {
+        set.status = 401;
+        return errorResponse(ErrorCodes.UNAUTHORIZED, error.message);
+      }
+      if (error.message.includes('is required')) {
+        return errorResponse(ErrorCodes.INVALID_REQUEST, error.message);
+      }
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to register host', error);
+    }
+  }, {
+    detail: {
+      tags: ['Host'],
+      summary: 'Register host',
+      description:
+        'Called by agents on boot with hardware, OS and network details. New hosts need the X-Enrollment-Token ' +
+        'header when enrollment is enforced and receive an agent token; known hosts must re-register with their ' +
+        'X-Host-Token',
+    },
+    body: t.Object({
+      name: t.String({ minLength: 1 }),
+      ip: t.Optional(t.String()),
+      ipv6: t.Optional(t.String()),
+      cpuCores: t.Integer({ minimum: 1 }),
+      cpuModel: t.Optional(t.String()),
+      arch: t.Optional(t.String()),
+      memoryTotal: t.Integer({ minimum: 0 }),
+      diskTotal: t.Integer({ minimum: 0 }),
+      os: t.Optional(t.String()),
+      osVersion: t.Optional(t.String()),
+      kernel: t.Optional(t.String()),
+      virtualization: t.Optional(t.String()),
+      interfaces: t.Optional(
+        t.Array(
+          t.Object({
+            name: t.String(),
+            mac: t.Optional(t.String()),
+            addresses: t.Optional(t.Array(t.String())),
+            speed: t.Optional(t.Integer({ minimum: 0 })),
+          })
+        )
+      ),
+      agentVersion: t.Optional(t.String()),
+    }),
+  })
+  // Backfill GeoIP data for the fleet
+  .post('/enrich', async ({ body }) => {
+    try {
+      const summary = await enrichAllHosts(body?.missingOnly ?? false);
+      return successResponse(summary);
+    } catch (error: any) {
+      if (error.message.includes('not configured')) {
+        return errorResponse(ErrorCodes.GEOIP_UNAVAILABLE, error.message);
+      }
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to enrich hosts', error);
+    }
+  }, {
+    detail: {
+      tags: ['Host'],
+      summary: 'Enrich hosts',
+      description: 'Fill in region, city, ASN and ISP of hosts from the local GeoIP databases',
+    },
+    body: t.Optional(
+      t.Object({
+        missingOnly: t.Optional(t.Boolean()),
+      })
+    ),
+  })
   // Update host
   .patch('/:id', async ({ params, body }) => {
     try {
@@ -102,16 +594,28 @@ export const hostRoutes = new Elysia({ prefix: '/hosts' })
         return errorResponse(ErrorCodes.HOST_NOT_FOUND, `Host with ID ${params.id} not found`);
       }
       return successResponse(host);
-    } catch (error) {
+    } catch (error: any) {
+      if (error.message.includes('Invalid port')) {
+        return errorResponse(ErrorCodes.INVALID_REQUEST, error.message);
+      }
       return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to update host', error);
     }
   }, {
     detail: {
       tags: ['Host'],
       summary: 'Update host',
-      description: 'Update host information',
+      description: 'Update host metrics, traffic quota and inventory details (alias, provider, plan, price, tags...)',
     },
     body: t.Object({
+      alias: t.Optional(t.Nullable(t.String({ maxLength: 100 }))),
+      provider: t.Optional(t.Nullable(t.String({ maxLength: 100 }))),
+      plan: t.Optional(t.Nullable(t.String({ maxLength: 100 }))),
+      price: t.Optional(t.Nullable(t.Number({ minimum: 0 }))),
+      currency: t.Optional(t.Nullable(t.String({ pattern: '^[A-Za-z]{3}$' }))),
+      purchasedAt: t.Optional(t.Nullable(t.Integer())),
+      expiresAt: t.Optional(t.Nullable(t.Integer())),
+      tags: t.Optional(t.Array(t.String({ maxLength: 50 }))),
+      notes: t.Optional(t.Nullable(t.String())),
       cpuUsage: t.Optional(t.Number()),
       memoryUsed: t.Optional(t.Number()),
       diskUsed: t.Optional(t.Number()),
@@ -120,6 +624,15 @@ export const hostRoutes = new Elysia({ prefix: '/hosts' })
       status: t.Optional(t.String()),
       uptime: t.Optional(t.Integer()),
       lastHeartbeat: t.Optional(t.Integer()),
+      trafficQuota: t.Optional(t.Nullable(t.Integer({ minimum: 0 }))),
+      portSpeed: t.Optional(t.Nullable(t.Integer({ minimum: 1 }))),
+      portRangeStart: t.Optional(t.Nullable(t.Integer({ minimum: 1, maximum: 65535 }))),
+      portRangeEnd: t.Optional(t.Nullable(t.Integer({ minimum: 1, maximum: 65535 }))),
+      reservedPorts: t.Optional(t.Nullable(t.String({ maxLength: 1000 }))),
+      quotaResetDay: t.Optional(t.Integer({ minimum: 1, maximum: 31 })),
+      quotaMode: t.Optional(
+        t.Union([t.Literal('upload'), t.Literal('download'), t.Literal('both'), t.Literal('max')])
+      ),
     }),
   })
   // Delete host
@@ -130,30 +643,204 @@ export const hostRoutes = new Elysia({ prefix: '/hosts' })
         return errorResponse(ErrorCodes.HOST_NOT_FOUND, `Host with ID ${params.id} not found`);
       }
       return successResponse({ message: 'Host deleted successfully' });
-    } catch (error) {
+    } catch (error: any) {
+      if (error.message.includes('linked nodes')) {
+        return errorResponse(ErrorCodes.INVALID_REQUEST, error.message);
+      }
       return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to delete host', error);
     }
   }, {
     detail: {
       tags: ['Host'],
       summary: 'Delete host',
-      description: 'Delete a host',
+      description: 'Delete a host without linked nodes; use decommission for hosts still serving nodes',
+    },
+  })
+  // Preview host decommission
+  .get('/:id/decommission', async ({ params, query }) => {
+    try {
+      const plan = await decommissionHost(Number(params.id), { ...query, dryRun: true });
+      return successResponse(plan);
+    } catch (error: any) {
+      return decommissionError(error);
+    }
+  }, {
+    detail: {
+      tags: ['Host'],
+      summary: 'Preview host decommission',
+      description:
+        'Dry run of a decommission: the nodes, DNS records and metrics it would move, change or archive. Nodes ' +
+        'whose ports are taken on reassignTo carry a portConflict',
+    },
+    query: t.Object({
+      reassignTo: t.Optional(t.Numeric()),
+      dnsAction: t.Optional(t.Union([t.Literal('delete'), t.Literal('repoint')])),
+    }),
+  })
+  // Decommission host
+  .post('/:id/decommission', async ({ params, body, principal }) => {
+    try {
+      const result = await decommissionHost(Number(params.id), body ?? {}, principal?.name || 'anonymous');
+      return successResponse(result);
+    } catch (error: any) {
+      return decommissionError(error);
+    }
+  }, {
+    detail: {
+      tags: ['Host'],
+      summary: 'Decommission host',
+      description:
+        'Retire a host: reassign its nodes to reassignTo or unlink them, repoint their A/AAAA records to the new ' +
+        'host or delete them at the DNS provider, archive the host with its hourly metrics and delete it. ' +
+        'DNS changes are reverted if one fails; database changes run in one transaction. dryRun only returns the ' +
+        'plan. A reassignment that would clash with ports on reassignTo is rejected with PORT_CONFLICT',
+    },
+    body: t.Optional(
+      t.Object({
+        reassignTo: t.Optional(t.Integer()),
+        dnsAction: t.Optional(t.Union([t.Literal('delete'), t.Literal('repoint')])),
+        reason: t.Optional(t.String({ maxLength: 500 })),
+        dryRun: t.Optional(t.Boolean()),
+      })
+    ),
+  })
+  // Rotate host agent token
+  .post('/:id/token/rotate', async ({ params }) => {
+    try {
+      const agentToken = await rotateHostToken(Number(params.id));
+      if (!agentToken) {
+        return errorResponse(ErrorCodes.HOST_NOT_FOUND, `Host with ID ${params.id} not found`);
+      }
+      return successResponse({ hostId: Number(params.id), agentToken });
+    } catch (error) {
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to rotate host token', error);
+    }
+  }, {
+    detail: {
+      tags: ['Host'],
+      summary: 'Rotate host token',
+      description: 'Issue a new agent token for a host and revoke the previous one',
+    },
+  })
+  // Revoke host agent token
+  .delete('/:id/token', async ({ params }) => {
+    try {
+      const revoked = await revokeHostAccess(Number(params.id));
+      if (revoked === null) {
+        return errorResponse(ErrorCodes.HOST_NOT_FOUND, `Host with ID ${params.id} not found`);
+      }
+      return successResponse({ revoked });
+    } catch (error) {
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to revoke host token', error);
+    }
+  }, {
+    detail: {
+      tags: ['Host'],
+      summary: 'Revoke host token',
+      description: 'Revoke the active agent token of a host',
+    },
+  })
+  // List agents connected over the channel
+  .get('/channel/connections', () => {
+    return successResponse(listAgentConnections());
+  }, {
+    detail: {
+      tags: ['Host'],
+      summary: 'List agent connections',
+      description: 'List hosts whose agents are connected over the WebSocket agent channel',
+    },
+  })
+  // Agent channel (persistent connection from VPS nodes)
+  .ws('/channel', {
+    query: t.Object({
+      name: t.String(),
+    }),
+    beforeHandle: async ({ query, request, server, set }) => {
+      try {
+        const host = await authenticateAgent(query.name, request.headers.get(HOST_TOKEN_HEADER));
+        channelHosts.set(request, { host, sourceIp: getClientIp(request, server) });
+      } catch (error: any) {
+        set.status = 401;
+        return errorResponse(ErrorCodes.UNAUTHORIZED, error.message);
+      }
+    },
+    open: async (ws) => {
+      const agent = channelHosts.get(ws.data.request);
+      if (!agent) {
+        ws.close(1008, 'Not authenticated');
+        return;
+      }
+      await openAgentChannel(ws, agent.host, agent.sourceIp);
+    },
+    message: async (ws, message) => {
+      const ack = await handleAgentMessage(ws.id, message as AgentMessage);
+      if (ack) {
+        ws.send(JSON.stringify(ack));
+      }
+    },
+    close: async (ws) => {
+      await closeAgentChannel(ws.id);
+    },
+    detail: {
+      tags: ['Host'],
+      summary: 'Agent channel',
+      description:
+        'WebSocket for agents, authenticated by the X-Host-Token header and the host name in the query. ' +
+        'Agents send heartbeat and metrics messages, each acknowledged by the hub, and acknowledge messages ' +
+        'pushed by the hub. The host is online while connected and marked offline as soon as it disconnects',
     },
   })
   // Heartbeat endpoint (called by VPS nodes)
-  .post('/heartbeat', async ({ body }) => {
+  .post('/heartbeat', async ({ body, request, server, set }) => {
     try {
       const heartbeat = body as HostHeartbeat;
-      const host = await processHeartbeat(heartbeat);
-      return successResponse(host);
-    } catch (error) {
+      const host = await processHeartbeat(
+        heartbeat,
+        {
+          agentToken: request.headers.get(HOST_TOKEN_HEADER),
+          signature: request.headers.get(SIGNATURE_HEADER),
+          rawBody: rawBodies.get(request) || '',
+        },
+        getClientIp(request, server)
+      );
+      // Pending commands ride along with the host record
+      return successResponse({ ...host, commands: await claimHostCommands(host.id) });
+    } catch (error: any) {
+      if (error.message.includes('not found')) {
+        return errorResponse(ErrorCodes.HOST_NOT_FOUND, error.message);
+      }
+      if (error.message.includes('Invalid agent token') || error.message.includes('Heartbeat rejected')) {
+        set.status = 401;
+        return errorResponse(ErrorCodes.UNAUTHORIZED, error.message);
+      }
       return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to process heartbeat', error);
     }
   }, {
     detail: {
       tags: ['Host'],
       summary: 'Host heartbeat',
-      description: 'Called by VPS nodes to report their status',
+      description:
+        'Called by VPS nodes to report their status. Requires the X-Host-Token header and an X-Signature header ' +
+        'holding the hex HMAC-SHA256 of the raw body, keyed with the SHA-256 hex digest of the agent token. ' +
+        'Optional ip/ipv6 fields report the public addresses; otherwise the source address is used. ' +
+        'The response carries the commands queued for the host, each delivered once',
+    },
+    // Keep the exact body bytes so the signature can be verified
+    parse: async ({ request }) => {
+      const rawBody = await request.text();
+      rawBodies.set(request, rawBody);
+      try {
+        return JSON.parse(rawBody);
+      } catch {
+        throw new Error('Heartbeat body is not valid JSON');
+      }
+    },
+    // Elysia wraps errors thrown while parsing, so map them here instead of in the handler
+    error: ({ code, error, set }) => {
+      if (code === 'PARSE') {
+        set.status = 400;
+        return errorResponse(ErrorCodes.INVALID_REQUEST, (error.cause as Error).message);
+      }
     },
     body: t.Object({
       name: t.String(),
@@ -164,6 +851,21 @@ export const hostRoutes = new Elysia({ prefix: '/hosts' })
       downloadTotal: t.Integer(),
       uptime: t.Integer(),
       timestamp: t.Integer(),
+      nonce: t.String({ minLength: 8, maxLength: 128 }),
+      ip: t.Optional(t.String()),
+      ipv6: t.Optional(t.String()),
+      media: t.Optional(
+        t.Array(
+          t.Object({
+            service: t.String({ minLength: 1, maxLength: 64 }),
+            status: t.Union([t.Literal('unlocked'), t.Literal('blocked')]),
+            region: t.Optional(t.String({ maxLength: 16 })),
+            detail: t.Optional(t.String({ maxLength: 200 })),
+            testedAt: t.Optional(t.Integer()),
+          }),
+          { maxItems: 100 }
+        )
+      ),
     }),
   })
   // Get host statistics
@@ -3,19 +3,68 @@
  * Business logic for host management
  */
 
-import { db, hosts, type Host, type NewHost } from '@/db';
-import { eq, and, desc, sql } from 'drizzle-orm';
+import { db, hosts, nodes, type Host, type NewHost } from '@/db';
+import { eq, and, or, desc, like, lt, lte, inArray, sql, type SQL } from 'drizzle-orm';
 import { createLogger } from '@/utils/logger';
-import type { HostInfo, HostUpdate, HostHeartbeat, HostStats } from './model';
+import { recordAudit } from '@/modules/audit/service';
+import { validatePortSettings } from '@/modules/node/ports';
+import { issueHostToken, revokeHostToken, verifyHostToken } from './token';
+import { verifyHeartbeatSignature, assertHeartbeatFresh } from './signature';
+import { recordHostMetric } from './metrics';
+import { accumulateCycleTraffic } from './quota';
+import { computeTrafficDelta, accumulateTraffic, computeRates } from './traffic';
+import { detectIpChanges, applyIpChanges } from './address';
+import { enrichHost } from './geoip';
+import { recordMediaResults } from './media';
+import { recordStatusEvent } from './events';
+import { findHostsInMaintenance } from './maintenance';
+import { isAgentConnected } from './connections';
+import type {
+  HostInfo,
+  HostUpdate,
+  HostQuery,
+  HostHeartbeat,
+  HostSample,
+  HeartbeatAuth,
+  HostStats,
+  HostWithToken,
+} from './model';
 
 const logger = createLogger('HostService');
 
 /**
- * Get all hosts from database
+ * Normalize tags for storage as a comma-separated list
+ * Tags are trimmed, lowercased and deduplicated; commas are not allowed inside a tag
  */
-export async function getAllHosts(): Promise<Host[]> {
+export function normalizeTags(tags: string[]): string | null {
+  const unique = [...new Set(tags.map((tag) => tag.replace(/,/g, ' ').trim().toLowerCase()).filter(Boolean))];
+  return unique.length > 0 ? unique.join(',') : null;
+}
+
+/**
+ * Get all hosts from database, optionally filtered
+ */
+export async function getAllHosts(query: HostQuery = {}): Promise<Host[]> {
   try {
-    const result = await db.select().from(hosts).orderBy(desc(hosts.createdAt));
+    const conditions: SQL[] = [];
+
+    if (query.status) conditions.push(eq(hosts.status, query.status));
+    if (query.region) conditions.push(eq(hosts.region, query.region));
+    if (query.provider) conditions.push(sql`lower(${hosts.provider}) = ${query.provider.toLowerCase()}`);
+    if (query.tag) conditions.push(sql`(',' || ${hosts.tags} || ',') like ${`%,${query.tag.toLowerCase()},%`}`);
+    if (query.expiresBefore !== undefined) conditions.push(lte(hosts.expiresAt, query.expiresBefore));
+    if (query.search) {
+      const pattern = `%${query.search}%`;
+      conditions.push(
+        or(like(hosts.name, pattern), like(hosts.alias, pattern), like(hosts.ip, pattern), like(hosts.notes, pattern))!
+      );
+    }
+
+    const result = await db
+      .select()
+      .from(hosts)
+      .where(and(...conditions))
+      .orderBy(desc(hosts.createdAt));
     return result;
   } catch (error) {
     logger.error('Failed to get all hosts', { error });
@@ -51,14 +100,20 @@ export async function getHostByName(name: string): Promise<Host | null> {
 
 /**
  * Create new host
+ * Issues the host's agent token, returned in plaintext only here
  */
-export async function createHost(hostInfo: HostInfo): Promise<Host> {
+export async function createHost(hostInfo: HostInfo): Promise<HostWithToken> {
   try {
     // Check if host with same name already exists
     const existing = await getHostByName(hostInfo.name);
     if (existing) {
       throw new Error(`Host with name '${hostInfo.name}' already exists`);
     }
+    validatePortSettings({
+      portRangeStart: hostInfo.portRangeStart ?? null,
+      portRangeEnd: hostInfo.portRangeEnd ?? null,
+      reservedPorts: hostInfo.reservedPorts ?? null,
+    });
 
     const now = Math.floor(Date.now() / 1000);
 
@@ -74,7 +129,25 @@ export async function createHost(hostInfo: HostInfo): Promise<Host> {
       diskUsed: hostInfo.diskUsed || null,
       uploadTotal: hostInfo.uploadTotal || 0,
       downloadTotal: hostInfo.downloadTotal || 0,
+      lifetimeUpload: hostInfo.uploadTotal || 0,
+      lifetimeDownload: hostInfo.downloadTotal || 0,
       lastNetworkReset: hostInfo.lastNetworkReset || now,
+      trafficQuota: hostInfo.trafficQuota ?? null,
+      quotaResetDay: hostInfo.quotaResetDay || 1,
+      quotaMode: hostInfo.quotaMode || 'both',
+      portSpeed: hostInfo.portSpeed ?? null,
+      portRangeStart: hostInfo.portRangeStart ?? null,
+      portRangeEnd: hostInfo.portRangeEnd ?? null,
+      reservedPorts: hostInfo.reservedPorts || null,
+      alias: hostInfo.alias || null,
+      provider: hostInfo.provider || null,
+      plan: hostInfo.plan || null,
+      price: hostInfo.price ?? null,
+      currency: hostInfo.currency?.toUpperCase() || null,
+      purchasedAt: hostInfo.purchasedAt ?? null,
+      expiresAt: hostInfo.expiresAt ?? null,
+      tags: hostInfo.tags ? normalizeTags(hostInfo.tags) : null,
+      notes: hostInfo.notes || null,
       region: hostInfo.region || null,
       city: hostInfo.city || null,
       isp: hostInfo.isp || null,
@@ -87,9 +160,10 @@ export async function createHost(hostInfo: HostInfo): Promise<Host> {
 
     const result = await db.insert(hosts).values(newHost).returning();
     const created = result[0];
+    const agentToken = await issueHostToken(created.id);
 
     logger.info(`Created new host: ${created.name} (ID: ${created.id})`);
-    return created;
+    return { ...created, agentToken };
   } catch (error) {
     logger.error('Failed to create host', { error, hostInfo });
     throw error;
@@ -106,12 +180,24 @@ export async function updateHost(id: number, update: HostUpdate): Promise<Host |
       return null;
     }
 
+    validatePortSettings({
+      portRangeStart: update.portRangeStart !== undefined ? update.portRangeStart : existing.portRangeStart,
+      portRangeEnd: update.portRangeEnd !== undefined ? update.portRangeEnd : existing.portRangeEnd,
+      reservedPorts: update.reservedPorts !== undefined ? update.reservedPorts : existing.reservedPorts,
+    });
+
     const now = Math.floor(Date.now() / 1000);
+    const { tags, currency, ...fields } = update;
+    const renewed = update.expiresAt !== undefined && update.expiresAt !== existing.expiresAt;
 
     const result = await db
       .update(hosts)
       .set({
-        ...update,
+        ...fields,
+        ...(tags !== undefined && { tags: normalizeTags(tags) }),
+        ...(currency !== undefined && { currency: currency?.toUpperCase() || null }),
+        // A new expiry date starts the reminder sequence over
+        ...(renewed && { renewalReminderDays: null, renewalNotifiedAt: null }),
         updatedAt: now,
       })
       .where(eq(hosts.id, id))
@@ -126,48 +212,99 @@ export async function updateHost(id: number, update: HostUpdate): Promise<Host |
   }
 }
 
+/**
+ * Apply a verified sample to a host: counters, traffic, addresses, status, metrics and media results
+ * Shared by HTTP heartbeats and the agent channel, which authenticate the agent beforehand
+ */
+export async function applyHeartbeat(
+  host: Host,
+  sample: HostSample,
+  sourceIp: string | null = null,
+  sampledAt: number = Math.floor(Date.now() / 1000)
+): Promise<Host> {
+  const now = Math.floor(Date.now() / 1000);
+
+  // Traffic since the previous sample, surviving agent counter resets
+  const delta = computeTrafficDelta(host, sample);
+  if (delta.counterReset) {
+    logger.info(`Traffic counter reset detected for host: ${host.name}`);
+  }
+
+  // Addresses reported by the agent, or the connection's source address
+  const ipChanges = detectIpChanges(host, sample, sourceIp);
+  const ipv4Change = ipChanges.find((change) => change.family === 'ipv4');
+  const ipv6Change = ipChanges.find((change) => change.family === 'ipv6');
+
+  // Update existing host with sample data
+  const result = await db
+    .update(hosts)
+    .set({
+      cpuUsage: sample.cpuUsage,
+      memoryUsed: sample.memoryUsed,
+      diskUsed: sample.diskUsed,
+      uploadTotal: sample.uploadTotal,
+      downloadTotal: sample.downloadTotal,
+      ...accumulateTraffic(host, sample, delta),
+      ...accumulateCycleTraffic(host, delta, now),
+      ...computeRates(host, delta, sampledAt),
+      ip: ipv4Change?.newIp ?? host.ip,
+      ipv6: ipv6Change?.newIp ?? host.ipv6,
+      uptime: sample.uptime,
+      status: 'online',
+      lastHeartbeat: now,
+      updatedAt: now,
+    })
+    .where(eq(hosts.id, host.id))
+    .returning();
+
+  // Keep the sample for metrics history
+  await recordHostMetric(host.id, sample, delta, sampledAt);
+  await recordStatusEvent(host.id, host.status, 'online', now, now);
+
+  if (sample.media?.length) {
+    await recordMediaResults(host, sample.media, now);
+  }
+
+  let updated = result[0];
+  if (ipChanges.length > 0) {
+    await applyIpChanges(updated, ipChanges, now);
+    // Location and ISP usually change with the address
+    updated = (await enrichHost(updated, now)) ?? updated;
+  }
+
+  return updated;
+}
+
 /**
  * Process host heartbeat
- * Called by VPS nodes to report their status
+ * Called by VPS nodes to report their status, authenticated by the host's agent token
+ * and an HMAC signature over the raw body
  */
-export async function processHeartbeat(heartbeat: HostHeartbeat): Promise<Host> {
+export async function processHeartbeat(
+  heartbeat: HostHeartbeat,
+  auth: HeartbeatAuth,
+  sourceIp: string | null = null
+): Promise<Host> {
   try {
     const host = await getHostByName(heartbeat.name);
-
     if (!host) {
-      // Create new host if doesn't exist
-      logger.info(`Auto-creating new host from heartbeat: ${heartbeat.name}`);
-      return await createHost({
-        name: heartbeat.name,
-        ip: '', // Will be filled by subsequent update
-        cpuCores: 0, // Will be filled by subsequent update
-        memoryTotal: 0,
-        diskTotal: 0,
-        status: 'online',
-        ...heartbeat,
-      });
+      throw new Error(`Host with name '${heartbeat.name}' not found`);
     }
 
-    // Update existing host with heartbeat data
-    const now = Math.floor(Date.now() / 1000);
-    const result = await db
-      .update(hosts)
-      .set({
-        cpuUsage: heartbeat.cpuUsage,
-        memoryUsed: heartbeat.memoryUsed,
-        diskUsed: heartbeat.diskUsed,
-        uploadTotal: heartbeat.uploadTotal,
-        downloadTotal: heartbeat.downloadTotal,
-        uptime: heartbeat.uptime,
-        status: 'online',
-        lastHeartbeat: now,
-        updatedAt: now,
-      })
-      .where(eq(hosts.id, host.id))
-      .returning();
+    if (!(await verifyHostToken(host.id, auth.agentToken))) {
+      throw new Error(`Invalid agent token for host '${heartbeat.name}'`);
+    }
+
+    if (!(await verifyHeartbeatSignature(host.id, auth.rawBody, auth.signature))) {
+      throw new Error('Heartbeat rejected: invalid signature');
+    }
+
+    assertHeartbeatFresh(host.id, heartbeat.timestamp, heartbeat.nonce);
+
+    const updated = await applyHeartbeat(host, heartbeat, sourceIp);
 
     logger.debug(`Processed heartbeat for host: ${host.name}`);
-    return result[0];
+    return updated;
   } catch (error) {
     logger.error(`Failed to process heartbeat for ${heartbeat.name}`, { error });
     throw error;
@@ -179,6 +316,12 @@ export async function processHeartbeat(heartbeat: HostHeartbeat): Promise<Host>
  */
 export async function deleteHost(id: number): Promise<boolean> {
   try {
+    // Nodes would be left pointing at a missing host; decommissioning moves or unlinks them
+    const linked = await db.select({ id: nodes.id }).from(nodes).where(eq(nodes.hostId, id));
+    if (linked.length > 0) {
+      throw new Error(`Host ${id} has ${linked.length} linked nodes; decommission it instead`);
+    }
+
     const result = await db.delete(hosts).where(eq(hosts.id, id)).returning();
     const deleted = result[0];
 
@@ -193,6 +336,34 @@ export async function deleteHost(id: number): Promise<boolean> {
   }
 }
 
+/**
+ * Rotate host agent token
+ * Returns the new plaintext token, or null if the host doesn't exist
+ */
+export async function rotateHostToken(id: number): Promise<string | null> {
+  const host = await getHostById(id);
+  if (!host) {
+    return null;
+  }
+
+  const agentToken = await issueHostToken(id);
+  logger.info(`Rotated agent token for host: ${host.name} (ID: ${host.id})`);
+  return agentToken;
+}
+
+/**
+ * Revoke host agent token
+ * The host can no longer authenticate until a new token is issued
+ */
+export async function revokeHostAccess(id: number): Promise<boolean | null> {
+  const host = await getHostById(id);
+  if (!host) {
+    return null;
+  }
+
+  return await revokeHostToken(id);
+}
+
 /**
  * Get host statistics
  */
@@ -204,9 +375,13 @@ export async function getHostStats(): Promise<HostStats> {
       totalHosts: allHosts.length,
       onlineHosts: 0,
       offlineHosts: 0,
+      maintenanceHosts: 0,
       unknownHosts: 0,
       totalTrafficUpload: 0,
       totalTrafficDownload: 0,
+      throughputUpload: 0,
+      throughputDownload: 0,
+      saturatedHosts: 0,
     };
 
     for (const host of allHosts) {
@@ -214,12 +389,23 @@ export async function getHostStats(): Promise<HostStats> {
         stats.onlineHosts++;
       } else if (host.status === 'offline') {
         stats.offlineHosts++;
+      } else if (host.status === 'maintenance') {
+        stats.maintenanceHosts++;
       } else {
         stats.unknownHosts++;
       }
 
-      stats.totalTrafficUpload += host.uploadTotal || 0;
-      stats.totalTrafficDownload += host.downloadTotal || 0;
+      stats.totalTrafficUpload += host.lifetimeUpload;
+      stats.totalTrafficDownload += host.lifetimeDownload;
+
+      // Rates of silent hosts are stale
+      if (host.status === 'online') {
+        stats.throughputUpload += host.uploadRate;
+        stats.throughputDownload += host.downloadRate;
+      }
+      if (host.saturatedAt !== null) {
+        stats.saturatedHosts++;
+      }
     }
 
     return stats;
@@ -231,24 +417,57 @@ export async function getHostStats(): Promise<HostStats> {
 
 /**
  * Mark offline hosts
- * Marks hosts as offline if they haven't sent heartbeat in specified time
+ * Marks hosts as offline if they haven't sent heartbeat in specified time,
+ * or as in maintenance while a maintenance window covers them.
+ * Hosts connected over the agent channel are online for as long as the connection lasts
  */
 export async function markOfflineHosts(timeoutSeconds: number = 300): Promise<void> {
   try {
     const now = Math.floor(Date.now() / 1000);
     const threshold = now - timeoutSeconds;
 
-    const result = await db
-      .update(hosts)
-      .set({
-        status: 'offline',
-        updatedAt: now,
-      })
-      .where(sql`${hosts.lastHeartbeat} < ${threshold} AND ${hosts.status} = 'online'`)
-      .returning();
+    // Silent hosts, including those already down whose maintenance window may have started or ended
+    const silent = (
+      await db
+        .select()
+        .from(hosts)
+        .where(and(lt(hosts.lastHeartbeat, threshold), inArray(hosts.status, ['online', 'offline', 'maintenance'])))
+    ).filter((host) => !isAgentConnected(host.id));
+    const inMaintenance = await findHostsInMaintenance(silent, now);
+
+    let marked = 0;
+    for (const host of silent) {
+      const status = inMaintenance.has(host.id) ? 'maintenance' : 'offline';
+      if (status === host.status) {
+        continue;
+      }
+
+      // Skip hosts whose heartbeat arrived since they were loaded
+      const result = await db
+        .update(hosts)
+        .set({ status, updatedAt: now })
+        .where(and(eq(hosts.id, host.id), eq(hosts.status, host.status)))
+        .returning();
+      if (!result[0]) {
+        continue;
+      }
+
+      // Outages start when heartbeats stopped; maintenance changes take effect when noticed
+      const changedAt = host.status === 'online' ? (host.lastHeartbeat ?? now) : now;
+      await recordStatusEvent(host.id, host.status, status, changedAt, now);
+      await recordAudit({
+        actor: 'system:monitor',
+        action: `host.mark_${status}`,
+        entityType: 'host',
+        entityId: host.id,
+        before: { status: host.status },
+        after: { status },
+      });
+      marked++;
+    }
 
-    if (result.length > 0) {
-      logger.info(`Marked ${result.length} hosts as offline`);
+    if (marked > 0) {
+      logger.info(`Marked ${marked} hosts as offline or in maintenance`);
     }
   } catch (error) {
     logger.error('Failed to mark offline hosts', { error });
@@ -0,0 +1,102 @@
+/**
+ * Heartbeat signature service
+ * Verifies HMAC-signed heartbeats and rejects stale or replayed ones
+ *
+ * Agents sign the raw request body with HMAC-SHA256 and send the hex digest
+ * in the X-Signature header. The signing key is the SHA-256 hex digest of the
+ * agent token, so the hub can verify without storing the plaintext token.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import config from '@/utils/config';
+import { createLogger } from '@/utils/logger';
+import { getActiveTokenHash, hashHostToken } from './token';
+
+const logger = createLogger('HeartbeatSignature');
+
+/**
+ * Header carrying the heartbeat signature
+ */
+export const SIGNATURE_HEADER = 'x-signature';
+
+// Recently seen nonces, keyed by `${hostId}:${nonce}`, valued by expiry timestamp
+const seenNonces = new Map<string, number>();
+
+/**
+ * Get allowed clock skew in seconds
+ */
+function getMaxSkew(): number {
+  return config.security.heartbeat_max_skew || 300;
+}
+
+/**
+ * Compute HMAC-SHA256 signature with a signing key
+ */
+function computeSignature(rawBody: string, signingKey: string): string {
+  return createHmac('sha256', signingKey).update(rawBody).digest('hex');
+}
+
+/**
+ * Sign a heartbeat body with an agent token (agent side)
+ */
+export function signHeartbeat(rawBody: string, agentToken: string): string {
+  return computeSignature(rawBody, hashHostToken(agentToken));
+}
+
+/**
+ * Verify a heartbeat signature against the host's active token
+ */
+export async function verifyHeartbeatSignature(
+  hostId: number,
+  rawBody: string,
+  signature: string | null
+): Promise<boolean> {
+  if (!signature) {
+    return false;
+  }
+
+  const tokenHash = await getActiveTokenHash(hostId);
+  if (!tokenHash) {
+    return false;
+  }
+
+  const expected = Buffer.from(computeSignature(rawBody, tokenHash), 'hex');
+  const provided = Buffer.from(signature, 'hex');
+
+  return expected.length === provided.length && timingSafeEqual(expected, provided);
+}
+
+/**
+ * Remove nonces that are outside the skew window
+ */
+function pruneNonces(now: number): void {
+  for (const [key, expiresAt] of seenNonces) {
+    if (expiresAt < now) {
+      seenNonces.delete(key);
+    }
+  }
+}
+
+/**
+ * Check heartbeat timestamp and nonce, remembering the nonce on success
+ * Throws if the heartbeat is stale or has been seen before
+ */
+export function assertHeartbeatFresh(hostId: number, timestamp: number, nonce: string): void {
+  const now = Math.floor(Date.now() / 1000);
+  const maxSkew = getMaxSkew();
+
+  if (Math.abs(now - timestamp) > maxSkew) {
+    throw new Error(`Heartbeat rejected: timestamp is outside the allowed skew of ${maxSkew}s`);
+  }
+
+  pruneNonces(now);
+
+  const key = `${hostId}:${nonce}`;
+  if (seenNonces.has(key)) {
+    logger.warn(`Replayed heartbeat nonce for host ${hostId}`);
+    throw new Error('Heartbeat rejected: nonce has already been used');
+  }
+
+  // Any replay after this expiry fails the timestamp check instead
+  seenNonces.set(key, timestamp + maxSkew);
+}
@@ -0,0 +1,140 @@
+/**
+ * Host agent token service
+ * Issues, verifies, rotates and revokes per-host agent secrets
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { db, hostTokens } from '@/db';
+import { eq, and, isNull } from 'drizzle-orm';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('HostToken');
+
+/**
+ * Header carrying the host agent token
+ */
+export const HOST_TOKEN_HEADER = 'x-host-token';
+
+/**
+ * Hash an agent token for storage and lookup
+ */
+export function hashHostToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Issue a new token for a host, revoking any active one
+ * Returns the plaintext token, which is never stored
+ */
+export async function issueHostToken(hostId: number): Promise<string> {
+  try {
+    const token = `nh_${randomBytes(32).toString('base64url')}`;
+    const now = Math.floor(Date.now() / 1000);
+
+    await db
+      .update(hostTokens)
+      .set({ revokedAt: now })
+      .where(and(eq(hostTokens.hostId, hostId), isNull(hostTokens.revokedAt)));
+
+    await db.insert(hostTokens).values({
+      hostId,
+      tokenHash: hashHostToken(token),
+      createdAt: now,
+    });
+
+    logger.info(`Issued agent token for host ${hostId}`);
+    return token;
+  } catch (error) {
+    logger.error(`Failed to issue agent token for host ${hostId}`, { error });
+    throw error;
+  }
+}
+
+/**
+ * Revoke the active token of a host
+ * Returns false if the host had no active token
+ */
+export async function revokeHostToken(hostId: number): Promise<boolean> {
+  try {
+    const now = Math.floor(Date.now() / 1000);
+    const result = await db
+      .update(hostTokens)
+      .set({ revokedAt: now })
+      .where(and(eq(hostTokens.hostId, hostId), isNull(hostTokens.revokedAt)))
+      .returning();
+
+    if (result.length > 0) {
+      logger.info(`Revoked agent token for host ${hostId}`);
+      return true;
+    }
+    return false;
+  } catch (error) {
+    logger.error(`Failed to revoke agent token for host ${hostId}`, { error });
+    throw error;
+  }
+}
+
+/**
+ * Get the stored hash of a host's active token
+ */
+export async function getActiveTokenHash(hostId: number): Promise<string | null> {
+  try {
+    const result = await db
+      .select({ tokenHash: hostTokens.tokenHash })
+      .from(hostTokens)
+      .where(and(eq(hostTokens.hostId, hostId), isNull(hostTokens.revokedAt)))
+      .limit(1);
+    return result[0]?.tokenHash || null;
+  } catch (error) {
+    logger.error(`Failed to get active token for host ${hostId}`, { error });
+    throw error;
+  }
+}
+
+/**
+ * Find the host whose active token this is, or null for unknown and revoked tokens
+ */
+export async function findHostIdByToken(token: string | null | undefined): Promise<number | null> {
+  if (!token) {
+    return null;
+  }
+
+  try {
+    const result = await db
+      .select({ hostId: hostTokens.hostId })
+      .from(hostTokens)
+      .where(and(eq(hostTokens.tokenHash, hashHostToken(token)), isNull(hostTokens.revokedAt)))
+      .limit(1);
+    return result[0]?.hostId ?? null;
+  } catch (error) {
+    logger.error('Failed to look up agent token', { error });
+    throw error;
+  }
+}
+
+/**
+ * Check that a token is the active token of a host
+ */
+export async function verifyHostToken(hostId: number, token: string | null | undefined): Promise<boolean> {
+  if (!token) {
+    return false;
+  }
+
+  try {
+    const result = await db
+      .select({ id: hostTokens.id })
+      .from(hostTokens)
+      .where(
+        and(
+          eq(hostTokens.hostId, hostId),
+          eq(hostTokens.tokenHash, hashHostToken(token)),
+          isNull(hostTokens.revokedAt)
+        )
+      )
+      .limit(1);
+    return result.length > 0;
+  } catch (error) {
+    logger.error(`Failed to verify agent token for host ${hostId}`, { error });
+    throw error;
+  }
+}
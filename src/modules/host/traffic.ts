@@ -0,0 +1,70 @@
+/**
+ * Host traffic accounting
+ * Turns raw agent interface counters into deltas, monotonic lifetime totals and transfer rates
+ */
+
+import type { Host } from '@/db';
+import type { HostSample, TrafficDelta } from './model';
+
+/**
+ * Bytes transferred between two counter readings
+ * A counter lower than before was reset (agent restart or reboot) and counted up from zero
+ */
+export function counterDelta(previous: number, current: number): number {
+  return current >= previous ? current - previous : current;
+}
+
+/**
+ * Compute traffic since the host's previous heartbeat
+ * The first heartbeat from a new host only sets the counter baseline
+ */
+export function computeTrafficDelta(host: Host, heartbeat: HostSample): TrafficDelta {
+  if (host.status === 'unknown') {
+    return { upload: 0, download: 0, counterReset: false };
+  }
+
+  return {
+    upload: counterDelta(host.uploadTotal, heartbeat.uploadTotal),
+    download: counterDelta(host.downloadTotal, heartbeat.downloadTotal),
+    counterReset: heartbeat.uploadTotal < host.uploadTotal || heartbeat.downloadTotal < host.downloadTotal,
+  };
+}
+
+/**
+ * Lifetime and interval traffic columns after a heartbeat
+ * Lifetime totals never drop below the current counter, which covers the first heartbeat
+ */
+export function accumulateTraffic(
+  host: Host,
+  heartbeat: HostSample,
+  delta: TrafficDelta
+): Pick<Host, 'lifetimeUpload' | 'lifetimeDownload' | 'intervalUpload' | 'intervalDownload'> {
+  return {
+    lifetimeUpload: Math.max(host.lifetimeUpload + delta.upload, heartbeat.uploadTotal),
+    lifetimeDownload: Math.max(host.lifetimeDownload + delta.download, heartbeat.downloadTotal),
+    intervalUpload: delta.upload,
+    intervalDownload: delta.download,
+  };
+}
+
+/**
+ * Transfer rates in bytes per second after a sample
+ * Rates span the time since the previous sample; a sample without an earlier one keeps the last rates
+ */
+export function computeRates(
+  host: Host,
+  delta: TrafficDelta,
+  sampledAt: number
+): Pick<Host, 'uploadRate' | 'downloadRate' | 'peakUploadRate' | 'peakDownloadRate' | 'lastSampleAt'> {
+  const elapsed = host.lastSampleAt !== null ? sampledAt - host.lastSampleAt : 0;
+  const uploadRate = elapsed > 0 ? Math.round(delta.upload / elapsed) : host.uploadRate;
+  const downloadRate = elapsed > 0 ? Math.round(delta.download / elapsed) : host.downloadRate;
+
+  return {
+    uploadRate,
+    downloadRate,
+    peakUploadRate: Math.max(host.peakUploadRate, uploadRate),
+    peakDownloadRate: Math.max(host.peakDownloadRate, downloadRate),
+    lastSampleAt: Math.max(host.lastSampleAt ?? 0, sampledAt),
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * Network module data models
+ * Defines interfaces for latency and packet loss probes between hosts
+ */
+
+export type ProbeMethod = 'icmp' | 'tcp';
+
+export interface ProbeTargetInput {
+  name: string;
+  address: string; // IP address or hostname
+  method?: ProbeMethod; // Defaults to icmp
+  port?: number; // Required for tcp
+  enabled?: boolean;
+}
+
+/**
+ * Destination handed to an agent, either another host or a probe target
+ */
+export interface AssignedTarget {
+  targetHostId: number | null;
+  targetId: number | null;
+  name: string;
+  address: string;
+  method: ProbeMethod;
+  port: number | null;
+}
+
+export interface ProbeAssignment {
+  interval: number; // Seconds between probe rounds
+  count: number; // Probes per target in each round
+  targets: AssignedTarget[];
+}
+
+export interface ProbeResultInput {
+  targetHostId?: number; // Either a host...
+  targetId?: number; // ...or a probe target
+  method: ProbeMethod;
+  rttMs: number | null; // Average round trip time, null when every probe was lost
+  lossPercent: number; // 0-100
+  measuredAt?: number; // Unix timestamp, defaults to now
+}
+
+export interface ProbeReport {
+  name: string; // Probing host
+  results: ProbeResultInput[];
+}
+
+export interface MatrixQuery {
+  window?: string; // Period the percentiles cover (e.g. 6h, 7d), defaults to 24h
+}
+
+/**
+ * Latency of one path over the matrix window
+ */
+export interface PathStats {
+  latest: { rttMs: number | null; lossPercent: number; measuredAt: number };
+  p50: number | null; // Round trip time percentiles in milliseconds, over rounds with replies
+  p95: number | null;
+  p99: number | null;
+  avgLossPercent: number;
+  samples: number;
+  degraded: boolean; // The latest round went past a threshold
+}
+
+export interface NetworkMatrixRow {
+  hostId: number;
+  name: string;
+  alias: string | null;
+  region: string | null;
+  hosts: Record<string, PathStats | null>; // By target host name; null when not measured in the window
+  targets: Record<string, PathStats | null>; // By probe target name
+}
+
+export interface NetworkMatrix {
+  from: number; // Unix timestamp
+  to: number; // Unix timestamp
+  thresholds: { rttMs: number; lossPercent: number };
+  hosts: string[]; // Host names, the matrix columns
+  targets: string[]; // Probe target names
+  rows: NetworkMatrixRow[];
+}
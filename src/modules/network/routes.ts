@@ -0,0 +1,167 @@
+/**
+ * Network module routes
+ * API endpoints for latency and packet loss probes between hosts
+ */
+
+import { Elysia, t } from 'elysia';
+import { successResponse, errorResponse, ErrorCodes } from '@/utils/response';
+import { HOST_TOKEN_HEADER } from '@/modules/host/token';
+import {
+  getProbeAssignment,
+  recordProbeResults,
+  getNetworkMatrix,
+  getProbeTargets,
+  createProbeTarget,
+  deleteProbeTarget,
+} from './service';
+
+/**
+ * Map errors of agent probe calls to API errors
+ */
+function probeError(error: any, set: { status?: number | string }, fallback: string) {
+  if (error.message.includes('not found')) {
+    return errorResponse(ErrorCodes.HOST_NOT_FOUND, error.message);
+  }
+  if (error.message.includes('Invalid agent token')) {
+    set.status = 401;
+    return errorResponse(ErrorCodes.UNAUTHORIZED, error.message);
+  }
+  return errorResponse(ErrorCodes.INTERNAL_ERROR, fallback, error);
+}
+
+const probeMethod = t.Union([t.Literal('icmp'), t.Literal('tcp')]);
+
+export const networkRoutes = new Elysia({ prefix: '/network' })
+  // Get probe targets of a host (called by VPS nodes)
+  .get('/probes/targets', async ({ query, request, set }) => {
+    try {
+      const assignment = await getProbeAssignment(query.name, request.headers.get(HOST_TOKEN_HEADER));
+      return successResponse(assignment);
+    } catch (error: any) {
+      return probeError(error, set, 'Failed to get probe targets');
+    }
+  }, {
+    detail: {
+      tags: ['Network'],
+      summary: 'Get probe targets',
+      description:
+        'Called by the agent to learn what to probe: every other host and the enabled probe targets, with the ' +
+        'probe interval and count. Requires the X-Host-Token header',
+    },
+    query: t.Object({
+      name: t.String(),
+    }),
+  })
+  // Report probe results (called by VPS nodes)
+  .post('/probes', async ({ body, request, set }) => {
+    try {
+      const recorded = await recordProbeResults(body, request.headers.get(HOST_TOKEN_HEADER));
+      return successResponse({ recorded });
+    } catch (error: any) {
+      return probeError(error, set, 'Failed to record probe results');
+    }
+  }, {
+    detail: {
+      tags: ['Network'],
+      summary: 'Report probe results',
+      description:
+        'Called by the agent after a probe round with the average RTT (null when every probe was lost) and loss ' +
+        'per target. Requires the X-Host-Token header. Results already stored are skipped, and a Telegram alert ' +
+        'is sent when a path goes past the configured thresholds',
+    },
+    body: t.Object({
+      name: t.String(),
+      results: t.Array(
+        t.Object({
+          targetHostId: t.Optional(t.Integer()),
+          targetId: t.Optional(t.Integer()),
+          method: probeMethod,
+          rttMs: t.Nullable(t.Number({ minimum: 0 })),
+          lossPercent: t.Number({ minimum: 0, maximum: 100 }),
+          measuredAt: t.Optional(t.Integer()),
+        }),
+        { maxItems: 1000 }
+      ),
+    }),
+  })
+  // Get latency matrix
+  .get('/matrix', async ({ query }) => {
+    try {
+      const matrix = await getNetworkMatrix(query);
+      return successResponse(matrix);
+    } catch (error: any) {
+      if (error.message.includes('Invalid duration')) {
+        return errorResponse(ErrorCodes.INVALID_REQUEST, error.message);
+      }
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to get network matrix', error);
+    }
+  }, {
+    detail: {
+      tags: ['Network'],
+      summary: 'Get latency matrix',
+      description:
+        'Latest round and p50/p95/p99 RTT with average loss for every pair of hosts and from each host to the ' +
+        'probe targets, over window (default 24h). Paths whose latest round went past a threshold are degraded',
+    },
+    query: t.Object({
+      window: t.Optional(t.String()),
+    }),
+  })
+  // List probe targets
+  .get('/targets', async () => {
+    try {
+      const targets = await getProbeTargets();
+      return successResponse(targets);
+    } catch (error) {
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to get probe targets', error);
+    }
+  }, {
+    detail: {
+      tags: ['Network'],
+      summary: 'List probe targets',
+      description: 'List destinations probed by every host in addition to the other hosts',
+    },
+  })
+  // Create probe target
+  .post('/targets', async ({ body }) => {
+    try {
+      const target = await createProbeTarget(body);
+      return successResponse(target);
+    } catch (error: any) {
+      if (error.message.includes('already exists') || error.message.includes('Invalid probe target')) {
+        return errorResponse(ErrorCodes.INVALID_REQUEST, error.message);
+      }
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to create probe target', error);
+    }
+  }, {
+    detail: {
+      tags: ['Network'],
+      summary: 'Create probe target',
+      description: 'Add a destination every host probes, by ping (icmp) or TCP connect (tcp, needs a port)',
+    },
+    body: t.Object({
+      name: t.String({ minLength: 1, maxLength: 64 }),
+      address: t.String({ minLength: 1, maxLength: 253 }),
+      method: t.Optional(probeMethod),
+      port: t.Optional(t.Integer({ minimum: 1, maximum: 65535 })),
+      enabled: t.Optional(t.Boolean()),
+    }),
+  })
+  // Delete probe target
+  .delete('/targets/:id', async ({ params }) => {
+    try {
+      const deleted = await deleteProbeTarget(Number(params.id));
+      if (!deleted) {
+        return errorResponse(ErrorCodes.NOT_FOUND, `Probe target with ID ${params.id} not found`);
+      }
+      return successResponse({ message: 'Probe target deleted successfully' });
+    } catch (error) {
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to delete probe target', error);
+    }
+  }, {
+    detail: {
+      tags: ['Network'],
+      summary: 'Delete probe target',
+      description: 'Delete a probe target and its results',
+    },
+  });
@@ -0,0 +1,380 @@
+/**
+ * Network module service
+ * Assigns probe targets to agents, stores their latency and loss results and builds the host matrix
+ */
+
+import { db, hosts, probeTargets, probeResults, type ProbeResult, type ProbeTarget } from '@/db';
+import { eq, and, ne, gte, lt, lte, asc, desc, isNull } from 'drizzle-orm';
+import config from '@/utils/config';
+import { createLogger } from '@/utils/logger';
+import { parseDuration } from '@/utils/duration';
+import { notifyPathsDegraded } from '@/utils/telegram';
+import { getHostByName } from '@/modules/host/service';
+import { verifyHostToken } from '@/modules/host/token';
+import type {
+  AssignedTarget,
+  MatrixQuery,
+  NetworkMatrix,
+  NetworkMatrixRow,
+  PathStats,
+  ProbeAssignment,
+  ProbeMethod,
+  ProbeReport,
+  ProbeTargetInput,
+} from './model';
+
+const logger = createLogger('NetworkService');
+
+const DAY_SECONDS = 86400;
+
+// Matrix period when no window is given
+const DEFAULT_WINDOW = '24h';
+
+/**
+ * Get the thresholds past which a path is degraded
+ */
+export function getThresholds(): { rttMs: number; lossPercent: number } {
+  return {
+    rttMs: config.network?.rtt_threshold_ms ?? 300,
+    lossPercent: config.network?.loss_threshold_percent ?? 5,
+  };
+}
+
+/**
+ * Check whether a probe round went past the thresholds
+ */
+export function isDegraded(
+  round: Pick<ProbeResult, 'rttMs' | 'lossPercent'>,
+  thresholds: { rttMs: number; lossPercent: number } = getThresholds()
+): boolean {
+  return round.rttMs === null || round.rttMs > thresholds.rttMs || round.lossPercent > thresholds.lossPercent;
+}
+
+/**
+ * Get a percentile of sorted values (nearest rank)
+ */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) {
+    return null;
+  }
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+}
+
+/**
+ * Authenticate the agent of a probing host
+ */
+async function getProbingHost(name: string, agentToken: string | null) {
+  const host = await getHostByName(name);
+  if (!host) {
+    throw new Error(`Host with name '${name}' not found`);
+  }
+  if (!(await verifyHostToken(host.id, agentToken))) {
+    throw new Error(`Invalid agent token for host '${name}'`);
+  }
+  return host;
+}
+
+/**
+ * Get what an agent should probe: every other host plus the enabled probe targets
+ */
+export async function getProbeAssignment(name: string, agentToken: string | null): Promise<ProbeAssignment> {
+  try {
+    const host = await getProbingHost(name, agentToken);
+
+    const peers = await db.select().from(hosts).where(ne(hosts.id, host.id)).orderBy(asc(hosts.name));
+    const targets = await db
+      .select()
+      .from(probeTargets)
+      .where(eq(probeTargets.enabled, true))
+      .orderBy(asc(probeTargets.name));
+
+    const assigned: AssignedTarget[] = [
+      ...peers.map((peer) => ({
+        targetHostId: peer.id,
+        targetId: null,
+        name: peer.name,
+        address: peer.ip,
+        method: 'icmp' as ProbeMethod,
+        port: null,
+      })),
+      ...targets.map((target) => ({
+        targetHostId: null,
+        targetId: target.id,
+        name: target.name,
+        address: target.address,
+        method: target.method as ProbeMethod,
+        port: target.port,
+      })),
+    ];
+
+    return {
+      interval: config.network?.probe_interval ?? 300,
+      count: config.network?.probe_count ?? 10,
+      targets: assigned,
+    };
+  } catch (error) {
+    logger.error(`Failed to get probe targets for ${name}`, { error });
+    throw error;
+  }
+}
+
+/**
+ * Store probe results reported by an agent
+ * Results for unknown targets, or not newer than the latest one stored for their path, are skipped
+ * so agents may resend a round. Paths that turn degraded, or start out degraded, are alerted on once
+ */
+export async function recordProbeResults(
+  report: ProbeReport,
+  agentToken: string | null,
+  now = Math.floor(Date.now() / 1000)
+): Promise<number> {
+  try {
+    const host = await getProbingHost(report.name, agentToken);
+    const thresholds = getThresholds();
+    const peers = new Map((await db.select().from(hosts)).map((peer) => [peer.id, peer.name]));
+    const targets = new Map((await db.select().from(probeTargets)).map((target) => [target.id, target.name]));
+
+    const degraded: { target: string; rttMs: number | null; lossPercent: number }[] = [];
+    let recorded = 0;
+
+    for (const result of report.results) {
+      const toHost = result.targetHostId !== undefined;
+      if (toHost === (result.targetId !== undefined)) {
+        continue;
+      }
+      const targetName = toHost ? peers.get(result.targetHostId!) : targets.get(result.targetId!);
+      if (!targetName || (toHost && result.targetHostId === host.id)) {
+        logger.debug(`Skipping probe result from ${host.name} for an unknown target`);
+        continue;
+      }
+
+      const measuredAt = Math.min(result.measuredAt ?? now, now);
+      const [latest] = await db
+        .select()
+        .from(probeResults)
+        .where(
+          and(
+            eq(probeResults.hostId, host.id),
+            toHost ? eq(probeResults.targetHostId, result.targetHostId!) : isNull(probeResults.targetHostId),
+            toHost ? isNull(probeResults.targetId) : eq(probeResults.targetId, result.targetId!)
+          )
+        )
+        .orderBy(desc(probeResults.measuredAt))
+        .limit(1);
+      if (latest && latest.measuredAt >= measuredAt) {
+        continue;
+      }
+
+      const round = { rttMs: result.rttMs, lossPercent: Math.min(Math.max(result.lossPercent, 0), 100) };
+      await db.insert(probeResults).values({
+        hostId: host.id,
+        targetHostId: result.targetHostId ?? null,
+        targetId: result.targetId ?? null,
+        method: result.method,
+        ...round,
+        measuredAt,
+      });
+
+      // A path without an earlier round counts as healthy, so one that starts out degraded is alerted on
+      const wasDegraded = latest ? isDegraded(latest, thresholds) : false;
+      if (!wasDegraded && isDegraded(round, thresholds)) {
+        logger.warn(`Path ${host.name} -> ${targetName} degraded`);
+        degraded.push({ target: targetName, ...round });
+      }
+      recorded++;
+    }
+
+    if (degraded.length > 0) {
+      void notifyPathsDegraded(host.name, degraded, thresholds);
+    }
+    return recorded;
+  } catch (error) {
+    logger.error(`Failed to record probe results from ${report.name}`, { error });
+    throw error;
+  }
+}
+
+/**
+ * Summarize the rounds of one path, oldest first
+ */
+export function summarizePath(
+  rounds: Pick<ProbeResult, 'rttMs' | 'lossPercent' | 'measuredAt'>[],
+  thresholds = getThresholds()
+): PathStats | null {
+  const latest = rounds[rounds.length - 1];
+  if (!latest) {
+    return null;
+  }
+
+  const rtts = rounds
+    .map((round) => round.rttMs)
+    .filter((rtt): rtt is number => rtt !== null)
+    .sort((a, b) => a - b);
+  const totalLoss = rounds.reduce((sum, round) => sum + round.lossPercent, 0);
+
+  return {
+    latest: { rttMs: latest.rttMs, lossPercent: latest.lossPercent, measuredAt: latest.measuredAt },
+    p50: percentile(rtts, 50),
+    p95: percentile(rtts, 95),
+    p99: percentile(rtts, 99),
+    avgLossPercent: Math.round((totalLoss / rounds.length) * 100) / 100,
+    samples: rounds.length,
+    degraded: isDegraded(latest, thresholds),
+  };
+}
+
+/**
+ * Build the matrix of paths between every pair of hosts, and from each host to the probe targets
+ */
+export async function getNetworkMatrix(
+  query: MatrixQuery = {},
+  now = Math.floor(Date.now() / 1000)
+): Promise<NetworkMatrix> {
+  const window = parseDuration(query.window ?? DEFAULT_WINDOW);
+  if (window === null || window <= 0) {
+    throw new Error(`Invalid duration: ${query.window}`);
+  }
+
+  try {
+    const from = now - window;
+    const thresholds = getThresholds();
+    const allHosts = await db.select().from(hosts).orderBy(asc(hosts.name));
+    const targets = await db.select().from(probeTargets).orderBy(asc(probeTargets.name));
+    const rounds = await db
+      .select({
+        hostId: probeResults.hostId,
+        targetHostId: probeResults.targetHostId,
+        targetId: probeResults.targetId,
+        rttMs: probeResults.rttMs,
+        lossPercent: probeResults.lossPercent,
+        measuredAt: probeResults.measuredAt,
+      })
+      .from(probeResults)
+      .where(and(gte(probeResults.measuredAt, from), lte(probeResults.measuredAt, now)))
+      .orderBy(asc(probeResults.measuredAt), asc(probeResults.id));
+
+    // Group rounds by path
+    const paths = new Map<string, typeof rounds>();
+    for (const round of rounds) {
+      const key = `${round.hostId}:${round.targetHostId !== null ? `h${round.targetHostId}` : `t${round.targetId}`}`;
+      const path = paths.get(key);
+      if (path) {
+        path.push(round);
+      } else {
+        paths.set(key, [round]);
+      }
+    }
+    const stats = (key: string) => summarizePath(paths.get(key) ?? [], thresholds);
+
+    const rows: NetworkMatrixRow[] = allHosts.map((host) => ({
+      hostId: host.id,
+      name: host.name,
+      alias: host.alias,
+      region: host.region,
+      hosts: Object.fromEntries(
+        allHosts.filter((peer) => peer.id !== host.id).map((peer) => [peer.name, stats(`${host.id}:h${peer.id}`)])
+      ),
+      targets: Object.fromEntries(targets.map((target) => [target.name, stats(`${host.id}:t${target.id}`)])),
+    }));
+
+    return {
+      from,
+      to: now,
+      thresholds,
+      hosts: allHosts.map((host) => host.name),
+      targets: targets.map((target) => target.name),
+      rows,
+    };
+  } catch (error) {
+    logger.error('Failed to build network matrix', { error });
+    throw error;
+  }
+}
+
+/**
+ * List probe targets
+ */
+export async function getProbeTargets(): Promise<ProbeTarget[]> {
+  try {
+    return await db.select().from(probeTargets).orderBy(asc(probeTargets.name));
+  } catch (error) {
+    logger.error('Failed to get probe targets', { error });
+    throw error;
+  }
+}
+
+/**
+ * Add a probe target
+ */
+export async function createProbeTarget(input: ProbeTargetInput): Promise<ProbeTarget> {
+  const method = input.method ?? 'icmp';
+  if (method === 'tcp' && !input.port) {
+    throw new Error('Invalid probe target: tcp probes need a port');
+  }
+
+  try {
+    const existing = await db.select().from(probeTargets).where(eq(probeTargets.name, input.name)).limit(1);
+    if (existing[0]) {
+      throw new Error(`Probe target '${input.name}' already exists`);
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const result = await db
+      .insert(probeTargets)
+      .values({
+        name: input.name,
+        address: input.address,
+        method,
+        port: method === 'tcp' ? input.port! : null,
+        enabled: input.enabled ?? true,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+
+    logger.info(`Created probe target: ${input.name} (${input.address})`);
+    return result[0];
+  } catch (error) {
+    logger.error(`Failed to create probe target ${input.name}`, { error });
+    throw error;
+  }
+}
+
+/**
+ * Delete a probe target and its results
+ */
+export async function deleteProbeTarget(id: number): Promise<boolean> {
+  try {
+    const result = await db.delete(probeTargets).where(eq(probeTargets.id, id)).returning();
+    if (result[0]) {
+      logger.info(`Deleted probe target: ${result[0].name}`);
+      return true;
+    }
+    return false;
+  } catch (error) {
+    logger.error(`Failed to delete probe target ${id}`, { error });
+    throw error;
+  }
+}
+
+/**
+ * Delete probe results older than the retention period
+ */
+export async function pruneProbeResults(now = Math.floor(Date.now() / 1000)): Promise<number> {
+  try {
+    const cutoff = now - (config.network?.retention_days ?? 14) * DAY_SECONDS;
+    const result = await db
+      .delete(probeResults)
+      .where(lt(probeResults.measuredAt, cutoff))
+      .returning({ id: probeResults.id });
+
+    if (result.length > 0) {
+      logger.info(`Pruned ${result.length} expired probe results`);
+    }
+    return result.length;
+  } catch (error) {
+    logger.error('Failed to prune probe results', { error });
+    throw error;
+  }
+}
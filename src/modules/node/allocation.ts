@@ -0,0 +1,189 @@
+/**
+ * Node allocation
+ * Places a panel node on the least loaded online host with a free port and a domain under the default domain
+ */
+
+import { db, hosts, nodes, type Host } from '@/db';
+import { eq } from 'drizzle-orm';
+import config from '@/utils/config';
+import { createLogger } from '@/utils/logger';
+import { notifyDnsUpdateFailed } from '@/utils/telegram';
+import { getDnsWorker } from '@/workers/dns';
+import { findHostsInMaintenance } from '@/modules/host/maintenance';
+import type { DnsUpdateRequest } from '@/modules/dns/model';
+import { createNode, getNodeByPanelId } from './service';
+import { getTakenPorts, getPortRange, pickFreePort } from './ports';
+import type { AllocatedNode, NodeAllocationRequest } from './model';
+
+const logger = createLogger('NodeAllocation');
+
+/**
+ * Candidate host with what the ranking needs
+ */
+interface HostLoad {
+  host: Host;
+  nodeCount: number;
+  takenPorts: Set<number>;
+}
+
+/**
+ * Turn a node name into a DNS label
+ */
+export function toDnsLabel(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, 63)
+    .replace(/-$/, '');
+}
+
+/**
+ * Order candidate hosts, least loaded first
+ * Fewer nodes wins, then lower CPU usage, then lower memory usage
+ */
+export function rankHosts<T extends { host: Pick<Host, 'cpuUsage' | 'memoryUsed' | 'memoryTotal'>; nodeCount: number }>(
+  candidates: T[]
+): T[] {
+  const memoryShare = (host: Pick<Host, 'memoryUsed' | 'memoryTotal'>) =>
+    host.memoryTotal > 0 ? (host.memoryUsed ?? 0) / host.memoryTotal : 0;
+
+  return [...candidates].sort(
+    (a, b) =>
+      a.nodeCount - b.nodeCount ||
+      (a.host.cpuUsage ?? 0) - (b.host.cpuUsage ?? 0) ||
+      memoryShare(a.host) - memoryShare(b.host)
+  );
+}
+
+/**
+ * Check whether another node already uses a domain
+ */
+async function isDomainTaken(domain: string): Promise<boolean> {
+  const result = await db.select({ id: nodes.id }).from(nodes).where(eq(nodes.domain, domain)).limit(1);
+  return result.length > 0;
+}
+
+/**
+ * Pick the node domain: the preferred one when free, otherwise a label under the default domain
+ */
+async function pickDomain(request: NodeAllocationRequest): Promise<string> {
+  if (request.preferredDomain) {
+    const preferred = request.preferredDomain.toLowerCase();
+    if (!(await isDomainTaken(preferred))) {
+      return preferred;
+    }
+    logger.info(`Preferred domain ${preferred} is taken, picking one under the default domain`);
+  }
+
+  const baseDomain = config.defaults?.default_domain;
+  if (!baseDomain) {
+    throw new Error('Invalid allocation: defaults.default_domain is not set and no free preferredDomain was given');
+  }
+
+  const label = toDnsLabel(request.name) || `${request.panelType}-${request.panelNodeId}`;
+  for (let suffix = 1; ; suffix++) {
+    const domain = `${suffix === 1 ? label : `${label}-${suffix}`}.${baseDomain}`;
+    if (!(await isDomainTaken(domain))) {
+      return domain;
+    }
+  }
+}
+
+/**
+ * Get online hosts that can take a node, least loaded first
+ * Hosts in maintenance, with a saturated port or without a free port in their range are left out
+ */
+async function getCandidateHosts(region?: string): Promise<HostLoad[]> {
+  const online = (await db.select().from(hosts).where(eq(hosts.status, 'online'))).filter(
+    (host) => host.saturatedAt === null && (!region || host.region?.toLowerCase() === region.toLowerCase())
+  );
+  const inMaintenance = await findHostsInMaintenance(online);
+
+  const candidates: HostLoad[] = [];
+  for (const host of online) {
+    if (inMaintenance.has(host.id)) {
+      continue;
+    }
+    const nodeCount = (await db.select({ id: nodes.id }).from(nodes).where(eq(nodes.hostId, host.id))).length;
+    const takenPorts = await getTakenPorts(host);
+    if (pickFreePort(takenPorts, getPortRange(host)) === null) {
+      continue;
+    }
+    candidates.push({ host, nodeCount, takenPorts });
+  }
+
+  return rankHosts(candidates);
+}
+
+/**
+ * Queue the A and AAAA records of a new node in the background
+ */
+function queueNodeDns(nodeId: number, domain: string, host: Host): DnsUpdateRequest[] {
+  const updates: DnsUpdateRequest[] = [{ nodeId, domain, type: 'A', value: host.ip }];
+  if (host.ipv6) {
+    updates.push({ nodeId, domain, type: 'AAAA', value: host.ipv6 });
+  }
+
+  const worker = getDnsWorker();
+  for (const update of updates) {
+    void worker.addUpdateTask(update).then((success) => {
+      if (!success) {
+        void notifyDnsUpdateFailed(update.domain, `Could not point ${update.type} record to ${update.value}`);
+      }
+    });
+  }
+  return updates;
+}
+
+/**
+ * Allocate a panel node: pick a host, port and domain, create the node and queue its DNS records
+ * The preferred port and domain are used when free; baseUrl is the hub address for the config URL
+ */
+export async function allocateNode(request: NodeAllocationRequest, baseUrl: string): Promise<AllocatedNode> {
+  try {
+    const existing = await getNodeByPanelId(request.panelType, request.panelNodeId);
+    if (existing) {
+      throw new Error(`Node for ${request.panelType} panel node ${request.panelNodeId} already exists`);
+    }
+
+    const domain = await pickDomain(request);
+
+    const [chosen] = await getCandidateHosts(request.region);
+    if (!chosen) {
+      throw new Error(
+        request.region ? `No available host found in region '${request.region}'` : 'No available host found'
+      );
+    }
+
+    const port =
+      request.preferredPort && !chosen.takenPorts.has(request.preferredPort)
+        ? request.preferredPort
+        : pickFreePort(chosen.takenPorts, getPortRange(chosen.host))!;
+
+    const node = await createNode({
+      panelType: request.panelType,
+      panelNodeId: request.panelNodeId,
+      panelUrl: request.panelUrl,
+      name: request.name,
+      hostId: chosen.host.id,
+      domain,
+      port,
+      proxyType: request.proxyType,
+      rateLimit: request.rateLimit,
+    });
+    const queued = queueNodeDns(node.id, domain, chosen.host);
+
+    logger.info(`Allocated node ${node.name} on host ${chosen.host.name} (${domain}:${port})`);
+    return {
+      ...node,
+      host: { id: chosen.host.id, name: chosen.host.name, ip: chosen.host.ip, region: chosen.host.region },
+      dnsQueued: queued.map((update) => `${update.domain} (${update.type})`),
+      configUrl: new URL(`/config/node/${node.id}/xray`, baseUrl).toString(),
+    };
+  } catch (error) {
+    logger.error(`Failed to allocate node ${request.name}`, { error });
+    throw error;
+  }
+}
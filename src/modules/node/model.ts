@@ -3,6 +3,8 @@
  * Defines interfaces for node-related data structures
  */
 
+import type { Node } from '@/db';
+
 export interface NodeInfo {
   panelType: 'ssp' | 'srp';
   panelNodeId: number;
@@ -44,10 +46,37 @@ export interface NodeAllocationRequest {
   name: string;
   preferredDomain?: string;
   preferredPort?: number;
+  region?: string; // Only consider hosts in this region
   proxyType: string;
   rateLimit?: string;
 }
 
+/**
+ * Node created by automatic allocation
+ */
+export interface AllocatedNode extends Node {
+  host: { id: number; name: string; ip: string; region: string | null };
+  dnsQueued: string[]; // Records queued, e.g. node-1.example.com (A)
+  configUrl: string; // Xray config download for the host's agent
+}
+
+export interface PortRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Ports of a host, as shown by GET /hosts/:id/ports
+ */
+export interface HostPorts {
+  hostId: number;
+  range: PortRange; // Ports allocated nodes are picked from
+  reserved: number[];
+  used: { port: number; nodeId: number; nodeName: string; main: boolean }[]; // main: the node's main port
+  free: number; // Ports left in the range
+  nextFree: number | null; // Port the next allocated node would get
+}
+
 export interface NodeStats {
   totalNodes: number;
   activeNodes: number;
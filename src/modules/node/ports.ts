@@ -0,0 +1,224 @@
+/**
+ * Node ports
+ * Tracks the ports taken by nodes on each host, rejects conflicts and picks free ports
+ */
+
+import { db, hosts, nodes, type Host, type Node } from '@/db';
+import { eq } from 'drizzle-orm';
+import config from '@/utils/config';
+import type { HostPorts, PortRange } from './model';
+
+// Used when config.toml has no node port range
+const DEFAULT_PORT_START = 10000;
+const DEFAULT_PORT_END = 60000;
+
+/**
+ * Split a comma-separated port list such as "443, 8443-8445" into ports and unparsable entries
+ */
+function splitPortList(value: string | null | undefined): { ports: number[]; invalid: string[] } {
+  const ports: number[] = [];
+  const invalid: string[] = [];
+
+  for (const entry of (value ?? '').split(',').map((part) => part.trim())) {
+    if (!entry) {
+      continue;
+    }
+    const match = entry.match(/^(\d+)(?:\s*-\s*(\d+))?$/);
+    const start = match ? Number(match[1]) : 0;
+    const end = match?.[2] !== undefined ? Number(match[2]) : start;
+    if (start < 1 || end > 65535 || start > end) {
+      invalid.push(entry);
+      continue;
+    }
+    for (let port = start; port <= end; port++) {
+      ports.push(port);
+    }
+  }
+  return { ports, invalid };
+}
+
+/**
+ * Parse a comma-separated port list such as "443, 8443-8445"
+ * Entries that are not ports or port ranges are skipped
+ */
+export function parsePortList(value: string | null | undefined): number[] {
+  return splitPortList(value).ports;
+}
+
+/**
+ * Parse a port list, rejecting entries that are not ports or port ranges
+ */
+export function validatePortList(value: string | null | undefined): number[] {
+  const { ports, invalid } = splitPortList(value);
+  if (invalid.length > 0) {
+    throw new Error(`Invalid port list: '${invalid.join("', '")}' is not a port or port range`);
+  }
+  return ports;
+}
+
+/**
+ * Check a host's port range and reserved ports
+ */
+export function validatePortSettings(host: Pick<Host, 'portRangeStart' | 'portRangeEnd' | 'reservedPorts'>): void {
+  const range = getPortRange(host);
+  if (range.start > range.end) {
+    throw new Error(`Invalid port range: ${range.start}-${range.end}`);
+  }
+  validatePortList(host.reservedPorts);
+}
+
+/**
+ * Get every port of a node, main port first
+ */
+export function getNodePorts(node: Pick<Node, 'port' | 'additionalPorts'>): number[] {
+  return [...new Set([node.port, ...parsePortList(node.additionalPorts)])];
+}
+
+/**
+ * Get the port range allocated nodes are given on a host
+ * The host's own range wins over defaults.node_port_start and node_port_end
+ */
+export function getPortRange(host?: Pick<Host, 'portRangeStart' | 'portRangeEnd'>): PortRange {
+  return {
+    start: host?.portRangeStart ?? config.defaults?.node_port_start ?? DEFAULT_PORT_START,
+    end: host?.portRangeEnd ?? config.defaults?.node_port_end ?? DEFAULT_PORT_END,
+  };
+}
+
+/**
+ * Map each port used by nodes on a host to its node
+ */
+async function getNodePortMap(hostId: number, excludeNodeId?: number): Promise<Map<number, Node>> {
+  const linkedNodes = await db.select().from(nodes).where(eq(nodes.hostId, hostId));
+  const used = new Map<number, Node>();
+
+  for (const node of linkedNodes) {
+    if (node.id === excludeNodeId) {
+      continue;
+    }
+    for (const port of getNodePorts(node)) {
+      used.set(port, node);
+    }
+  }
+  return used;
+}
+
+/**
+ * Get the ports a new node may not use on a host: those of its nodes and the reserved ones
+ */
+export async function getTakenPorts(host: Pick<Host, 'id' | 'reservedPorts'>): Promise<Set<number>> {
+  const used = await getNodePortMap(host.id);
+  return new Set([...used.keys(), ...parsePortList(host.reservedPorts)]);
+}
+
+/**
+ * Pick the lowest port of a range that is not taken, or null when the range is full
+ */
+export function pickFreePort(taken: Set<number>, range: PortRange): number | null {
+  for (let port = range.start; port <= range.end; port++) {
+    if (!taken.has(port)) {
+      return port;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the first port of a node that is used by another node on a host or reserved on it
+ */
+function findConflict(
+  host: Pick<Host, 'name' | 'reservedPorts'>,
+  used: Map<number, Pick<Node, 'id' | 'name'>>,
+  node: Pick<Node, 'port' | 'additionalPorts'>
+): string | null {
+  const reserved = new Set(parsePortList(host.reservedPorts));
+
+  for (const port of getNodePorts(node)) {
+    const owner = used.get(port);
+    if (owner) {
+      return `Port conflict on host '${host.name}': port ${port} is used by node '${owner.name}' (ID: ${owner.id})`;
+    }
+    if (reserved.has(port)) {
+      return `Port conflict on host '${host.name}': port ${port} is reserved`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Get a host by ID for a port check
+ */
+async function getPortHost(hostId: number): Promise<Host> {
+  const result = await db.select().from(hosts).where(eq(hosts.id, hostId)).limit(1);
+  if (!result[0]) {
+    throw new Error(`Host with ID ${hostId} not found`);
+  }
+  return result[0];
+}
+
+/**
+ * Reject node ports that are malformed, used by another node on the host or reserved on it
+ */
+export async function assertPortsAvailable(
+  hostId: number,
+  node: Pick<Node, 'port' | 'additionalPorts'>,
+  excludeNodeId?: number
+): Promise<void> {
+  validatePortList(node.additionalPorts);
+
+  const host = await getPortHost(hostId);
+  const conflict = findConflict(host, await getNodePortMap(hostId, excludeNodeId), node);
+  if (conflict) {
+    throw new Error(conflict);
+  }
+}
+
+/**
+ * Check nodes moving to a host together, by node ID
+ * Each node is checked against the host's nodes, its reserved ports and the nodes moving before it
+ */
+export async function findMoveConflicts(hostId: number, moving: Node[]): Promise<Map<number, string>> {
+  const host = await getPortHost(hostId);
+  const used: Map<number, Pick<Node, 'id' | 'name'>> = await getNodePortMap(hostId);
+  const conflicts = new Map<number, string>();
+
+  for (const node of moving) {
+    const conflict = findConflict(host, used, node);
+    if (conflict) {
+      conflicts.set(node.id, conflict);
+      continue;
+    }
+    for (const port of getNodePorts(node)) {
+      used.set(port, node);
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Get the port registry of a host: used and reserved ports and the range left for allocation
+ */
+export async function getHostPorts(host: Host): Promise<HostPorts> {
+  const used = await getNodePortMap(host.id);
+  const reserved = [...new Set(parsePortList(host.reservedPorts))].sort((a, b) => a - b);
+  const taken = new Set([...used.keys(), ...reserved]);
+  const range = getPortRange(host);
+
+  let free = 0;
+  for (let port = range.start; port <= range.end; port++) {
+    if (!taken.has(port)) {
+      free++;
+    }
+  }
+
+  return {
+    hostId: host.id,
+    range,
+    reserved,
+    used: [...used.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([port, node]) => ({ port, nodeId: node.id, nodeName: node.name, main: node.port === port })),
+    free,
+    nextFree: pickFreePort(taken, range),
+  };
+}
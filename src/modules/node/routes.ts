@@ -5,6 +5,7 @@
 
 import { Elysia, t } from 'elysia';
 import { successResponse, errorResponse, ErrorCodes } from '@/utils/response';
+import config from '@/utils/config';
 import {
   getAllNodes,
   getNodeById,
@@ -16,6 +17,7 @@ import {
   linkNodeToHost,
   unlinkNodeFromHost,
 } from './service';
+import { allocateNode } from './allocation';
 import type { NodeInfo, NodeUpdate } from './model';
 
 export const nodeRoutes = new Elysia({ prefix: '/nodes' })
@@ -80,14 +82,26 @@ export const nodeRoutes = new Elysia({ prefix: '/nodes' })
       const nodeInfo = body as NodeInfo;
       const node = await createNode(nodeInfo);
       return successResponse(node);
-    } catch (error) {
+    } catch (error: any) {
+      if (error.message.includes('Port conflict')) {
+        return errorResponse(ErrorCodes.PORT_CONFLICT, error.message);
+      }
+      if (error.message.includes('Invalid port list')) {
+        return errorResponse(ErrorCodes.INVALID_REQUEST, error.message);
+      }
+      if (error.message.includes('not found')) {
+        return errorResponse(ErrorCodes.HOST_NOT_FOUND, error.message);
+      }
       return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to create node', error);
     }
   }, {
     detail: {
       tags: ['Node'],
       summary: 'Create new node',
-      description: 'Register a new proxy node',
+      description:
+        'Register a new proxy node. additionalPorts is a comma-separated list of ports and ranges (e.g. ' +
+        '"8443, 20000-20010"). Ports used by another node on the host or reserved on it are rejected with ' +
+        'PORT_CONFLICT',
     },
     body: t.Object({
       panelType: t.Union([t.Literal('ssp'), t.Literal('srp')]),
@@ -104,6 +118,48 @@ export const nodeRoutes = new Elysia({ prefix: '/nodes' })
       rateLimit: t.Optional(t.String()),
     }),
   })
+  // Allocate node
+  .post('/allocate', async ({ body, request }) => {
+    try {
+      const node = await allocateNode(body, config.server.public_url || request.url);
+      return successResponse(node);
+    } catch (error: any) {
+      if (error.message.includes('already exists')) {
+        return errorResponse(ErrorCodes.NODE_ALREADY_EXISTS, error.message);
+      }
+      if (error.message.includes('No available host')) {
+        return errorResponse(ErrorCodes.HOST_NOT_FOUND, error.message);
+      }
+      if (error.message.includes('Port conflict')) {
+        return errorResponse(ErrorCodes.PORT_CONFLICT, error.message);
+      }
+      if (error.message.includes('Invalid allocation')) {
+        return errorResponse(ErrorCodes.INVALID_REQUEST, error.message);
+      }
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to allocate node', error);
+    }
+  }, {
+    detail: {
+      tags: ['Node'],
+      summary: 'Allocate node',
+      description:
+        'Create a node for a panel node on the least loaded online host (optionally in region), with a free port ' +
+        'from defaults.node_port_start-node_port_end and a domain under defaults.default_domain. The preferred ' +
+        'port and domain are used when free. DNS records are queued and the response includes the config URL, ' +
+        'built from server.public_url when set',
+    },
+    body: t.Object({
+      panelType: t.Union([t.Literal('ssp'), t.Literal('srp')]),
+      panelNodeId: t.Integer(),
+      panelUrl: t.String(),
+      name: t.String({ minLength: 1 }),
+      preferredDomain: t.Optional(t.String({ minLength: 1, maxLength: 253 })),
+      preferredPort: t.Optional(t.Integer({ minimum: 1, maximum: 65535 })),
+      region: t.Optional(t.String()),
+      proxyType: t.String(),
+      rateLimit: t.Optional(t.String()),
+    }),
+  })
   // Update node
   .patch('/:id', async ({ params, body }) => {
     try {
@@ -113,14 +169,23 @@ export const nodeRoutes = new Elysia({ prefix: '/nodes' })
         return errorResponse(ErrorCodes.NODE_NOT_FOUND, `Node with ID ${params.id} not found`);
       }
       return successResponse(node);
-    } catch (error) {
+    } catch (error: any) {
+      if (error.message.includes('Port conflict')) {
+        return errorResponse(ErrorCodes.PORT_CONFLICT, error.message);
+      }
+      if (error.message.includes('Invalid port list')) {
+        return errorResponse(ErrorCodes.INVALID_REQUEST, error.message);
+      }
+      if (error.message.includes('not found')) {
+        return errorResponse(ErrorCodes.HOST_NOT_FOUND, error.message);
+      }
       return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to update node', error);
     }
   }, {
     detail: {
       tags: ['Node'],
       summary: 'Update node',
-      description: 'Update node information',
+      description: 'Update node information. Changing the host or ports rejects conflicts with PORT_CONFLICT',
     },
     body: t.Object({
       name: t.Optional(t.String()),
@@ -161,6 +226,9 @@ export const nodeRoutes = new Elysia({ prefix: '/nodes' })
       const node = await linkNodeToHost(nodeId, hostId);
       return successResponse(node);
     } catch (error: any) {
+      if (error.message.includes('Port conflict')) {
+        return errorResponse(ErrorCodes.PORT_CONFLICT, error.message);
+      }
       if (error.message.includes('not found')) {
         return errorResponse(ErrorCodes.NODE_ASSOCIATION_FAILED, error.message);
       }
@@ -170,7 +238,7 @@ export const nodeRoutes = new Elysia({ prefix: '/nodes' })
     detail: {
       tags: ['Node'],
       summary: 'Link node to host',
-      description: 'Associate a node with a host (VPS)',
+      description: 'Associate a node with a host (VPS). Fails with PORT_CONFLICT when its ports are taken there',
     },
   })
   // Unlink node from host
@@ -6,6 +6,7 @@
 import { db, nodes, hosts } from '@/db';
 import { eq, and, desc, sql } from 'drizzle-orm';
 import { createLogger } from '@/utils/logger';
+import { assertPortsAvailable, validatePortList } from './ports';
 import type { NodeInfo, NodeUpdate, NodeStats } from './model';
 
 const logger = createLogger('NodeService');
@@ -75,6 +76,16 @@ export async function getNodeByPanelId(panelType: string, panelNodeId: number):
  */
 export async function createNode(nodeInfo: NodeInfo): Promise<typeof nodes.$inferSelect> {
   try {
+    // Ports must be free on the host the node runs on
+    if (nodeInfo.hostId) {
+      await assertPortsAvailable(nodeInfo.hostId, {
+        port: nodeInfo.port,
+        additionalPorts: nodeInfo.additionalPorts ?? null,
+      });
+    } else {
+      validatePortList(nodeInfo.additionalPorts);
+    }
+
     const now = Math.floor(Date.now() / 1000);
 
     const newNode = {
@@ -117,6 +128,20 @@ export async function updateNode(id: number, update: NodeUpdate): Promise<typeof
       return null;
     }
 
+    // Recheck ports when the node moves host or its ports change
+    const next = {
+      hostId: update.hostId ?? existing.hostId,
+      port: update.port ?? existing.port,
+      additionalPorts: update.additionalPorts !== undefined ? update.additionalPorts : existing.additionalPorts,
+    };
+    const portsChanged =
+      update.hostId !== undefined || update.port !== undefined || update.additionalPorts !== undefined;
+    if (next.hostId && portsChanged) {
+      await assertPortsAvailable(next.hostId, next, id);
+    } else {
+      validatePortList(update.additionalPorts);
+    }
+
     const now = Math.floor(Date.now() / 1000);
 
     const result = await db
@@ -190,6 +215,7 @@ export async function getNodeStats(): Promise<NodeStats> {
 
 /**
  * Link node to host
+ * Fails when the node's ports are taken or reserved on the host
  */
 export async function linkNodeToHost(nodeId: number, hostId: number): Promise<typeof nodes.$inferSelect | null> {
   try {
@@ -7,6 +7,8 @@ import { SSPAdapter } from './ssp';
 import { SRPAdapter } from './srp';
 import type { PanelAdapter, PanelConfig, PanelNode } from './model';
 import { createLogger } from '@/utils/logger';
+import config from '@/utils/config';
+import { getSettings } from '@/modules/settings/service';
 
 const logger = createLogger('PanelService');
 
@@ -29,6 +31,29 @@ export function createPanelAdapter(config: PanelConfig): PanelAdapter {
   }
 }
 
+/**
+ * Load enabled panel configurations
+ * URLs and API keys stored in settings (decrypted on read) take precedence over config.toml
+ */
+export async function loadPanelConfigs(): Promise<PanelConfig[]> {
+  const settings = await getSettings();
+  const panels: PanelConfig[] = [];
+
+  const sspUrl = settings?.sspUrl || config.panels.ssp_url;
+  const sspApiKey = settings?.sspApiKey || config.panels.ssp_api_key;
+  if (config.panels.ssp_enabled && sspUrl && sspApiKey) {
+    panels.push({ type: 'ssp', url: sspUrl, apiKey: sspApiKey });
+  }
+
+  const srpUrl = settings?.srpUrl || config.panels.srp_url;
+  const srpApiKey = settings?.srpApiKey || config.panels.srp_api_key;
+  if (config.panels.srp_enabled && srpUrl && srpApiKey) {
+    panels.push({ type: 'srp', url: srpUrl, apiKey: srpApiKey });
+  }
+
+  return panels;
+}
+
 /**
  * Register panel connection
  */
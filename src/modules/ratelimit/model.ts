@@ -0,0 +1,31 @@
+/**
+ * Rate limit module data models
+ * Defines interfaces for per-client token bucket rate limiting
+ */
+
+export type RateLimitGroup = 'heartbeat' | 'node_config' | 'login' | 'default';
+
+export interface BucketConfig {
+  capacity: number; // Maximum burst size
+  refill_per_second: number; // Tokens added back per second
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfter: number; // Seconds until the next token is available, 0 if allowed
+}
+
+export interface RateLimitGroupStats extends BucketConfig {
+  allowed: number;
+  limited: number;
+  clients: number; // Active buckets in this group
+}
+
+export interface RateLimitStats {
+  enabled: boolean;
+  totalAllowed: number;
+  totalLimited: number;
+  groups: Record<RateLimitGroup, RateLimitGroupStats>;
+}
@@ -0,0 +1,38 @@
+/**
+ * Rate limit plugin
+ * Rejects clients that exceed their route group budget before any other work is done
+ */
+
+import { Elysia } from 'elysia';
+import { errorResponse, ErrorCodes } from '@/utils/response';
+import { createLogger } from '@/utils/logger';
+import { getClientIp } from '@/utils/request';
+import { isRateLimitEnabled, getRouteGroup, getClientKey, consumeToken } from './service';
+
+const logger = createLogger('RateLimit');
+
+export const rateLimitPlugin = new Elysia({ name: 'rate-limit' })
+  // Runs before auth and body parsing; only agent host tokens are looked up to pick the bucket
+  .onRequest(async ({ request, server, set }) => {
+    if (!isRateLimitEnabled()) {
+      return;
+    }
+
+    const group = getRouteGroup(request.method, new URL(request.url).pathname);
+    if (!group) {
+      return;
+    }
+
+    const clientKey = await getClientKey(request.headers, getClientIp(request, server));
+    const decision = consumeToken(group, clientKey);
+
+    set.headers['x-ratelimit-limit'] = String(decision.limit);
+    set.headers['x-ratelimit-remaining'] = String(decision.remaining);
+
+    if (!decision.allowed) {
+      logger.warn(`Rate limited: ${clientKey} on ${group} (retry after ${decision.retryAfter}s)`);
+      set.status = 429;
+      set.headers['retry-after'] = String(decision.retryAfter);
+      return errorResponse(ErrorCodes.RATE_LIMITED, `Too many requests, retry after ${decision.retryAfter} seconds`);
+    }
+  });
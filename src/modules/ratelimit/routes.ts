@@ -0,0 +1,24 @@
+/**
+ * Rate limit module routes
+ * API endpoints for rate limit counters
+ */
+
+import { Elysia } from 'elysia';
+import { successResponse, errorResponse, ErrorCodes } from '@/utils/response';
+import { getRateLimitStats } from './service';
+
+export const rateLimitRoutes = new Elysia({ prefix: '/rate-limit' })
+  // Get rate limit statistics
+  .get('/stats/summary', () => {
+    try {
+      return successResponse(getRateLimitStats());
+    } catch (error) {
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to get rate limit statistics', error);
+    }
+  }, {
+    detail: {
+      tags: ['Rate Limit'],
+      summary: 'Get rate limit statistics',
+      description: 'Get budgets, allowed and limited request counts and active clients per route group',
+    },
+  });
@@ -0,0 +1,186 @@
+/**
+ * Rate limit module service
+ * In-memory token buckets per client and route group
+ */
+
+import config from '@/utils/config';
+import { isJwt, verifyJwt } from '@/utils/jwt';
+import { extractCredential, resolveApiKey } from '@/modules/auth/service';
+import { HOST_TOKEN_HEADER, findHostIdByToken } from '@/modules/host/token';
+import type { BucketConfig, RateLimitDecision, RateLimitGroup, RateLimitStats } from './model';
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number; // Milliseconds
+}
+
+const GROUPS: RateLimitGroup[] = ['heartbeat', 'node_config', 'login', 'default'];
+
+/**
+ * Budgets used when config.toml has no [rate_limit] section for a group
+ */
+const DEFAULT_BUCKETS: Record<RateLimitGroup, BucketConfig> = {
+  heartbeat: { capacity: 10, refill_per_second: 0.2 },
+  node_config: { capacity: 30, refill_per_second: 0.5 },
+  login: { capacity: 5, refill_per_second: 0.05 },
+  default: { capacity: 120, refill_per_second: 10 },
+};
+
+/**
+ * Route groups with their own budget; anything else uses `default`
+ */
+const GROUP_RULES: { group: RateLimitGroup; method: string; path: RegExp }[] = [
+  { group: 'heartbeat', method: 'POST', path: /^\/hosts\/heartbeat$/ },
+  { group: 'node_config', method: 'GET', path: /^\/config\/node\/[^/]+\/[^/]+$/ },
+  { group: 'login', method: 'POST', path: /^\/auth\/login$/ },
+];
+
+/**
+ * Routes never rate limited; none of them touch the database
+ */
+const EXEMPT_PATHS = new Set(['/health', '/swagger', '/swagger/json']);
+
+// Idle buckets are dropped once they have refilled completely
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+const buckets = new Map<RateLimitGroup, Map<string, Bucket>>(GROUPS.map((group) => [group, new Map()]));
+const counters = new Map<RateLimitGroup, { allowed: number; limited: number }>(
+  GROUPS.map((group) => [group, { allowed: 0, limited: 0 }])
+);
+let lastSweep = Date.now();
+
+/**
+ * Check whether rate limiting is enabled
+ */
+export function isRateLimitEnabled(): boolean {
+  return config.rate_limit?.enabled ?? true;
+}
+
+/**
+ * Get the bucket budget for a route group
+ */
+export function getBucketConfig(group: RateLimitGroup): BucketConfig {
+  return { ...DEFAULT_BUCKETS[group], ...config.rate_limit?.[group] };
+}
+
+/**
+ * Map a request to its route group, or null if it is exempt
+ */
+export function getRouteGroup(method: string, path: string): RateLimitGroup | null {
+  if (EXEMPT_PATHS.has(path)) {
+    return null;
+  }
+
+  const upperMethod = method.toUpperCase();
+  return GROUP_RULES.find((rule) => rule.method === upperMethod && rule.path.test(path))?.group || 'default';
+}
+
+/**
+ * Identify the client a request is charged to
+ * Valid API keys and session tokens get their own bucket. The agent key is shared by the whole
+ * fleet, so agents are keyed by the host their token belongs to. Agents without an active host
+ * token and anonymous or invalid callers are keyed by IP, so made-up tokens share one bucket
+ */
+export async function getClientKey(headers: Headers, ip: string | null): Promise<string> {
+  const credential = extractCredential(headers);
+
+  if (credential && isJwt(credential)) {
+    const secret = config.security.jwt_secret;
+    const payload = secret ? verifyJwt(credential, secret) : null;
+    if (payload) {
+      return `user:${payload.sub}`;
+    }
+  } else if (credential) {
+    const principal = resolveApiKey(credential);
+    if (principal?.role === 'agent') {
+      const hostId = await findHostIdByToken(headers.get(HOST_TOKEN_HEADER));
+      if (hostId !== null) {
+        return `host:${hostId}`;
+      }
+    } else if (principal) {
+      return principal.name;
+    }
+  }
+
+  return `ip:${ip || 'unknown'}`;
+}
+
+/**
+ * Drop buckets that have been idle long enough to refill completely
+ */
+function sweepBuckets(now: number): void {
+  for (const group of GROUPS) {
+    const { capacity, refill_per_second } = getBucketConfig(group);
+    const fullAfterMs = (capacity / refill_per_second) * 1000;
+
+    for (const [client, bucket] of buckets.get(group)!) {
+      if (now - bucket.updatedAt >= fullAfterMs) {
+        buckets.get(group)!.delete(client);
+      }
+    }
+  }
+  lastSweep = now;
+}
+
+/**
+ * Take one token from a client's bucket
+ */
+export function consumeToken(group: RateLimitGroup, clientKey: string, now = Date.now()): RateLimitDecision {
+  if (now - lastSweep >= SWEEP_INTERVAL_MS) {
+    sweepBuckets(now);
+  }
+
+  const { capacity, refill_per_second } = getBucketConfig(group);
+  const groupBuckets = buckets.get(group)!;
+  const bucket = groupBuckets.get(clientKey) || { tokens: capacity, updatedAt: now };
+
+  // Refill for the time elapsed since the last request
+  const elapsedSeconds = Math.max(0, now - bucket.updatedAt) / 1000;
+  bucket.tokens = Math.min(capacity, bucket.tokens + elapsedSeconds * refill_per_second);
+  bucket.updatedAt = now;
+  groupBuckets.set(clientKey, bucket);
+
+  const counter = counters.get(group)!;
+  if (bucket.tokens >= 1) {
+    bucket.tokens -= 1;
+    counter.allowed++;
+    return { allowed: true, limit: capacity, remaining: Math.floor(bucket.tokens), retryAfter: 0 };
+  }
+
+  counter.limited++;
+  return {
+    allowed: false,
+    limit: capacity,
+    remaining: 0,
+    retryAfter: Math.ceil((1 - bucket.tokens) / refill_per_second),
+  };
+}
+
+/**
+ * Get rate limit counters
+ */
+export function getRateLimitStats(): RateLimitStats {
+  const groups = {} as RateLimitStats['groups'];
+  let totalAllowed = 0;
+  let totalLimited = 0;
+
+  for (const group of GROUPS) {
+    const counter = counters.get(group)!;
+    groups[group] = { ...getBucketConfig(group), ...counter, clients: buckets.get(group)!.size };
+    totalAllowed += counter.allowed;
+    totalLimited += counter.limited;
+  }
+
+  return { enabled: isRateLimitEnabled(), totalAllowed, totalLimited, groups };
+}
+
+/**
+ * Clear all buckets and counters
+ */
+export function resetRateLimits(): void {
+  for (const group of GROUPS) {
+    buckets.get(group)!.clear();
+    counters.set(group, { allowed: 0, limited: 0 });
+  }
+  lastSweep = Date.now();
+}
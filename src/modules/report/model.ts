@@ -0,0 +1,44 @@
+/**
+ * Report module data models
+ * Defines interfaces for availability reports
+ */
+
+export interface AvailabilityQuery {
+  from?: number; // Unix timestamp (inclusive), defaults to 30 days before `to`
+  to?: number; // Unix timestamp (exclusive), defaults to now
+  provider?: string;
+  hostId?: number;
+}
+
+/**
+ * Availability over a period
+ * Only time spent online or offline counts as monitored; unknown and maintenance periods are left out
+ */
+export interface AvailabilityStats {
+  monitoredSeconds: number;
+  downtimeSeconds: number;
+  uptimePercent: number | null; // null when nothing was monitored
+  outages: number; // Outages overlapping the period
+  longestOutage: number; // Seconds, clipped to the period
+  recoveredOutages: number; // Outages that ended within the period
+  mttr: number | null; // Mean time to recovery in seconds, over recovered outages
+}
+
+export interface HostAvailability extends AvailabilityStats {
+  hostId: number;
+  name: string;
+  provider: string | null;
+  status: string;
+}
+
+export interface ProviderAvailability extends AvailabilityStats {
+  provider: string; // 'unknown' for hosts without a provider
+  hosts: number;
+}
+
+export interface AvailabilityReport {
+  from: number;
+  to: number;
+  hosts: HostAvailability[];
+  providers: ProviderAvailability[];
+}
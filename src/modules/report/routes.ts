@@ -0,0 +1,36 @@
+/**
+ * Report module routes
+ * API endpoints for fleet reports
+ */
+
+import { Elysia, t } from 'elysia';
+import { successResponse, errorResponse, ErrorCodes } from '@/utils/response';
+import { getAvailabilityReport } from './service';
+
+export const reportRoutes = new Elysia({ prefix: '/reports' })
+  // Get host availability report
+  .get('/availability', async ({ query }) => {
+    try {
+      const report = await getAvailabilityReport(query);
+      return successResponse(report);
+    } catch (error: any) {
+      if (error.message.includes('Invalid time range')) {
+        return errorResponse(ErrorCodes.INVALID_REQUEST, error.message);
+      }
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to get availability report', error);
+    }
+  }, {
+    detail: {
+      tags: ['Report'],
+      summary: 'Get availability report',
+      description:
+        'Uptime percentage, outage count, longest outage and MTTR per host and per provider between from and to ' +
+        '(Unix timestamps; default the last 30 days), computed from recorded online/offline transitions',
+    },
+    query: t.Object({
+      from: t.Optional(t.Numeric()),
+      to: t.Optional(t.Numeric()),
+      provider: t.Optional(t.String()),
+      hostId: t.Optional(t.Numeric()),
+    }),
+  });
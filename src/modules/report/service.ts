@@ -0,0 +1,213 @@
+/**
+ * Report module service
+ * Computes host availability from recorded status transitions
+ */
+
+import { db, hosts, type HostStatusEvent } from '@/db';
+import { eq, and, sql, type SQL } from 'drizzle-orm';
+import { createLogger } from '@/utils/logger';
+import { getStatusEvents } from '@/modules/host/events';
+import type {
+  AvailabilityQuery,
+  AvailabilityStats,
+  AvailabilityReport,
+  HostAvailability,
+  ProviderAvailability,
+} from './model';
+
+const logger = createLogger('ReportService');
+
+// Default report period when no start is given
+const DEFAULT_PERIOD_SECONDS = 30 * 86400;
+
+type StatusTransition = Pick<HostStatusEvent, 'fromStatus' | 'toStatus' | 'changedAt'>;
+
+/**
+ * Raw sums behind the availability figures, kept so providers can be aggregated exactly
+ */
+interface AvailabilityTotals {
+  monitoredSeconds: number;
+  downtimeSeconds: number;
+  outages: number;
+  longestOutage: number;
+  recoveredOutages: number;
+  recoveredSeconds: number;
+}
+
+/**
+ * Walk the status timeline of one host over [from, to)
+ * `since` is when the initial status began, which may be before `from` for outages already in progress
+ */
+function tallyAvailability(
+  events: StatusTransition[],
+  initialStatus: string,
+  from: number,
+  to: number,
+  since: number
+): AvailabilityTotals {
+  const totals: AvailabilityTotals = {
+    monitoredSeconds: 0,
+    downtimeSeconds: 0,
+    outages: initialStatus === 'offline' ? 1 : 0,
+    longestOutage: 0,
+    recoveredOutages: 0,
+    recoveredSeconds: 0,
+  };
+
+  let status = initialStatus;
+  let statusSince = Math.min(since, from);
+  let cursor = from;
+  let outage = 0;
+
+  const advance = (until: number) => {
+    const seconds = Math.max(0, until - cursor);
+    if (status === 'online' || status === 'offline') {
+      totals.monitoredSeconds += seconds;
+    }
+    if (status === 'offline') {
+      totals.downtimeSeconds += seconds;
+      outage += seconds;
+      totals.longestOutage = Math.max(totals.longestOutage, outage);
+    }
+    cursor = Math.max(cursor, until);
+  };
+
+  for (const event of events) {
+    if (event.changedAt >= to || event.toStatus === status) {
+      continue;
+    }
+
+    advance(event.changedAt);
+
+    if (status === 'offline' && event.toStatus === 'online') {
+      totals.recoveredOutages++;
+      totals.recoveredSeconds += event.changedAt - statusSince;
+    }
+    if (event.toStatus === 'offline') {
+      totals.outages++;
+    }
+
+    status = event.toStatus;
+    statusSince = Math.max(event.changedAt, from);
+    outage = 0;
+  }
+
+  advance(to);
+  return totals;
+}
+
+/**
+ * Turn raw sums into availability figures
+ */
+function summarize(totals: AvailabilityTotals): AvailabilityStats {
+  return {
+    monitoredSeconds: totals.monitoredSeconds,
+    downtimeSeconds: totals.downtimeSeconds,
+    uptimePercent:
+      totals.monitoredSeconds > 0
+        ? Math.round((1 - totals.downtimeSeconds / totals.monitoredSeconds) * 100000) / 1000
+        : null,
+    outages: totals.outages,
+    longestOutage: totals.longestOutage,
+    recoveredOutages: totals.recoveredOutages,
+    mttr: totals.recoveredOutages > 0 ? Math.round(totals.recoveredSeconds / totals.recoveredOutages) : null,
+  };
+}
+
+/**
+ * Compute availability of one host over [from, to) from its status transitions in order
+ */
+export function computeAvailability(
+  events: StatusTransition[],
+  initialStatus: string,
+  from: number,
+  to: number,
+  since: number = from
+): AvailabilityStats {
+  return summarize(tallyAvailability(events, initialStatus, from, to, since));
+}
+
+/**
+ * Build the availability report per host and per provider
+ */
+export async function getAvailabilityReport(query: AvailabilityQuery = {}): Promise<AvailabilityReport> {
+  const to = query.to ?? Math.floor(Date.now() / 1000);
+  const from = query.from ?? to - DEFAULT_PERIOD_SECONDS;
+  if (from >= to) {
+    throw new Error('Invalid time range: from must be before to');
+  }
+
+  try {
+    const conditions: SQL[] = [];
+
+    if (query.hostId !== undefined) conditions.push(eq(hosts.id, query.hostId));
+    if (query.provider) conditions.push(sql`lower(${hosts.provider}) = ${query.provider.toLowerCase()}`);
+
+    const targets = await db
+      .select()
+      .from(hosts)
+      .where(and(...conditions))
+      .orderBy(hosts.name);
+
+    const events = await getStatusEvents(targets.map((host) => host.id), from, to);
+
+    const hostReports: HostAvailability[] = [];
+    // Providers are matched case-insensitively, like the provider filter
+    const providerTotals = new Map<string, { provider: string; hosts: number; totals: AvailabilityTotals }>();
+
+    for (const host of targets) {
+      const start = Math.max(from, host.createdAt);
+      if (start >= to) {
+        continue;
+      }
+
+      const hostEvents = events.filter((event) => event.hostId === host.id);
+      const previous = hostEvents.find((event) => event.changedAt < from);
+      const inRange = hostEvents.filter((event) => event.changedAt >= from);
+
+      // Status at the start of the period: the last transition before it, else what the first one left
+      const initialStatus = previous?.toStatus ?? inRange[0]?.fromStatus ?? host.status;
+      const totals = tallyAvailability(inRange, initialStatus, start, to, previous?.changedAt ?? start);
+
+      hostReports.push({
+        hostId: host.id,
+        name: host.name,
+        provider: host.provider,
+        status: host.status,
+        ...summarize(totals),
+      });
+
+      const provider = host.provider || 'unknown';
+      const key = provider.toLowerCase();
+      const entry = providerTotals.get(key) ?? {
+        provider,
+        hosts: 0,
+        totals: {
+          monitoredSeconds: 0,
+          downtimeSeconds: 0,
+          outages: 0,
+          longestOutage: 0,
+          recoveredOutages: 0,
+          recoveredSeconds: 0,
+        },
+      };
+      entry.hosts++;
+      entry.totals.monitoredSeconds += totals.monitoredSeconds;
+      entry.totals.downtimeSeconds += totals.downtimeSeconds;
+      entry.totals.outages += totals.outages;
+      entry.totals.longestOutage = Math.max(entry.totals.longestOutage, totals.longestOutage);
+      entry.totals.recoveredOutages += totals.recoveredOutages;
+      entry.totals.recoveredSeconds += totals.recoveredSeconds;
+      providerTotals.set(key, entry);
+    }
+
+    const providers: ProviderAvailability[] = [...providerTotals.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([, entry]) => ({ provider: entry.provider, hosts: entry.hosts, ...summarize(entry.totals) }));
+
+    return { from, to, hosts: hostReports, providers };
+  } catch (error) {
+    logger.error('Failed to build availability report', { error });
+    throw error;
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Integration bootstrap
+ * Initializes DNS, Telegram and panel integrations from stored settings
+ */
+
+import config from '@/utils/config';
+import { createLogger } from '@/utils/logger';
+import { configureTelegramNotifier } from '@/utils/telegram';
+import { initializeDnsProvider, loadDnsConfig, validateDnsConfig } from '@/modules/dns/service';
+import { loadPanelConfigs, registerPanel } from '@/modules/panel';
+import { getSettings } from './service';
+
+const logger = createLogger('Integrations');
+
+/**
+ * Initialize or re-initialize all integrations
+ * Failures are logged per integration so one bad credential doesn't block the others
+ */
+export async function initializeIntegrations(): Promise<void> {
+  try {
+    const dnsConfig = await loadDnsConfig();
+    if (validateDnsConfig(dnsConfig)) {
+      initializeDnsProvider(dnsConfig);
+    } else {
+      logger.warn(`DNS provider ${dnsConfig.provider} is not configured`);
+    }
+  } catch (error) {
+    logger.error('Failed to initialize DNS integration', { error });
+  }
+
+  try {
+    const settings = await getSettings();
+    configureTelegramNotifier({
+      botToken: settings?.telegramBotToken || config.notifications.telegram_bot_token,
+      chatId: settings?.telegramChatId || config.notifications.telegram_chat_id,
+    });
+  } catch (error) {
+    logger.error('Failed to initialize Telegram integration', { error });
+  }
+
+  try {
+    for (const panel of await loadPanelConfigs()) {
+      registerPanel(panel.type, panel);
+    }
+  } catch (error) {
+    logger.error('Failed to initialize panel integrations', { error });
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Settings module data models
+ * Defines interfaces for system-wide settings stored in the configs table
+ */
+
+/**
+ * Settings fields encrypted at rest and redacted in API responses
+ */
+export const SECRET_FIELDS = ['sspApiKey', 'srpApiKey', 'dnsApiKey', 'dnsApiSecret', 'telegramBotToken'] as const;
+
+export type SecretField = (typeof SECRET_FIELDS)[number];
+
+export interface SettingsUpdate {
+  sspUrl?: string | null;
+  sspApiKey?: string | null;
+  srpUrl?: string | null;
+  srpApiKey?: string | null;
+  dnsProvider?: string;
+  dnsApiKey?: string | null;
+  dnsApiSecret?: string | null;
+  defaultDomain?: string | null;
+  domainDnsCheckInterval?: number;
+  telegramBotToken?: string | null;
+  telegramChatId?: string | null;
+  notifyOnNodeOffline?: boolean;
+  notifyOnLowDisk?: boolean;
+  diskThreshold?: number;
+}
@@ -0,0 +1,65 @@
+/**
+ * Settings module routes
+ * API endpoints for system settings
+ */
+
+import { Elysia, t } from 'elysia';
+import { successResponse, errorResponse, ErrorCodes } from '@/utils/response';
+import { getRedactedSettings, updateSettings } from './service';
+import { initializeIntegrations } from './integrations';
+import type { SettingsUpdate } from './model';
+
+export const settingsRoutes = new Elysia({ prefix: '/settings' })
+  // Get settings
+  .get('/', async () => {
+    try {
+      const settings = await getRedactedSettings();
+      if (!settings) {
+        return errorResponse(ErrorCodes.CONFIG_NOT_FOUND, 'Settings have not been configured');
+      }
+      return successResponse(settings);
+    } catch (error) {
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to get settings', error);
+    }
+  }, {
+    detail: {
+      tags: ['Settings'],
+      summary: 'Get settings',
+      description: 'Get system settings. Secret values are redacted',
+    },
+  })
+  // Update settings
+  .patch('/', async ({ body }) => {
+    try {
+      const settings = await updateSettings(body as SettingsUpdate);
+      await initializeIntegrations();
+      return successResponse(settings);
+    } catch (error: any) {
+      if (error.message.includes('NODEHUB_MASTER_KEY')) {
+        return errorResponse(ErrorCodes.INVALID_REQUEST, error.message);
+      }
+      return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to update settings', error);
+    }
+  }, {
+    detail: {
+      tags: ['Settings'],
+      summary: 'Update settings',
+      description: 'Update system settings. Secret values are encrypted at rest with NODEHUB_MASTER_KEY',
+    },
+    body: t.Object({
+      sspUrl: t.Optional(t.Nullable(t.String())),
+      sspApiKey: t.Optional(t.Nullable(t.String())),
+      srpUrl: t.Optional(t.Nullable(t.String())),
+      srpApiKey: t.Optional(t.Nullable(t.String())),
+      dnsProvider: t.Optional(t.String()),
+      dnsApiKey: t.Optional(t.Nullable(t.String())),
+      dnsApiSecret: t.Optional(t.Nullable(t.String())),
+      defaultDomain: t.Optional(t.Nullable(t.String())),
+      domainDnsCheckInterval: t.Optional(t.Integer()),
+      telegramBotToken: t.Optional(t.Nullable(t.String())),
+      telegramChatId: t.Optional(t.Nullable(t.String())),
+      notifyOnNodeOffline: t.Optional(t.Boolean()),
+      notifyOnLowDisk: t.Optional(t.Boolean()),
+      diskThreshold: t.Optional(t.Integer()),
+    }),
+  });
@@ -0,0 +1,114 @@
+/**
+ * Settings module service
+ * Reads and writes system settings, encrypting secrets at rest
+ */
+
+import { db, configs, type Config } from '@/db';
+import { eq } from 'drizzle-orm';
+import { createLogger } from '@/utils/logger';
+import { encryptSecret, decryptSecret } from '@/utils/crypto';
+import { SECRET_FIELDS, type SettingsUpdate } from './model';
+
+const logger = createLogger('SettingsService');
+
+/**
+ * Placeholder returned instead of secret values
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Get the stored settings row (secrets still encrypted)
+ */
+async function getStoredSettings(): Promise<Config | null> {
+  const result = await db.select().from(configs).orderBy(configs.id).limit(1);
+  return result[0] || null;
+}
+
+/**
+ * Decrypt secret fields of a settings row
+ */
+function decryptSettings(row: Config): Config {
+  const decrypted = { ...row };
+  for (const field of SECRET_FIELDS) {
+    const value = row[field];
+    decrypted[field] = value ? decryptSecret(value) : value;
+  }
+  return decrypted;
+}
+
+/**
+ * Get settings with secrets decrypted
+ * For internal use by integrations only, never return this from the API
+ */
+export async function getSettings(): Promise<Config | null> {
+  try {
+    const row = await getStoredSettings();
+    return row ? decryptSettings(row) : null;
+  } catch (error) {
+    logger.error('Failed to get settings', { error });
+    throw error;
+  }
+}
+
+/**
+ * Replace secret values with a placeholder
+ */
+export function redactSettings(row: Config): Config {
+  const redacted = { ...row };
+  for (const field of SECRET_FIELDS) {
+    redacted[field] = row[field] ? REDACTED : null;
+  }
+  return redacted;
+}
+
+/**
+ * Get settings safe to return from the API
+ */
+export async function getRedactedSettings(): Promise<Config | null> {
+  try {
+    const row = await getStoredSettings();
+    return row ? redactSettings(row) : null;
+  } catch (error) {
+    logger.error('Failed to get settings', { error });
+    throw error;
+  }
+}
+
+/**
+ * Update settings, creating the settings row on first write
+ * Secrets are encrypted before they reach the database; returns redacted settings
+ * Secrets sent back as the placeholder are left unchanged, so a GET result can be PUT back as is
+ */
+export async function updateSettings(update: SettingsUpdate): Promise<Config> {
+  try {
+    const values: SettingsUpdate = { ...update };
+    for (const field of SECRET_FIELDS) {
+      const value = values[field];
+      if (value === REDACTED) {
+        delete values[field];
+      } else if (value) {
+        values[field] = encryptSecret(value);
+      }
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const existing = await getStoredSettings();
+
+    const result = existing
+      ? await db
+          .update(configs)
+          .set({ ...values, updatedAt: now })
+          .where(eq(configs.id, existing.id))
+          .returning()
+      : await db
+          .insert(configs)
+          .values({ ...values, createdAt: now, updatedAt: now })
+          .returning();
+
+    logger.info('Settings updated', { fields: Object.keys(update) });
+    return redactSettings(result[0]);
+  } catch (error) {
+    logger.error('Failed to update settings', { error });
+    throw error;
+  }
+}
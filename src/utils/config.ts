@@ -21,6 +21,8 @@ import { resolve } from 'path';
 interface ServerConfig {
   port: number;
   host: string;
+  trust_proxy: boolean; // Read client IPs from X-Forwarded-For
+  public_url?: string; // Address agents reach the hub at, used in generated URLs
 }
 
 interface DatabaseConfig {
@@ -28,12 +30,20 @@ interface DatabaseConfig {
 }
 
 interface SecurityConfig {
-  api_key: string;
+  api_key: string; // Admin scope, full access
+  agent_api_key: string; // Agent scope, registration, heartbeats and config downloads
+  panel_api_key: string; // Panel scope, read-only node access
+  heartbeat_max_skew: number; // Allowed heartbeat clock skew in seconds
+  jwt_secret: string; // Secret for signing user session tokens
+  session_ttl?: number; // User session lifetime in seconds
+  enrollment_token: string; // Pre-shared token required to register new hosts (empty = not required)
 }
 
 interface DefaultsConfig {
   default_domain: string;
   dns_check_interval: number;
+  node_port_start: number; // Lowest port picked for allocated nodes
+  node_port_end: number; // Highest port picked for allocated nodes
 }
 
 interface LoggingConfig {
@@ -55,10 +65,46 @@ interface DnsConfig {
   cloudflare_api_token: string;
 }
 
+interface MetricsConfig {
+  raw_retention_days: number; // Keep every heartbeat sample this long
+  rollup_5m_retention_days: number; // Keep 5-minute aggregates this long
+  rollup_1h_retention_days: number; // Keep hourly aggregates this long
+  media_retention_days: number; // Keep media unlock test history this long
+}
+
+interface NetworkConfig {
+  probe_interval: number; // Seconds between probe rounds, passed to agents
+  probe_count: number; // Probes per target in each round, passed to agents
+  rtt_threshold_ms: number; // Paths slower than this are degraded
+  loss_threshold_percent: number; // Paths losing more than this are degraded
+  retention_days: number; // Keep probe results this long
+}
+
+interface GeoIpConfig {
+  city_database: string; // Path to a GeoLite2/GeoIP2 City or Country .mmdb file
+  asn_database: string; // Path to a GeoLite2 ASN or GeoIP2 ISP .mmdb file
+}
+
+interface RateLimitBucketConfig {
+  capacity: number; // Maximum burst size
+  refill_per_second: number; // Sustained requests per second
+}
+
+interface RateLimitConfig {
+  enabled: boolean;
+  heartbeat: RateLimitBucketConfig; // POST /hosts/heartbeat
+  node_config: RateLimitBucketConfig; // GET /config/node/:nodeId/:configType
+  login: RateLimitBucketConfig; // POST /auth/login
+  default: RateLimitBucketConfig; // All other routes
+}
+
 interface NotificationsConfig {
   notify_on_node_offline: boolean;
   notify_on_low_disk: boolean;
   disk_threshold: number;
+  bandwidth_threshold: number; // Share of the port speed (0-100) past which a host is saturated
+  renewal_reminder_days: number[]; // Days before a host expires to send reminders
+  renewal_overdue_repeat_hours: number; // Repeat interval for expired host alerts
   telegram_bot_token: string;
   telegram_chat_id: string;
 }
@@ -72,6 +118,10 @@ interface AppConfig {
   panels: PanelsConfig;
   dns: DnsConfig;
   notifications: NotificationsConfig;
+  metrics: MetricsConfig;
+  network: NetworkConfig;
+  geoip: GeoIpConfig;
+  rate_limit: RateLimitConfig;
 }
 
 /**
@@ -119,16 +169,26 @@ function loadTomlConfig(): AppConfig {
       server: {
         port: Number(process.env.PORT) || 3000,
         host: process.env.HOST || '0.0.0.0',
+        trust_proxy: process.env.TRUST_PROXY === 'true',
+        public_url: process.env.PUBLIC_URL || '',
       },
       database: {
         path: process.env.DATABASE_PATH || './data/nodehub.db',
       },
       security: {
         api_key: process.env.API_KEY || '',
+        agent_api_key: process.env.AGENT_API_KEY || '',
+        panel_api_key: process.env.PANEL_API_KEY || '',
+        heartbeat_max_skew: Number(process.env.HEARTBEAT_MAX_SKEW) || 300,
+        jwt_secret: process.env.JWT_SECRET || '',
+        session_ttl: Number(process.env.SESSION_TTL) || 86400,
+        enrollment_token: process.env.ENROLLMENT_TOKEN || '',
       },
       defaults: {
         default_domain: process.env.DEFAULT_DOMAIN || '',
         dns_check_interval: Number(process.env.DOMAIN_DNS_CHECK_INTERVAL) || 300,
+        node_port_start: 10000,
+        node_port_end: 60000,
       },
       logging: {
         level: (process.env.LOG_LEVEL as LoggingConfig['level']) || 'info',
@@ -150,9 +210,36 @@ function loadTomlConfig(): AppConfig {
         notify_on_node_offline: process.env.NOTIFY_ON_NODE_OFFLINE === 'true',
         notify_on_low_disk: process.env.NOTIFY_ON_LOW_DISK === 'true',
         disk_threshold: Number(process.env.DISK_THRESHOLD) || 90,
+        bandwidth_threshold: 90,
+        renewal_reminder_days: [14, 7, 3, 1],
+        renewal_overdue_repeat_hours: 24,
         telegram_bot_token: process.env.TELEGRAM_BOT_TOKEN || '',
         telegram_chat_id: process.env.TELEGRAM_CHAT_ID || '',
       },
+      metrics: {
+        raw_retention_days: 2,
+        rollup_5m_retention_days: 30,
+        rollup_1h_retention_days: 365,
+        media_retention_days: 90,
+      },
+      network: {
+        probe_interval: 300,
+        probe_count: 10,
+        rtt_threshold_ms: 300,
+        loss_threshold_percent: 5,
+        retention_days: 14,
+      },
+      geoip: {
+        city_database: '',
+        asn_database: '',
+      },
+      rate_limit: {
+        enabled: process.env.RATE_LIMIT_ENABLED !== 'false',
+        heartbeat: { capacity: 10, refill_per_second: 0.2 },
+        node_config: { capacity: 30, refill_per_second: 0.5 },
+        login: { capacity: 5, refill_per_second: 0.05 },
+        default: { capacity: 120, refill_per_second: 10 },
+      },
     };
   }
 }
@@ -0,0 +1,110 @@
+/**
+ * Secret encryption utility
+ * Envelope encryption for secrets stored in the database
+ *
+ * Each secret is encrypted with its own random data key (AES-256-GCM), and the
+ * data key is wrapped with the master key from NODEHUB_MASTER_KEY. Rotating the
+ * master key only re-wraps data keys; secret ciphertexts stay untouched.
+ *
+ * Stored format: enc:v1:<wrapped data key>:<ciphertext>, each part base64 of iv|tag|data
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+const PREFIX = 'enc:v1:';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Parse a base64-encoded 32-byte master key
+ */
+export function parseMasterKey(value: string | undefined, name = 'NODEHUB_MASTER_KEY'): Buffer {
+  if (!value) {
+    throw new Error(`${name} is not set`);
+  }
+
+  const key = Buffer.from(value, 'base64');
+  if (key.length !== 32) {
+    throw new Error(`${name} must be 32 bytes encoded as base64`);
+  }
+  return key;
+}
+
+/**
+ * Get master key from environment
+ */
+function getMasterKey(): Buffer {
+  return parseMasterKey(process.env.NODEHUB_MASTER_KEY);
+}
+
+/**
+ * AES-256-GCM encrypt, returning iv|tag|ciphertext
+ */
+function seal(key: Buffer, plaintext: Buffer): Buffer {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+/**
+ * AES-256-GCM decrypt of iv|tag|ciphertext
+ */
+function open(key: Buffer, sealed: Buffer): Buffer {
+  const iv = sealed.subarray(0, IV_LENGTH);
+  const tag = sealed.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+  const decipher = createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(sealed.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
+
+/**
+ * Split a stored value into wrapped data key and ciphertext
+ */
+function splitEnvelope(value: string): [Buffer, Buffer] {
+  const [wrappedKey, ciphertext] = value.slice(PREFIX.length).split(':');
+  if (!wrappedKey || !ciphertext) {
+    throw new Error('Malformed encrypted secret');
+  }
+  return [Buffer.from(wrappedKey, 'base64'), Buffer.from(ciphertext, 'base64')];
+}
+
+/**
+ * Check whether a stored value is encrypted
+ */
+export function isEncryptedSecret(value: string | null | undefined): boolean {
+  return !!value && value.startsWith(PREFIX);
+}
+
+/**
+ * Encrypt a secret for storage
+ */
+export function encryptSecret(plaintext: string, masterKey: Buffer = getMasterKey()): string {
+  const dataKey = randomBytes(32);
+  const ciphertext = seal(dataKey, Buffer.from(plaintext, 'utf-8'));
+  const wrappedKey = seal(masterKey, dataKey);
+  return `${PREFIX}${wrappedKey.toString('base64')}:${ciphertext.toString('base64')}`;
+}
+
+/**
+ * Decrypt a stored secret
+ * Values stored before encryption was enabled are returned unchanged
+ */
+export function decryptSecret(value: string, masterKey?: Buffer): string {
+  if (!isEncryptedSecret(value)) {
+    return value;
+  }
+
+  const [wrappedKey, ciphertext] = splitEnvelope(value);
+  const dataKey = open(masterKey || getMasterKey(), wrappedKey);
+  return open(dataKey, ciphertext).toString('utf-8');
+}
+
+/**
+ * Re-wrap a secret's data key with a new master key
+ */
+export function rewrapSecret(value: string, oldMasterKey: Buffer, newMasterKey: Buffer): string {
+  const [wrappedKey, ciphertext] = splitEnvelope(value);
+  const dataKey = open(oldMasterKey, wrappedKey);
+  return `${PREFIX}${seal(newMasterKey, dataKey).toString('base64')}:${ciphertext.toString('base64')}`;
+}
@@ -0,0 +1,27 @@
+/**
+ * Duration utility
+ * Parses short duration strings used in query parameters (e.g. 30d, 12h)
+ */
+
+type DurationUnit = 's' | 'm' | 'h' | 'd' | 'w';
+
+const UNIT_SECONDS: Record<DurationUnit, number> = {
+  s: 1,
+  m: 60,
+  h: 3600,
+  d: 86400,
+  w: 604800,
+};
+
+/**
+ * Parse a duration such as `90s`, `15m`, `12h`, `30d` or `2w` into seconds
+ * A bare number is taken as `defaultUnit`. Returns null for invalid input
+ */
+export function parseDuration(value: string | number, defaultUnit: DurationUnit = 's'): number | null {
+  const match = String(value).trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*([smhdw]?)$/);
+  if (!match) {
+    return null;
+  }
+
+  return Math.round(Number(match[1]) * UNIT_SECONDS[(match[2] as DurationUnit) || defaultUnit]);
+}
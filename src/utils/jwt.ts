@@ -0,0 +1,65 @@
+/**
+ * JWT utility
+ * Minimal HS256 JSON Web Token signing and verification
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export interface JwtPayload {
+  sub: string;
+  jti: string;
+  iat: number;
+  exp: number;
+  [claim: string]: unknown;
+}
+
+const HEADER = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+
+/**
+ * Compute HS256 signature for header.payload
+ */
+function sign(data: string, secret: string): string {
+  return createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+/**
+ * Check whether a string looks like a JWT
+ */
+export function isJwt(token: string): boolean {
+  return token.split('.').length === 3;
+}
+
+/**
+ * Sign a JWT
+ */
+export function signJwt(payload: JwtPayload, secret: string): string {
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${HEADER}.${body}.${sign(`${HEADER}.${body}`, secret)}`;
+}
+
+/**
+ * Verify a JWT signature and expiry
+ * Returns the payload, or null if the token is invalid or expired
+ */
+export function verifyJwt(token: string, secret: string): JwtPayload | null {
+  const [header, body, signature] = token.split('.');
+  if (!header || !body || !signature || header !== HEADER) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(`${header}.${body}`, secret));
+  const provided = Buffer.from(signature);
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf-8')) as JwtPayload;
+    if (typeof payload.exp !== 'number' || payload.exp <= Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
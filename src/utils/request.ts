@@ -0,0 +1,25 @@
+/**
+ * Request utility
+ * Helpers for reading client information from incoming requests
+ */
+
+import config from '@/utils/config';
+
+interface RequestIpSource {
+  requestIP(request: Request): { address: string } | null;
+}
+
+/**
+ * Get the client IP address of a request
+ * X-Forwarded-For is only honored when server.trust_proxy is enabled
+ */
+export function getClientIp(request: Request, server: RequestIpSource | null): string | null {
+  if (config.server.trust_proxy) {
+    const forwarded = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+    if (forwarded) {
+      return forwarded;
+    }
+  }
+
+  return server?.requestIP(request)?.address || null;
+}
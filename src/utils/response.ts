@@ -55,17 +55,20 @@ export const ErrorCodes = {
   NOT_FOUND: 'NOT_FOUND',
   UNAUTHORIZED: 'UNAUTHORIZED',
   FORBIDDEN: 'FORBIDDEN',
+  RATE_LIMITED: 'RATE_LIMITED',
 
   // Host errors (2xxx)
   HOST_NOT_FOUND: 'HOST_NOT_FOUND',
   HOST_ALREADY_EXISTS: 'HOST_ALREADY_EXISTS',
   HOST_OFFLINE: 'HOST_OFFLINE',
+  GEOIP_UNAVAILABLE: 'GEOIP_UNAVAILABLE',
 
   // Node errors (3xxx)
   NODE_NOT_FOUND: 'NODE_NOT_FOUND',
   NODE_ALREADY_EXISTS: 'NODE_ALREADY_EXISTS',
   NODE_INVALID_CONFIG: 'NODE_INVALID_CONFIG',
   NODE_ASSOCIATION_FAILED: 'NODE_ASSOCIATION_FAILED',
+  PORT_CONFLICT: 'PORT_CONFLICT',
 
   // Config errors (4xxx)
   CONFIG_NOT_FOUND: 'CONFIG_NOT_FOUND',
@@ -80,4 +83,9 @@ export const ErrorCodes = {
   PANEL_CONNECTION_FAILED: 'PANEL_CONNECTION_FAILED',
   PANEL_API_ERROR: 'PANEL_API_ERROR',
   PANEL_SYNC_FAILED: 'PANEL_SYNC_FAILED',
+
+  // Auth errors (7xxx)
+  INVALID_CREDENTIALS: 'INVALID_CREDENTIALS',
+  USER_NOT_FOUND: 'USER_NOT_FOUND',
+  USER_ALREADY_EXISTS: 'USER_ALREADY_EXISTS',
 } as const;
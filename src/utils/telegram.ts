@@ -139,6 +139,14 @@ export function getTelegramNotifier(config?: TelegramConfig): TelegramNotifier {
   return telegramInstance;
 }
 
+/**
+ * Replace Telegram notifier instance with new credentials
+ */
+export function configureTelegramNotifier(config: TelegramConfig): TelegramNotifier {
+  telegramInstance = new TelegramNotifier(config);
+  return telegramInstance;
+}
+
 /**
  * Send notification convenience function
  */
@@ -174,6 +182,128 @@ export async function notifyLowDisk(hostName: string, diskUsage: number, diskTot
   });
 }
 
+/**
+ * Send port saturation warning
+ */
+export async function notifyPortSaturated(
+  hostName: string,
+  usage: number,
+  portSpeed: number,
+  rates: { uploadRate: number; downloadRate: number }
+): Promise<boolean> {
+  const mbits = (rate: number) => `${Math.round((rate * 8) / 10000) / 100} Mbit/s`;
+  return await sendNotification({
+    title: 'Port Saturated',
+    level: 'warning',
+    message: `Host <b>${hostName}</b> is using <b>${usage}%</b> of its port`,
+    metadata: {
+      upload: mbits(rates.uploadRate),
+      download: mbits(rates.downloadRate),
+      portSpeed: `${portSpeed} Mbit/s`,
+    },
+  });
+}
+
+/**
+ * Send host renewal reminder, or an expiry alert once the date has passed
+ */
+export async function notifyHostRenewal(
+  hostName: string,
+  expiresAt: number,
+  daysLeft: number,
+  details: { provider?: string | null; price?: number | null; currency?: string | null } = {}
+): Promise<boolean> {
+  const expired = daysLeft <= 0;
+  const days = Math.abs(daysLeft);
+  const span = days === 0 ? 'today' : `${days} day${days === 1 ? '' : 's'}`;
+  return await sendNotification({
+    title: expired ? 'Host Expired' : 'Host Renewal Due',
+    level: expired ? 'error' : 'warning',
+    message: expired
+      ? `Host <b>${hostName}</b> expired <b>${days === 0 ? span : `${span} ago`}</b> and has not been renewed`
+      : `Host <b>${hostName}</b> expires in <b>${span}</b>`,
+    metadata: {
+      expiresAt: new Date(expiresAt * 1000).toISOString(),
+      ...(details.provider && { provider: details.provider }),
+      ...(details.price != null && { price: `${details.price} ${details.currency || ''}`.trim() }),
+    },
+  });
+}
+
+/**
+ * Send notification for streaming services that became blocked on a host
+ */
+export async function notifyMediaBlocked(
+  hostName: string,
+  services: { service: string; region: string | null }[]
+): Promise<boolean> {
+  const lines = services.map((entry) => `<b>${entry.service}</b>${entry.region ? ` (was ${entry.region})` : ''}`);
+  return await sendNotification({
+    title: 'Media Unlock Lost',
+    level: 'warning',
+    message: `Host <b>${hostName}</b> is now blocked by:\n${lines.join('\n')}`,
+  });
+}
+
+/**
+ * Send degraded network path warning
+ */
+export async function notifyPathsDegraded(
+  hostName: string,
+  paths: { target: string; rttMs: number | null; lossPercent: number }[],
+  thresholds: { rttMs: number; lossPercent: number }
+): Promise<boolean> {
+  const lines = paths.map((path) => {
+    const rtt = path.rttMs === null ? 'unreachable' : `${path.rttMs} ms`;
+    return `→ <b>${path.target}</b>: ${rtt}, ${path.lossPercent}% loss`;
+  });
+  return await sendNotification({
+    title: 'Network Path Degraded',
+    level: 'warning',
+    message: `Paths from host <b>${hostName}</b> went past the thresholds:\n${lines.join('\n')}`,
+    metadata: {
+      rttThreshold: `${thresholds.rttMs} ms`,
+      lossThreshold: `${thresholds.lossPercent}%`,
+    },
+  });
+}
+
+/**
+ * Send host IP change notification
+ */
+export async function notifyHostIpChanged(
+  hostName: string,
+  changes: { oldIp: string | null; newIp: string }[],
+  domains: string[]
+): Promise<boolean> {
+  const lines = changes.map((change) => `${change.oldIp || '(none)'} → <b>${change.newIp}</b>`);
+  return await sendNotification({
+    title: 'Host IP Changed',
+    level: 'warning',
+    message: `Host <b>${hostName}</b> changed IP address:\n${lines.join('\n')}`,
+    metadata: domains.length > 0 ? { dnsUpdatesQueued: domains.join(', ') } : undefined,
+  });
+}
+
+/**
+ * Send host decommission notification
+ */
+export async function notifyHostDecommissioned(
+  hostName: string,
+  summary: { nodes: number; dnsRecords: number; reassignedTo: string | null; reason: string | null }
+): Promise<boolean> {
+  return await sendNotification({
+    title: 'Host Decommissioned',
+    level: 'info',
+    message: `Host <b>${hostName}</b> was decommissioned`,
+    metadata: {
+      nodes: summary.reassignedTo ? `${summary.nodes} moved to ${summary.reassignedTo}` : `${summary.nodes} unlinked`,
+      dnsRecords: summary.dnsRecords,
+      ...(summary.reason && { reason: summary.reason }),
+    },
+  });
+}
+
 /**
  * Send DNS update failure notification
  */
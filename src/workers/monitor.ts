@@ -4,7 +4,16 @@
  */
 
 import { createLogger } from '@/utils/logger';
-import { getHosts, markOfflineHosts } from '@/modules/host/service';
+import { getAllHosts, markOfflineHosts } from '@/modules/host/service';
+import { rollupHostMetrics, pruneHostMetrics } from '@/modules/host/metrics';
+import { pruneMediaHistory } from '@/modules/host/media';
+import { resetTrafficCycles } from '@/modules/host/quota';
+import { checkHostRenewals } from '@/modules/host/renewal';
+import { checkBandwidthSaturation } from '@/modules/host/bandwidth';
+import { expireHostCommands } from '@/modules/host/commands';
+import { pruneProbeResults } from '@/modules/network/service';
+import { findHostsInMaintenance } from '@/modules/host/maintenance';
+import { isAgentConnected } from '@/modules/host/connections';
 import { getNodeStats } from '@/modules/node/service';
 import { getTelegramNotifier, notifyHostOffline, notifyLowDisk } from '@/utils/telegram';
 
@@ -87,6 +96,21 @@ class MonitorWorker {
       // Check disk space
       await this.checkDiskSpace();
 
+      // Check port saturation
+      await this.checkBandwidth();
+
+      // Downsample and expire metrics history
+      await this.maintainMetrics();
+
+      // Start new traffic billing cycles
+      await this.resetTrafficCycles();
+
+      // Expire commands agents never picked up or reported on
+      await this.expireCommands();
+
+      // Remind about upcoming and missed renewals
+      await this.checkRenewals();
+
       // Log statistics
       await this.logStatistics();
     } catch (error) {
@@ -96,15 +120,23 @@ class MonitorWorker {
 
   /**
    * Check host heartbeats
+   * Hosts in a maintenance window are expected to go silent and don't trigger alerts.
+   * Hosts on the agent channel are watched by their connection instead
    */
   private async checkHostHeartbeats(): Promise<void> {
     try {
-      const hosts = await getHosts();
+      const hosts = await getAllHosts();
       const now = Math.floor(Date.now() / 1000);
       const telegram = getTelegramNotifier();
+      const inMaintenance = await findHostsInMaintenance(hosts, now);
 
       for (const host of hosts) {
-        if (host.status === 'offline') {
+        if (
+          host.status === 'offline' ||
+          host.status === 'maintenance' ||
+          inMaintenance.has(host.id) ||
+          isAgentConnected(host.id)
+        ) {
           continue;
         }
 
@@ -132,11 +164,12 @@ class MonitorWorker {
    */
   private async checkDiskSpace(): Promise<void> {
     try {
-      const hosts = await getHosts();
+      const hosts = await getAllHosts();
       const telegram = getTelegramNotifier();
+      const inMaintenance = await findHostsInMaintenance(hosts);
 
       for (const host of hosts) {
-        if (!host.diskTotal || host.diskUsed === undefined) {
+        if (!host.diskTotal || host.diskUsed === null || inMaintenance.has(host.id)) {
           continue;
         }
 
@@ -155,6 +188,64 @@ class MonitorWorker {
     }
   }
 
+  /**
+   * Alert on hosts saturating their port
+   */
+  private async checkBandwidth(): Promise<void> {
+    try {
+      await checkBandwidthSaturation();
+    } catch (error) {
+      logger.error('Failed to check bandwidth saturation', { error });
+    }
+  }
+
+  /**
+   * Roll up host metrics and prune expired samples, media checks and probe results
+   */
+  private async maintainMetrics(): Promise<void> {
+    try {
+      await rollupHostMetrics();
+      await pruneHostMetrics();
+      await pruneMediaHistory();
+      await pruneProbeResults();
+    } catch (error) {
+      logger.error('Failed to maintain host metrics', { error });
+    }
+  }
+
+  /**
+   * Expire overdue host commands
+   */
+  private async expireCommands(): Promise<void> {
+    try {
+      await expireHostCommands();
+    } catch (error) {
+      logger.error('Failed to expire host commands', { error });
+    }
+  }
+
+  /**
+   * Reset traffic counters of hosts whose billing cycle ended
+   */
+  private async resetTrafficCycles(): Promise<void> {
+    try {
+      await resetTrafficCycles();
+    } catch (error) {
+      logger.error('Failed to reset traffic cycles', { error });
+    }
+  }
+
+  /**
+   * Send renewal reminders and expiry alerts
+   */
+  private async checkRenewals(): Promise<void> {
+    try {
+      await checkHostRenewals();
+    } catch (error) {
+      logger.error('Failed to check host renewals', { error });
+    }
+  }
+
   /**
    * Log system statistics
    */
@@ -0,0 +1,46 @@
+/**
+ * Route test helpers
+ * Sends requests through the full app, with the auth, rate limit and audit plugins in front
+ */
+
+/**
+ * API keys the test setup configures for each scope
+ */
+export const TEST_KEYS = {
+  admin: 'test-admin-key',
+  agent: 'test-agent-key',
+  panel: 'test-panel-key',
+};
+
+export interface ApiResult<T = any> {
+  status: number;
+  headers: Headers;
+  body: { success: boolean; data: T; error: { code: string; message: string } | null };
+}
+
+/**
+ * Call an API route the way a client would
+ * `key` is an API key or session token sent as a bearer token; `body` is sent as JSON
+ */
+export async function callApi<T = any>(
+  method: string,
+  path: string,
+  options: { key?: string | null; body?: unknown; headers?: Record<string, string> } = {}
+): Promise<ApiResult<T>> {
+  // Loaded on first call: the test setup imports this file before pointing @/db at the test database
+  const { default: app } = await import('@/app');
+
+  const headers = new Headers(options.headers);
+  const key = options.key === undefined ? TEST_KEYS.admin : options.key;
+  if (key) {
+    headers.set('authorization', `Bearer ${key}`);
+  }
+  if (options.body !== undefined && !headers.has('content-type')) {
+    headers.set('content-type', 'application/json');
+  }
+
+  const body = typeof options.body === 'string' ? options.body : JSON.stringify(options.body);
+
+  const response = await app.handle(new Request(`http://localhost${path}`, { method, headers, body }));
+  return { status: response.status, headers: response.headers, body: await response.json() };
+}
@@ -0,0 +1,71 @@
+/**
+ * Audit module tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import {
+  diffSnapshots,
+  redactSecrets,
+  isAuditedRequest,
+  recordAudit,
+  getAuditLogs,
+} from '@/modules/audit/service';
+
+describe('Audit Module', () => {
+  describe('diffSnapshots', () => {
+    it('should list changed fields only', () => {
+      const changes = diffSnapshots({ name: 'a', port: 1, domain: 'x' }, { name: 'a', port: 2, domain: null });
+
+      expect(changes).toEqual({
+        port: { from: 1, to: 2 },
+        domain: { from: 'x', to: null },
+      });
+    });
+
+    it('should treat missing snapshots as empty', () => {
+      expect(diffSnapshots(null, { id: 1 })).toEqual({ id: { from: null, to: 1 } });
+    });
+  });
+
+  describe('redactSecrets', () => {
+    it('should hide secret fields', () => {
+      const redacted = redactSecrets({ id: 1, agentToken: 'nh_secret', nested: { dnsApiKey: 'k' } });
+
+      expect(redacted).toEqual({ id: 1, agentToken: '[REDACTED]', nested: { dnsApiKey: '[REDACTED]' } });
+    });
+  });
+
+  describe('isAuditedRequest', () => {
+    it('should audit mutating calls on managed routes', () => {
+      expect(isAuditedRequest('DELETE', '/hosts/1')).toBe(true);
+      expect(isAuditedRequest('PATCH', '/nodes/2')).toBe(true);
+      expect(isAuditedRequest('POST', '/config/templates/reload')).toBe(true);
+      expect(isAuditedRequest('POST', '/dns/update')).toBe(true);
+    });
+
+    it('should skip reads and heartbeats', () => {
+      expect(isAuditedRequest('GET', '/hosts/1')).toBe(false);
+      expect(isAuditedRequest('POST', '/hosts/heartbeat')).toBe(false);
+      expect(isAuditedRequest('POST', '/dns/check')).toBe(false);
+    });
+  });
+
+  describe('recordAudit', () => {
+    it('should store entry with diff and filter by actor', async () => {
+      await recordAudit({
+        actor: 'test-actor',
+        action: 'PATCH /nodes/:id',
+        entityType: 'node',
+        entityId: 42,
+        before: { port: 1000 },
+        after: { port: 2000 },
+      });
+
+      const entries = await getAuditLogs({ actor: 'test-actor', entityType: 'node' });
+
+      expect(entries.length).toBe(1);
+      expect(entries[0].entityId).toBe(42);
+      expect(JSON.parse(entries[0].changes!)).toEqual({ port: { from: 1000, to: 2000 } });
+    });
+  });
+});
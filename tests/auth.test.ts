@@ -0,0 +1,204 @@
+/**
+ * Auth module tests
+ */
+
+import { describe, it, expect, beforeAll, spyOn } from 'bun:test';
+import config from '@/utils/config';
+import { signJwt, verifyJwt } from '@/utils/jwt';
+import { extractCredential, isRouteAllowed } from '@/modules/auth/service';
+import { createUser, updateUser, login, logout, resolveSessionToken } from '@/modules/auth/users';
+import type { AuthPrincipal } from '@/modules/auth/model';
+import { callApi, TEST_KEYS } from './api';
+
+const principal = (role: AuthPrincipal['role']): AuthPrincipal => ({
+  type: 'api_key',
+  role,
+  name: `${role}-key`,
+});
+
+describe('Auth Module', () => {
+  beforeAll(() => {
+    config.security.jwt_secret = 'test-jwt-secret';
+  });
+
+  describe('extractCredential', () => {
+    it('should read bearer token', () => {
+      const headers = new Headers({ Authorization: 'Bearer secret-1' });
+      expect(extractCredential(headers)).toBe('secret-1');
+    });
+
+    it('should read X-API-Key header', () => {
+      const headers = new Headers({ 'X-API-Key': 'secret-2' });
+      expect(extractCredential(headers)).toBe('secret-2');
+    });
+
+    it('should return null without credentials', () => {
+      expect(extractCredential(new Headers())).toBeNull();
+    });
+  });
+
+  describe('isRouteAllowed', () => {
+    it('should allow admin everywhere', () => {
+      expect(isRouteAllowed(principal('admin'), 'DELETE', '/hosts/1')).toBe(true);
+    });
+
+    it('should limit agent to registration, heartbeat, the agent channel and config downloads', () => {
+      const agent = principal('agent');
+      expect(isRouteAllowed(agent, 'POST', '/hosts/register')).toBe(true);
+      expect(isRouteAllowed(agent, 'POST', '/hosts/heartbeat')).toBe(true);
+      expect(isRouteAllowed(agent, 'GET', '/hosts/channel')).toBe(true);
+      expect(isRouteAllowed(agent, 'GET', '/hosts/channel/connections')).toBe(false);
+      expect(isRouteAllowed(agent, 'POST', '/hosts/commands/1/result')).toBe(true);
+      expect(isRouteAllowed(agent, 'POST', '/hosts/commands')).toBe(false);
+      expect(isRouteAllowed(agent, 'GET', '/network/probes/targets')).toBe(true);
+      expect(isRouteAllowed(agent, 'POST', '/network/probes')).toBe(true);
+      expect(isRouteAllowed(agent, 'GET', '/network/matrix')).toBe(false);
+      expect(isRouteAllowed(agent, 'GET', '/config/node/1/xray')).toBe(true);
+      expect(isRouteAllowed(agent, 'GET', '/hosts')).toBe(false);
+      expect(isRouteAllowed(agent, 'DELETE', '/hosts/1')).toBe(false);
+    });
+
+    it('should limit panel to reading nodes', () => {
+      const panel = principal('panel');
+      expect(isRouteAllowed(panel, 'GET', '/nodes')).toBe(true);
+      expect(isRouteAllowed(panel, 'GET', '/nodes/3')).toBe(true);
+      expect(isRouteAllowed(panel, 'PATCH', '/nodes/3')).toBe(false);
+      expect(isRouteAllowed(panel, 'GET', '/hosts')).toBe(false);
+    });
+
+    it('should limit viewer to reading inventory', () => {
+      const viewer = principal('viewer');
+      expect(isRouteAllowed(viewer, 'GET', '/hosts')).toBe(true);
+      expect(isRouteAllowed(viewer, 'GET', '/dns/records/1')).toBe(true);
+      expect(isRouteAllowed(viewer, 'GET', '/reports/availability')).toBe(true);
+      expect(isRouteAllowed(viewer, 'GET', '/network/matrix')).toBe(true);
+      expect(isRouteAllowed(viewer, 'GET', '/auth/me')).toBe(true);
+      expect(isRouteAllowed(viewer, 'PATCH', '/nodes/3')).toBe(false);
+      expect(isRouteAllowed(viewer, 'POST', '/dns/update')).toBe(false);
+      expect(isRouteAllowed(viewer, 'GET', '/auth/users')).toBe(false);
+    });
+
+    it('should let operator edit nodes, trigger DNS updates and schedule maintenance', () => {
+      const operator = principal('operator');
+      expect(isRouteAllowed(operator, 'POST', '/nodes')).toBe(true);
+      expect(isRouteAllowed(operator, 'PATCH', '/nodes/3')).toBe(true);
+      expect(isRouteAllowed(operator, 'POST', '/nodes/3/link/1')).toBe(true);
+      expect(isRouteAllowed(operator, 'POST', '/dns/update')).toBe(true);
+      expect(isRouteAllowed(operator, 'POST', '/hosts/maintenance')).toBe(true);
+      expect(isRouteAllowed(operator, 'DELETE', '/hosts/maintenance/2')).toBe(false);
+      expect(isRouteAllowed(operator, 'DELETE', '/hosts/1')).toBe(false);
+      expect(isRouteAllowed(operator, 'POST', '/auth/users')).toBe(false);
+    });
+
+    it('should enforce key scopes on HTTP routes', async () => {
+      expect((await callApi('GET', '/health', { key: null })).status).toBe(200);
+      expect((await callApi('GET', '/hosts', { key: null })).status).toBe(401);
+      expect((await callApi('GET', '/hosts', { key: 'not-a-real-key' })).status).toBe(401);
+      expect((await callApi('GET', '/hosts', { key: TEST_KEYS.agent })).status).toBe(403);
+      expect((await callApi('GET', '/nodes', { key: TEST_KEYS.panel })).status).toBe(200);
+      expect((await callApi('DELETE', '/nodes/999999', { key: TEST_KEYS.panel })).body.error?.code).toBe('FORBIDDEN');
+      expect((await callApi('GET', '/hosts')).body.success).toBe(true);
+    });
+  });
+
+  describe('jwt', () => {
+    it('should reject tampered and expired tokens', () => {
+      const now = Math.floor(Date.now() / 1000);
+      const token = signJwt({ sub: '1', jti: 'a', iat: now, exp: now + 60 }, 'secret');
+      const expired = signJwt({ sub: '1', jti: 'a', iat: now - 120, exp: now - 60 }, 'secret');
+
+      expect(verifyJwt(token, 'secret')?.sub).toBe('1');
+      expect(verifyJwt(token, 'other-secret')).toBeNull();
+      expect(verifyJwt(expired, 'secret')).toBeNull();
+    });
+  });
+
+  describe('user sessions', () => {
+    const username = `operator-${Date.now()}`;
+
+    it('should not store plaintext passwords', async () => {
+      const user = await createUser({ username, password: 'correct-horse', role: 'operator' });
+
+      expect(user.role).toBe('operator');
+      expect(user).not.toHaveProperty('passwordHash');
+    });
+
+    it('should reject duplicate usernames', async () => {
+      let error: Error | null = null;
+      try {
+        await createUser({ username, password: 'correct-horse' });
+      } catch (e) {
+        error = e as Error;
+      }
+      expect(error?.message).toContain('already exists');
+    });
+
+    it('should reject wrong password', async () => {
+      let error: Error | null = null;
+      try {
+        await login(username, 'wrong-password');
+      } catch (e) {
+        error = e as Error;
+      }
+      expect(error?.message).toBe('Invalid username or password');
+    });
+
+    it('should check a password hash for unknown users too', async () => {
+      const verify = spyOn(Bun.password, 'verify');
+
+      await expect(login('no-such-user', 'correct-horse')).rejects.toThrow('Invalid username or password');
+      expect(verify).toHaveBeenCalledTimes(1);
+      verify.mockRestore();
+    });
+
+    it('should resolve session until logout', async () => {
+      const { token } = await login(username, 'correct-horse');
+      const session = await resolveSessionToken(token);
+
+      expect(session?.type).toBe('user');
+      expect(session?.role).toBe('operator');
+      expect(session?.name).toBe(`user:${username}`);
+
+      await logout(session!.sessionId!);
+      expect(await resolveSessionToken(token)).toBeNull();
+    });
+
+    it('should apply the user role to HTTP routes', async () => {
+      const loggedIn = await callApi('POST', '/auth/login', {
+        key: null,
+        body: { username, password: 'correct-horse' },
+      });
+      expect(loggedIn.status).toBe(200);
+      const { token } = loggedIn.body.data;
+
+      expect((await callApi('GET', '/auth/me', { key: token })).body.data.role).toBe('operator');
+      expect((await callApi('GET', '/hosts', { key: token })).status).toBe(200);
+      expect((await callApi('DELETE', '/hosts/999999', { key: token })).status).toBe(403);
+      expect((await callApi('GET', '/auth/users', { key: token })).status).toBe(403);
+
+      const wrong = await callApi('POST', '/auth/login', { key: null, body: { username, password: 'wrong' } });
+      expect(wrong.body.error?.code).toBe('INVALID_CREDENTIALS');
+    });
+
+    it('should fall back to a day-long session without session_ttl', async () => {
+      const sessionTtl = config.security.session_ttl;
+      delete config.security.session_ttl;
+
+      try {
+        const now = Math.floor(Date.now() / 1000);
+        const { token, expiresAt } = await login(username, 'correct-horse');
+        expect(expiresAt).toBeGreaterThanOrEqual(now + 86400);
+        expect(await resolveSessionToken(token)).not.toBeNull();
+      } finally {
+        config.security.session_ttl = sessionTtl;
+      }
+    });
+
+    it('should end sessions when user is deactivated', async () => {
+      const { token, user } = await login(username, 'correct-horse');
+      await updateUser(user.id, { isActive: false });
+
+      expect(await resolveSessionToken(token)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * DNS module tests
+ */
+
+import { describe, it, expect, spyOn } from 'bun:test';
+import { createNode } from '@/modules/node/service';
+import { DnsWorker } from '@/workers/dns';
+import { callApi } from './api';
+
+describe('DNS Module', () => {
+  describe('POST /dns/update', () => {
+    it('should only queue updates for existing nodes', async () => {
+      const addUpdateTask = spyOn(DnsWorker.prototype, 'addUpdateTask').mockResolvedValue(true);
+      try {
+        const missing = await callApi('POST', '/dns/update', {
+          body: { nodeId: 999999, domain: 'missing.example.com', type: 'A', value: '203.0.113.10' },
+        });
+        expect(missing.body.success).toBe(false);
+        expect(missing.body.error?.code).toBe('NODE_NOT_FOUND');
+        expect(addUpdateTask).not.toHaveBeenCalled();
+
+        const node = await createNode({
+          panelType: 'ssp',
+          panelNodeId: 980,
+          panelUrl: 'https://ssp.example.com',
+          name: 'test-node-dns-update',
+          port: 8388,
+          proxyType: 'shadowsocks',
+        });
+        const updated = await callApi('POST', '/dns/update', {
+          body: { nodeId: node.id, domain: 'node.example.com', type: 'A', value: '203.0.113.10' },
+        });
+        expect(updated.body).toMatchObject({ success: true, data: { domain: 'node.example.com', type: 'A' } });
+        expect(addUpdateTask).toHaveBeenCalledTimes(1);
+      } finally {
+        addUpdateTask.mockRestore();
+      }
+    });
+  });
+});
@@ -2,10 +2,71 @@
  * Host module tests
  */
 
-import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'bun:test';
-import { db, hosts } from '@/db';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, spyOn } from 'bun:test';
+import { db, hosts, hostMetrics, hostCommands, nodes, dnsRecords, hostArchives } from '@/db';
 import { eq } from 'drizzle-orm';
-import { createHost, getHostById, getAllHosts, updateHost, deleteHost, processHeartbeat } from '@/modules/host/service';
+import {
+  createHost,
+  getHostById,
+  getHostByName,
+  getAllHosts,
+  getHostStats,
+  updateHost,
+  deleteHost,
+  processHeartbeat,
+  applyHeartbeat,
+  rotateHostToken,
+  revokeHostAccess,
+  markOfflineHosts,
+} from '@/modules/host/service';
+import { signHeartbeat } from '@/modules/host/signature';
+import { aggregateSamples, rollupHostMetrics, pruneHostMetrics, getHostMetrics } from '@/modules/host/metrics';
+import { getCycleBounds, quotaUsage, getTrafficQuotaStatus, resetTrafficCycles } from '@/modules/host/quota';
+import { counterDelta } from '@/modules/host/traffic';
+import { getPortSpeed, getPortUsage, checkBandwidthSaturation } from '@/modules/host/bandwidth';
+import { parseIp, isPublicIp, detectIpChanges, getHostIpChanges } from '@/modules/host/address';
+import { getReminderStage, getDaysLeft, checkHostRenewals, getExpiringHosts } from '@/modules/host/renewal';
+import { registerHost } from '@/modules/host/registration';
+import { toGeoIpResult, lookupIp, enrichAllHosts } from '@/modules/host/geoip';
+import { normalizeService, getHostMedia, getHostMediaHistory, getMediaMatrix } from '@/modules/host/media';
+import {
+  getMaintenanceState,
+  createMaintenanceWindow,
+  getMaintenanceWindows,
+  endMaintenanceWindow,
+} from '@/modules/host/maintenance';
+import { decommissionHost } from '@/modules/host/decommission';
+import { authenticateAgent, openAgentChannel, closeAgentChannel, handleAgentMessage } from '@/modules/host/channel';
+import { isAgentConnected, pushToAgent } from '@/modules/host/connections';
+import {
+  enqueueHostCommand,
+  claimHostCommands,
+  reportHostCommandResult,
+  expireHostCommands,
+} from '@/modules/host/commands';
+import { createNode, getNodeById } from '@/modules/node/service';
+import * as dnsService from '@/modules/dns/service';
+import type { DnsProvider } from '@/modules/dns/model';
+import { parseDuration } from '@/utils/duration';
+import config from '@/utils/config';
+import type { HostHeartbeat } from '@/modules/host/model';
+import { callApi, TEST_KEYS } from './api';
+
+/**
+ * Sign and process a heartbeat the way an agent would send it
+ */
+function sendHeartbeat(heartbeat: HostHeartbeat, agentToken: string, sourceIp: string | null = null) {
+  const rawBody = JSON.stringify(heartbeat);
+  return processHeartbeat(
+    heartbeat,
+    {
+      agentToken,
+      signature: signHeartbeat(rawBody, agentToken),
+      rawBody,
+    },
+    sourceIp
+  );
+}
 
 describe('Host Module', () => {
   beforeAll(async () => {
@@ -79,7 +140,7 @@ describe('Host Module', () => {
   });
 
   describe('processHeartbeat', () => {
-    it('should create new host from heartbeat', async () => {
+    it('should reject heartbeat from unknown host', async () => {
       const heartbeat = {
         name: 'test-host-heartbeat',
         cpuUsage: 45.5,
@@ -89,13 +150,10 @@ describe('Host Module', () => {
         downloadTotal: 2000000,
         uptime: 3600,
         timestamp: Math.floor(Date.now() / 1000),
+        nonce: crypto.randomUUID(),
       };
 
-      const host = await processHeartbeat(heartbeat);
-
-      expect(host).toBeDefined();
-      expect(host.name).toBe(heartbeat.name);
-      expect(host.status).toBe('online');
+      await expect(sendHeartbeat(heartbeat, 'nh_unknown')).rejects.toThrow('not found');
     });
 
     it('should update existing host from heartbeat', async () => {
@@ -118,13 +176,159 @@ describe('Host Module', () => {
         downloadTotal: 10000000,
         uptime: 7200,
         timestamp: Math.floor(Date.now() / 1000),
+        nonce: crypto.randomUUID(),
       };
 
-      const updated = await processHeartbeat(heartbeat);
+      const updated = await sendHeartbeat(heartbeat, created.agentToken);
 
       expect(updated.cpuUsage).toBe(heartbeat.cpuUsage);
       expect(updated.status).toBe('online');
     });
+
+    it('should reject heartbeat with wrong or revoked token', async () => {
+      const created = await createHost({
+        name: 'test-host-token',
+        ip: '192.168.1.7',
+        cpuCores: 2,
+        memoryTotal: 2048,
+        diskTotal: 40,
+      });
+
+      const heartbeat = () => ({
+        name: 'test-host-token',
+        cpuUsage: 10,
+        memoryUsed: 512,
+        diskUsed: 5,
+        uploadTotal: 0,
+        downloadTotal: 0,
+        uptime: 60,
+        timestamp: Math.floor(Date.now() / 1000),
+        nonce: crypto.randomUUID(),
+      });
+
+      await expect(sendHeartbeat(heartbeat(), 'nh_wrong')).rejects.toThrow('Invalid agent token');
+
+      const rotated = (await rotateHostToken(created.id))!;
+      await expect(sendHeartbeat(heartbeat(), created.agentToken)).rejects.toThrow('Invalid agent token');
+
+      const host = await sendHeartbeat(heartbeat(), rotated);
+      expect(host.status).toBe('online');
+
+      await revokeHostAccess(created.id);
+      await expect(sendHeartbeat(heartbeat(), rotated)).rejects.toThrow('Invalid agent token');
+    });
+
+    it('should reject unsigned, stale and replayed heartbeats', async () => {
+      const created = await createHost({
+        name: 'test-host-signature',
+        ip: '192.168.1.8',
+        cpuCores: 2,
+        memoryTotal: 2048,
+        diskTotal: 40,
+      });
+
+      const heartbeat = {
+        name: 'test-host-signature',
+        cpuUsage: 10,
+        memoryUsed: 512,
+        diskUsed: 5,
+        uploadTotal: 0,
+        downloadTotal: 0,
+        uptime: 60,
+        timestamp: Math.floor(Date.now() / 1000),
+        nonce: crypto.randomUUID(),
+      };
+      const rawBody = JSON.stringify(heartbeat);
+
+      await expect(
+        processHeartbeat(heartbeat, { agentToken: created.agentToken, signature: null, rawBody })
+      ).rejects.toThrow('invalid signature');
+
+      await expect(
+        processHeartbeat(heartbeat, {
+          agentToken: created.agentToken,
+          signature: signHeartbeat(rawBody, created.agentToken),
+          rawBody: JSON.stringify({ ...heartbeat, cpuUsage: 99 }),
+        })
+      ).rejects.toThrow('invalid signature');
+
+      await expect(
+        sendHeartbeat({ ...heartbeat, timestamp: heartbeat.timestamp - 3600 }, created.agentToken)
+      ).rejects.toThrow('skew');
+
+      await sendHeartbeat(heartbeat, created.agentToken);
+      await expect(sendHeartbeat(heartbeat, created.agentToken)).rejects.toThrow('nonce');
+    });
+
+    it('should verify the signature over the raw heartbeat body', async () => {
+      const created = await createHost({
+        name: 'test-host-signature-api',
+        ip: '192.168.1.9',
+        cpuCores: 2,
+        memoryTotal: 2048,
+        diskTotal: 40,
+      });
+      const post = (rawBody: string, signature: string) =>
+        callApi('POST', '/hosts/heartbeat', {
+          key: TEST_KEYS.agent,
+          body: rawBody,
+          headers: { 'X-Host-Token': created.agentToken, 'X-Signature': signature },
+        });
+
+      // Signed as sent, whitespace included, not as the hub would re-serialize it
+      const rawBody = JSON.stringify(
+        {
+          name: 'test-host-signature-api',
+          cpuUsage: 10,
+          memoryUsed: 512,
+          diskUsed: 5,
+          uploadTotal: 0,
+          downloadTotal: 0,
+          uptime: 60,
+          timestamp: Math.floor(Date.now() / 1000),
+          nonce: crypto.randomUUID(),
+        },
+        null,
+        2
+      );
+      const signature = signHeartbeat(rawBody, created.agentToken);
+
+      const tampered = await post(rawBody.replace('"cpuUsage": 10', '"cpuUsage": 99'), signature);
+      expect(tampered.status).toBe(401);
+      expect(tampered.body.error?.message).toContain('invalid signature');
+
+      const accepted = await post(rawBody, signature);
+      expect(accepted.status).toBe(200);
+      expect(accepted.body.data).toMatchObject({ id: created.id, status: 'online', commands: [] });
+
+      const replayed = await post(rawBody, signature);
+      expect(replayed.status).toBe(401);
+      expect(replayed.body.error?.message).toContain('nonce');
+    });
+
+    it('should reject a heartbeat body that is not valid JSON', async () => {
+      const created = await createHost({
+        name: 'test-host-malformed',
+        ip: '192.168.1.10',
+        cpuCores: 2,
+        memoryTotal: 2048,
+        diskTotal: 40,
+      });
+
+      const rawBody = '{"name": "test-host-malformed",';
+      const result = await callApi('POST', '/hosts/heartbeat', {
+        key: TEST_KEYS.agent,
+        body: rawBody,
+        headers: { 'X-Host-Token': created.agentToken, 'X-Signature': signHeartbeat(rawBody, created.agentToken) },
+      });
+
+      expect(result.status).toBe(400);
+      expect(result.body.success).toBe(false);
+      expect(result.body.error).toMatchObject({
+        code: 'INVALID_REQUEST',
+        message: 'Heartbeat body is not valid JSON',
+      });
+    });
   });
 
   describe('updateHost', () => {
@@ -147,6 +351,58 @@ describe('Host Module', () => {
       expect(updated).toBeDefined();
       expect(updated?.status).toBe('offline');
     });
+
+    it('should update inventory details', async () => {
+      const created = await createHost({
+        name: 'test-host-inventory',
+        ip: '192.168.1.13',
+        cpuCores: 1,
+        memoryTotal: 1024,
+        diskTotal: 20,
+        provider: 'BandwagonHost',
+        tags: ['HK', 'cn2', 'hk'],
+      });
+      expect(created.tags).toBe('hk,cn2');
+
+      const updated = await updateHost(created.id, {
+        alias: 'HK VPS 01',
+        plan: 'Mega Box',
+        price: 9.99,
+        currency: 'usd',
+        expiresAt: 1893456000,
+        tags: ['cn2', ' premium '],
+      });
+
+      expect(updated?.alias).toBe('HK VPS 01');
+      expect(updated?.price).toBe(9.99);
+      expect(updated?.currency).toBe('USD');
+      expect(updated?.tags).toBe('cn2,premium');
+      expect(updated?.provider).toBe('BandwagonHost');
+    });
+  });
+
+  describe('getAllHosts filters', () => {
+    it('should filter by provider, tag, search and expiry', async () => {
+      await createHost({
+        name: 'test-host-filter',
+        ip: '192.168.1.14',
+        cpuCores: 1,
+        memoryTotal: 1024,
+        diskTotal: 20,
+        alias: 'Filter Box',
+        provider: 'RackNerd',
+        tags: ['budget', 'us-west'],
+        expiresAt: 1800000000,
+      });
+
+      const byProvider = await getAllHosts({ provider: 'racknerd' });
+      expect(byProvider.map((host) => host.name)).toEqual(['test-host-filter']);
+
+      expect((await getAllHosts({ tag: 'us-west' })).map((host) => host.name)).toEqual(['test-host-filter']);
+      expect(await getAllHosts({ tag: 'us' })).toHaveLength(0);
+      expect((await getAllHosts({ search: 'Filter Box' })).map((host) => host.name)).toEqual(['test-host-filter']);
+      expect(await getAllHosts({ provider: 'racknerd', expiresBefore: 1700000000 })).toHaveLength(0);
+    });
   });
 
   describe('deleteHost', () => {
@@ -168,4 +424,1138 @@ describe('Host Module', () => {
       expect(retrieved).toBeNull();
     });
   });
+
+  describe('metrics history', () => {
+    it('should record a sample for every heartbeat', async () => {
+      const created = await createHost({
+        name: 'test-host-metrics',
+        ip: '192.168.1.7',
+        cpuCores: 2,
+        memoryTotal: 4096,
+        diskTotal: 50,
+      });
+
+      const timestamp = Math.floor(Date.now() / 1000);
+      for (const cpuUsage of [10, 20]) {
+        await sendHeartbeat(
+          {
+            name: 'test-host-metrics',
+            cpuUsage,
+            memoryUsed: 1024,
+            diskUsed: 10,
+            uploadTotal: 1000,
+            downloadTotal: 2000,
+            uptime: 60,
+            timestamp,
+            nonce: crypto.randomUUID(),
+          },
+          created.agentToken
+        );
+      }
+
+      const samples = await db.select().from(hostMetrics).where(eq(hostMetrics.hostId, created.id));
+      expect(samples.map((sample) => sample.cpuUsage)).toEqual([10, 20]);
+    });
+
+    it('should aggregate samples into buckets', () => {
+      const sample = (createdAt: number, cpuUsage: number, uploadDelta: number) => ({
+        id: createdAt,
+        hostId: 1,
+        cpuUsage,
+        memoryUsed: 1000,
+        diskUsed: 10,
+        uploadTotal: 0,
+        downloadTotal: 0,
+        uploadDelta,
+        downloadDelta: 0,
+        uptime: null,
+        createdAt,
+      });
+
+      const rows = aggregateSamples([sample(300, 10, 200), sample(360, 30, 400), sample(600, 50, 50)], '5m', 1000);
+
+      expect(rows).toHaveLength(2);
+      expect(rows[0]).toMatchObject({ bucketStart: 300, samples: 2, cpuAvg: 20, cpuMax: 30, uploadBytes: 600 });
+      expect(rows[1]).toMatchObject({ bucketStart: 600, samples: 1, uploadBytes: 50 });
+    });
+
+    it('should roll up closed buckets and serve them by resolution', async () => {
+      const created = await createHost({
+        name: 'test-host-rollup',
+        ip: '192.168.1.8',
+        cpuCores: 2,
+        memoryTotal: 4096,
+        diskTotal: 50,
+      });
+
+      const now = Math.floor(Date.now() / 1000);
+      const bucket = Math.floor(now / 300) * 300 - 300;
+      const rows: [number, number, number][] = [
+        [bucket - 60, 5, 0],
+        [bucket, 10, 500],
+        [bucket + 60, 20, 1000],
+        [bucket + 120, 30, 2000],
+      ];
+      await db.insert(hostMetrics).values(
+        rows.map(([createdAt, cpuUsage, uploadDelta]) => ({
+          hostId: created.id,
+          cpuUsage,
+          memoryUsed: 1024,
+          diskUsed: 10,
+          uploadDelta,
+          createdAt,
+        }))
+      );
+
+      await rollupHostMetrics(now);
+
+      const rollup = await getHostMetrics(created.id, { from: bucket, to: bucket, resolution: '5m' });
+      expect(rollup.points).toHaveLength(1);
+      expect(rollup.points[0]).toMatchObject({ timestamp: bucket, samples: 3, cpuUsage: 20, cpuMax: 30, uploadBytes: 3500 });
+
+      const raw = await getHostMetrics(created.id, { from: bucket, to: bucket + 120, resolution: 'raw' });
+      expect(raw.points).toHaveLength(3);
+      expect(raw.points[0].uploadBytes).toBe(500);
+      expect(raw.points[0].uploadRate).toBeCloseTo(500 / 60);
+    });
+
+    it('should recompute rolled-up buckets when a sample arrives late', async () => {
+      const created = await createHost({
+        name: 'test-host-late',
+        ip: '192.168.1.10',
+        cpuCores: 2,
+        memoryTotal: 4096,
+        diskTotal: 50,
+      });
+
+      const now = Math.floor(Date.now() / 1000);
+      const bucket = Math.floor(now / 300) * 300 - 600;
+      await db.insert(hostMetrics).values([
+        { hostId: created.id, cpuUsage: 10, uploadDelta: 100, createdAt: bucket },
+        { hostId: created.id, cpuUsage: 10, uploadDelta: 100, createdAt: bucket + 300 },
+      ]);
+      await rollupHostMetrics(now);
+
+      // Delayed sample for the older of the two buckets, which is no longer the latest rollup
+      await db
+        .insert(hostMetrics)
+        .values({ hostId: created.id, cpuUsage: 30, uploadDelta: 50, createdAt: bucket + 60 });
+      await rollupHostMetrics(now);
+
+      const rollup = await getHostMetrics(created.id, { from: bucket, to: bucket + 300, resolution: '5m' });
+      expect(rollup.points).toHaveLength(2);
+      expect(rollup.points[0]).toMatchObject({ timestamp: bucket, samples: 2, cpuUsage: 20, uploadBytes: 150 });
+      expect(rollup.points[1]).toMatchObject({ timestamp: bucket + 300, samples: 1, uploadBytes: 100 });
+    });
+
+    it('should prune samples past retention', async () => {
+      const created = await createHost({
+        name: 'test-host-prune',
+        ip: '192.168.1.9',
+        cpuCores: 2,
+        memoryTotal: 4096,
+        diskTotal: 50,
+      });
+
+      const now = Math.floor(Date.now() / 1000);
+      await db.insert(hostMetrics).values([
+        { hostId: created.id, cpuUsage: 1, createdAt: now - 30 * 86400 },
+        { hostId: created.id, cpuUsage: 2, createdAt: now },
+      ]);
+
+      await pruneHostMetrics(now);
+
+      const samples = await db.select().from(hostMetrics).where(eq(hostMetrics.hostId, created.id));
+      expect(samples.map((sample) => sample.cpuUsage)).toEqual([2]);
+    });
+  });
+
+  describe('traffic quota', () => {
+    const heartbeatFor = (name: string, uploadTotal: number, downloadTotal: number) => ({
+      name,
+      cpuUsage: 10,
+      memoryUsed: 1024,
+      diskUsed: 10,
+      uploadTotal,
+      downloadTotal,
+      uptime: 60,
+      timestamp: Math.floor(Date.now() / 1000),
+      nonce: crypto.randomUUID(),
+    });
+
+    it('should compute billing cycle bounds', () => {
+      const at = (date: string) => Date.parse(date) / 1000;
+
+      expect(getCycleBounds(15, at('2025-03-20T12:00:00Z'))).toEqual({
+        start: at('2025-03-15T00:00:00Z'),
+        end: at('2025-04-15T00:00:00Z'),
+      });
+      expect(getCycleBounds(15, at('2025-01-10T00:00:00Z')).start).toBe(at('2024-12-15T00:00:00Z'));
+      // Reset day past the end of the month falls on its last day
+      expect(getCycleBounds(31, at('2025-03-01T00:00:00Z'))).toEqual({
+        start: at('2025-02-28T00:00:00Z'),
+        end: at('2025-03-31T00:00:00Z'),
+      });
+    });
+
+    it('should count usage by quota mode', () => {
+      expect(quotaUsage('upload', 3, 5)).toBe(3);
+      expect(quotaUsage('download', 3, 5)).toBe(5);
+      expect(quotaUsage('both', 3, 5)).toBe(8);
+      expect(quotaUsage('max', 3, 5)).toBe(5);
+    });
+
+    it('should accumulate cycle usage from heartbeat deltas', async () => {
+      const created = await createHost({
+        name: 'test-host-quota',
+        ip: '192.168.1.10',
+        cpuCores: 2,
+        memoryTotal: 4096,
+        diskTotal: 50,
+        trafficQuota: 10000,
+        quotaMode: 'both',
+      });
+
+      // First heartbeat only sets the baseline
+      await sendHeartbeat(heartbeatFor('test-host-quota', 50000, 80000), created.agentToken);
+      const updated = await sendHeartbeat(heartbeatFor('test-host-quota', 51000, 82000), created.agentToken);
+
+      expect(updated.cycleUpload).toBe(1000);
+      expect(updated.cycleDownload).toBe(2000);
+
+      const status = getTrafficQuotaStatus(updated);
+      expect(status.used).toBe(3000);
+      expect(status.remaining).toBe(7000);
+      expect(status.percentUsed).toBe(30);
+      expect(status.projected).toBeGreaterThanOrEqual(3000);
+    });
+
+    it('should reset usage when the billing cycle ends', async () => {
+      const created = await createHost({
+        name: 'test-host-quota-reset',
+        ip: '192.168.1.11',
+        cpuCores: 2,
+        memoryTotal: 4096,
+        diskTotal: 50,
+        lastNetworkReset: Math.floor(Date.now() / 1000) - 40 * 86400,
+      });
+      await db.update(hosts).set({ cycleUpload: 500, cycleDownload: 700 }).where(eq(hosts.id, created.id));
+
+      await resetTrafficCycles();
+
+      const host = await getHostById(created.id);
+      expect(host?.cycleUpload).toBe(0);
+      expect(host?.cycleDownload).toBe(0);
+      expect(getTrafficQuotaStatus(host!).quota).toBeNull();
+    });
+  });
+
+  describe('traffic accounting', () => {
+    const heartbeatFor = (uploadTotal: number, downloadTotal: number) => ({
+      name: 'test-host-traffic',
+      cpuUsage: 10,
+      memoryUsed: 1024,
+      diskUsed: 10,
+      uploadTotal,
+      downloadTotal,
+      uptime: 60,
+      timestamp: Math.floor(Date.now() / 1000),
+      nonce: crypto.randomUUID(),
+    });
+
+    it('should treat a lower counter as a reset', () => {
+      expect(counterDelta(1000, 1500)).toBe(500);
+      expect(counterDelta(1000, 200)).toBe(200);
+    });
+
+    it('should keep lifetime totals across agent reboots', async () => {
+      const created = await createHost({
+        name: 'test-host-traffic',
+        ip: '192.168.1.12',
+        cpuCores: 2,
+        memoryTotal: 4096,
+        diskTotal: 50,
+      });
+      const before = await getHostStats();
+
+      await sendHeartbeat(heartbeatFor(10000, 20000), created.agentToken);
+      await sendHeartbeat(heartbeatFor(12000, 25000), created.agentToken);
+      // Reboot: counters start again from zero
+      const updated = await sendHeartbeat(heartbeatFor(300, 400), created.agentToken);
+
+      expect(updated.uploadTotal).toBe(300);
+      expect(updated.lifetimeUpload).toBe(12300);
+      expect(updated.lifetimeDownload).toBe(25400);
+      expect(updated.intervalUpload).toBe(300);
+      expect(updated.intervalDownload).toBe(400);
+
+      const after = await getHostStats();
+      expect(after.totalTrafficUpload - before.totalTrafficUpload).toBe(12300);
+      expect(after.totalTrafficDownload - before.totalTrafficDownload).toBe(25400);
+    });
+  });
+
+  describe('bandwidth rates', () => {
+    const sampleOf = (uploadTotal: number, downloadTotal: number) => ({
+      cpuUsage: 10,
+      memoryUsed: 1024,
+      diskUsed: 10,
+      uploadTotal,
+      downloadTotal,
+      uptime: 60,
+    });
+
+    it('should take the configured port speed over reported interfaces', () => {
+      const interfaces = JSON.stringify([
+        { name: 'eth0', speed: 1000 },
+        { name: 'eth1', speed: 10000 },
+        { name: 'lo' },
+      ]);
+
+      expect(getPortSpeed({ portSpeed: null, interfaces })).toBe(10000);
+      expect(getPortSpeed({ portSpeed: 100, interfaces })).toBe(100);
+      expect(getPortSpeed({ portSpeed: null, interfaces: null })).toBeNull();
+      expect(getPortUsage({ portSpeed: 100, interfaces: null, uploadRate: 6_250_000, downloadRate: 100 })).toBe(50);
+    });
+
+    it('should compute rates and peaks and alert once on saturation', async () => {
+      const created = await createHost({
+        name: 'test-host-bandwidth',
+        ip: '192.168.1.13',
+        cpuCores: 2,
+        memoryTotal: 4096,
+        diskTotal: 50,
+        portSpeed: 100,
+      });
+      const now = Math.floor(Date.now() / 1000);
+
+      let host = await applyHeartbeat(created, sampleOf(0, 0), null, now - 20);
+      expect(host.uploadRate).toBe(0);
+
+      // 120 MB up in 10 seconds is 96 Mbit/s on a 100 Mbit/s port
+      host = await applyHeartbeat(host, sampleOf(120_000_000, 5_000_000), null, now - 10);
+      expect(host.uploadRate).toBe(12_000_000);
+      expect(host.downloadRate).toBe(500_000);
+      expect(host.lastSampleAt).toBe(now - 10);
+
+      const stats = await getHostStats();
+      expect(stats.throughputUpload).toBeGreaterThanOrEqual(12_000_000);
+
+      expect(await checkBandwidthSaturation(now)).toBe(1);
+      expect((await getHostById(created.id))?.saturatedAt).toBe(now);
+      expect(await checkBandwidthSaturation(now + 60)).toBe(0);
+      expect((await getHostStats()).saturatedHosts).toBeGreaterThanOrEqual(1);
+
+      host = await applyHeartbeat(host, sampleOf(121_000_000, 6_000_000), null, now);
+      expect(host.uploadRate).toBe(100_000);
+      expect(host.peakUploadRate).toBe(12_000_000);
+      expect(host.peakDownloadRate).toBe(500_000);
+
+      await checkBandwidthSaturation(now + 120);
+      expect((await getHostById(created.id))?.saturatedAt).toBeNull();
+    });
+  });
+
+  describe('IP change detection', () => {
+    const heartbeatFor = (extra: Partial<HostHeartbeat> = {}): HostHeartbeat => ({
+      name: 'test-host-ip',
+      cpuUsage: 10,
+      memoryUsed: 1024,
+      diskUsed: 10,
+      uploadTotal: 0,
+      downloadTotal: 0,
+      uptime: 60,
+      timestamp: Math.floor(Date.now() / 1000),
+      nonce: crypto.randomUUID(),
+      ...extra,
+    });
+
+    it('should normalize addresses and skip private ranges', () => {
+      expect(parseIp('::ffff:203.0.113.5')).toEqual({ family: 'ipv4', address: '203.0.113.5' });
+      expect(parseIp('2001:DB8::1')).toEqual({ family: 'ipv6', address: '2001:db8::1' });
+      expect(parseIp('not-an-ip')).toBeNull();
+
+      expect(isPublicIp('203.0.113.5')).toBe(true);
+      expect(isPublicIp('10.0.0.1')).toBe(false);
+      expect(isPublicIp('172.20.1.1')).toBe(false);
+      expect(isPublicIp('100.64.0.1')).toBe(false);
+      expect(isPublicIp('fe80::1')).toBe(false);
+    });
+
+    it('should prefer reported addresses over the request source', () => {
+      const host = { ip: '203.0.113.5', ipv6: null } as any;
+
+      expect(detectIpChanges(host, heartbeatFor({ ip: '203.0.113.9' }), '198.51.100.1')).toEqual([
+        { family: 'ipv4', oldIp: '203.0.113.5', newIp: '203.0.113.9', source: 'heartbeat' },
+      ]);
+      expect(detectIpChanges(host, heartbeatFor(), '198.51.100.1')).toEqual([
+        { family: 'ipv4', oldIp: '203.0.113.5', newIp: '198.51.100.1', source: 'request' },
+      ]);
+      expect(detectIpChanges(host, heartbeatFor(), '10.0.0.8')).toEqual([]);
+      expect(detectIpChanges(host, heartbeatFor({ ip: '203.0.113.5' }), null)).toEqual([]);
+    });
+
+    it('should record address changes from heartbeats', async () => {
+      const created = await createHost({
+        name: 'test-host-ip',
+        ip: '203.0.113.5',
+        cpuCores: 2,
+        memoryTotal: 4096,
+        diskTotal: 50,
+      });
+
+      const updated = await sendHeartbeat(heartbeatFor({ ip: '203.0.113.77' }), created.agentToken, '10.0.0.8');
+      expect(updated.ip).toBe('203.0.113.77');
+
+      const changes = await getHostIpChanges(created.id);
+      expect(changes).toHaveLength(1);
+      expect(changes[0].oldIp).toBe('203.0.113.5');
+      expect(changes[0].newIp).toBe('203.0.113.77');
+      expect(changes[0].source).toBe('heartbeat');
+
+      // Same address again is not a change
+      await sendHeartbeat(heartbeatFor({ ip: '203.0.113.77' }), created.agentToken);
+      expect(await getHostIpChanges(created.id)).toHaveLength(1);
+    });
+  });
+
+  describe('renewal reminders', () => {
+    const DAY = 86400;
+    const now = 1700000000;
+
+    it('should parse durations', () => {
+      expect(parseDuration('30d')).toBe(30 * DAY);
+      expect(parseDuration('2w')).toBe(14 * DAY);
+      expect(parseDuration('12', 'd')).toBe(12 * DAY);
+      expect(parseDuration('soon')).toBeNull();
+    });
+
+    it('should pick the smallest lead time reached', () => {
+      const leadDays = [14, 7, 3, 1];
+      expect(getReminderStage(now + 20 * DAY, now, leadDays)).toBeNull();
+      expect(getReminderStage(now + 10 * DAY, now, leadDays)).toBe(14);
+      expect(getReminderStage(now + 2 * DAY, now, leadDays)).toBe(3);
+      expect(getReminderStage(now - 1, now, leadDays)).toBe(0);
+      expect(getDaysLeft(now + 2.5 * DAY, now)).toBe(3);
+      expect(getDaysLeft(now - 1.5 * DAY, now)).toBe(-1);
+    });
+
+    it('should remind once per lead time and repeat expiry alerts', async () => {
+      const created = await createHost({
+        name: 'test-host-renewal',
+        ip: '192.168.1.15',
+        cpuCores: 1,
+        memoryTotal: 1024,
+        diskTotal: 20,
+        expiresAt: now + 5 * DAY,
+      });
+
+      expect(await checkHostRenewals(now)).toBe(1);
+      expect((await getHostById(created.id))?.renewalReminderDays).toBe(7);
+      expect(await checkHostRenewals(now + 3600)).toBe(0);
+
+      // Expired: alert, then again after the repeat interval
+      expect(await checkHostRenewals(now + 6 * DAY)).toBe(1);
+      expect(await checkHostRenewals(now + 6 * DAY + 3600)).toBe(0);
+      expect(await checkHostRenewals(now + 7 * DAY)).toBe(1);
+
+      const expiring = await getExpiringHosts(30 * DAY, now + 7 * DAY);
+      const entry = expiring.find((host) => host.id === created.id);
+      expect(entry?.expired).toBe(true);
+      expect(entry?.daysLeft).toBe(-2);
+
+      // Renewing starts the sequence over
+      const renewed = await updateHost(created.id, { expiresAt: now + 60 * DAY });
+      expect(renewed?.renewalReminderDays).toBeNull();
+      expect(await checkHostRenewals(now + 7 * DAY)).toBe(0);
+    });
+  });
+
+  describe('registration', () => {
+    const registration = {
+      name: 'test-host-register',
+      ip: '203.0.113.40',
+      cpuCores: 2,
+      cpuModel: 'AMD EPYC 7B13',
+      arch: 'x86_64',
+      memoryTotal: 2048,
+      diskTotal: 40,
+      os: 'debian',
+      osVersion: '12',
+      kernel: '6.1.0-18-amd64',
+      virtualization: 'kvm',
+      interfaces: [{ name: 'eth0', addresses: ['203.0.113.40/24'], speed: 1000 }],
+    };
+    const noAuth = { agentToken: null, enrollmentToken: null };
+    let issuedToken: string | null = null;
+
+    afterAll(() => {
+      config.security.enrollment_token = '';
+    });
+
+    it('should require the enrollment token when configured', async () => {
+      config.security.enrollment_token = 'enroll-secret';
+      await expect(registerHost(registration, noAuth)).rejects.toThrow('invalid enrollment token');
+    });
+
+    it('should create a host with its hardware facts', async () => {
+      const registered = await registerHost(registration, { agentToken: null, enrollmentToken: 'enroll-secret' });
+
+      expect(registered.created).toBe(true);
+      expect(registered.agentToken).toStartWith('nh_');
+      expect(registered.ip).toBe('203.0.113.40');
+      issuedToken = registered.agentToken;
+      expect(registered.cpuCores).toBe(2);
+      expect(registered.virtualization).toBe('kvm');
+      expect(JSON.parse(registered.interfaces!)[0].speed).toBe(1000);
+      expect(registered.registeredAt).toBeGreaterThan(0);
+    });
+
+    it('should refresh facts on re-registration', async () => {
+      const first = await getHostByName('test-host-register');
+      expect(first).toBeDefined();
+
+      await expect(registerHost({ ...registration, memoryTotal: 4096 }, noAuth)).rejects.toThrow(
+        'already registered'
+      );
+
+      const refreshed = await registerHost(
+        { ...registration, memoryTotal: 4096, kernel: '6.1.0-21-amd64' },
+        { agentToken: issuedToken, enrollmentToken: null }
+      );
+      expect(refreshed.created).toBe(false);
+      expect(refreshed.agentToken).toBeNull();
+      expect(refreshed.memoryTotal).toBe(4096);
+      expect(refreshed.kernel).toBe('6.1.0-21-amd64');
+      expect(refreshed.id).toBe(first!.id);
+    });
+
+    it('should not let the enrollment token take over a known host', async () => {
+      await expect(
+        registerHost({ ...registration, ip: '198.51.100.66' }, { agentToken: null, enrollmentToken: 'enroll-secret' })
+      ).rejects.toThrow('already registered');
+      await expect(
+        registerHost(registration, { agentToken: 'nh_not-the-token', enrollmentToken: 'enroll-secret' })
+      ).rejects.toThrow('already registered');
+
+      // The host keeps its address and the agent's token still works
+      const host = await getHostByName('test-host-register');
+      expect(host!.ip).toBe('203.0.113.40');
+      const refreshed = await registerHost(registration, { agentToken: issuedToken, enrollmentToken: null });
+      expect(refreshed.agentToken).toBeNull();
+    });
+  });
+
+  describe('GeoIP enrichment', () => {
+    it('should map city and ASN records to host fields', () => {
+      const city = {
+        country: { iso_code: 'JP', geoname_id: 1, names: { en: 'Japan' } },
+        city: { geoname_id: 2, names: { en: 'Tokyo' } },
+      };
+      const asn = { autonomous_system_number: 2516, autonomous_system_organization: 'KDDI CORPORATION' };
+
+      expect(toGeoIpResult(city, asn)).toEqual({ country: 'JP', city: 'Tokyo', asn: 2516, isp: 'KDDI CORPORATION' });
+      expect(toGeoIpResult(null, { ...asn, isp: 'KDDI', organization: 'KDDI' })).toEqual({
+        country: null,
+        city: null,
+        asn: 2516,
+        isp: 'KDDI',
+      });
+    });
+
+    it('should skip lookups without a configured database', async () => {
+      expect(await lookupIp('203.0.113.5')).toBeNull();
+      await expect(enrichAllHosts()).rejects.toThrow('not configured');
+    });
+  });
+
+  describe('media unlock status', () => {
+    const heartbeatFor = (media: HostHeartbeat['media']): HostHeartbeat => ({
+      name: 'test-host-media',
+      cpuUsage: 10,
+      memoryUsed: 1024,
+      diskUsed: 10,
+      uploadTotal: 0,
+      downloadTotal: 0,
+      uptime: 60,
+      media,
+      timestamp: Math.floor(Date.now() / 1000),
+      nonce: crypto.randomUUID(),
+    });
+
+    it('should normalize service names', () => {
+      expect(normalizeService(' YouTube Premium ')).toBe('youtube_premium');
+      expect(normalizeService('Disney+')).toBe('disney+');
+    });
+
+    it('should keep the latest result and history per service', async () => {
+      const created = await createHost({
+        name: 'test-host-media',
+        ip: '192.168.1.16',
+        cpuCores: 1,
+        memoryTotal: 1024,
+        diskTotal: 20,
+      });
+      const testedAt = Math.floor(Date.now() / 1000) - 600;
+
+      await sendHeartbeat(
+        heartbeatFor([
+          { service: 'Netflix', status: 'unlocked', region: 'us', testedAt },
+          { service: 'ChatGPT', status: 'blocked', testedAt },
+        ]),
+        created.agentToken
+      );
+      // Resent results are ignored; newer ones replace the latest
+      await sendHeartbeat(
+        heartbeatFor([
+          { service: 'netflix', status: 'unlocked', region: 'US', testedAt },
+          { service: 'netflix', status: 'blocked', testedAt: testedAt + 300 },
+        ]),
+        created.agentToken
+      );
+
+      const media = await getHostMedia(created.id);
+      expect(media.map((entry) => [entry.service, entry.status])).toEqual([
+        ['chatgpt', 'blocked'],
+        ['netflix', 'blocked'],
+      ]);
+      expect(media[1].changedAt).toBe(testedAt + 300);
+
+      const history = await getHostMediaHistory(created.id, 'Netflix');
+      expect(history.map((entry) => entry.status)).toEqual(['blocked', 'unlocked']);
+      expect(history[1].region).toBe('US');
+
+      const matrix = await getMediaMatrix();
+      expect(matrix.services).toEqual(expect.arrayContaining(['chatgpt', 'netflix']));
+      const row = matrix.hosts.find((entry) => entry.hostId === created.id);
+      expect(row?.services.netflix?.status).toBe('blocked');
+    });
+  });
+
+  describe('maintenance windows', () => {
+    it('should report window state', () => {
+      const window = { startsAt: 1000, endsAt: 2000 } as Parameters<typeof getMaintenanceState>[0];
+
+      expect(getMaintenanceState(window, 999)).toBe('scheduled');
+      expect(getMaintenanceState(window, 1000)).toBe('active');
+      expect(getMaintenanceState(window, 2000)).toBe('ended');
+    });
+
+    it('should validate the target and period', async () => {
+      await expect(createMaintenanceWindow({ duration: '1h' }, 'admin')).rejects.toThrow('either hostId or tag');
+      await expect(createMaintenanceWindow({ tag: 'x', hostId: 1, duration: '1h' }, 'admin')).rejects.toThrow(
+        'either hostId or tag'
+      );
+      await expect(createMaintenanceWindow({ tag: 'x' }, 'admin')).rejects.toThrow('endsAt or duration');
+      await expect(createMaintenanceWindow({ tag: 'x', duration: 'soon' }, 'admin')).rejects.toThrow(
+        'Invalid duration'
+      );
+      await expect(createMaintenanceWindow({ hostId: 99999, duration: '1h' }, 'admin')).rejects.toThrow('not found');
+    });
+
+    it('should mark silent hosts in a window as in maintenance, then offline once it ends', async () => {
+      const created = await createHost({
+        name: 'test-host-maintenance',
+        ip: '192.168.1.17',
+        cpuCores: 1,
+        memoryTotal: 1024,
+        diskTotal: 20,
+        tags: ['Rebuild'],
+      });
+      const now = Math.floor(Date.now() / 1000);
+      await db.update(hosts).set({ status: 'online', lastHeartbeat: now - 600 }).where(eq(hosts.id, created.id));
+
+      const window = await createMaintenanceWindow({ tag: 'rebuild', duration: '2h', reason: 'Reinstall' }, 'admin');
+      expect(window.state).toBe('active');
+      expect(window.endsAt - window.startsAt).toBe(7200);
+
+      const applying = await getMaintenanceWindows({ hostId: created.id, state: 'active' });
+      expect(applying.map((entry) => entry.id)).toEqual([window.id]);
+
+      await markOfflineHosts(300);
+      expect((await getHostById(created.id))?.status).toBe('maintenance');
+
+      await endMaintenanceWindow(window.id);
+      await expect(endMaintenanceWindow(window.id)).rejects.toThrow('is not active');
+
+      await markOfflineHosts(300);
+      expect((await getHostById(created.id))?.status).toBe('offline');
+    });
+  });
+
+  describe('decommission', () => {
+    const setup = async (suffix: string, address: string) => {
+      const host = await createHost({
+        name: `test-host-retire-${suffix}`,
+        ip: address,
+        ipv6: '2001:db8::10',
+        cpuCores: 1,
+        memoryTotal: 1024,
+        diskTotal: 20,
+      });
+      const node = await createNode({
+        panelType: 'ssp',
+        panelNodeId: 900,
+        panelUrl: 'https://ssp.example.com',
+        name: `test-node-retire-${suffix}`,
+        port: 8388,
+        proxyType: 'shadowsocks',
+        domain: `retire-${suffix}.example.com`,
+      });
+      await db.update(nodes).set({ hostId: host.id }).where(eq(nodes.id, node.id));
+      return { host, node };
+    };
+
+    /**
+     * Stand in for the DNS provider, logging every change made at it
+     */
+    const useFakeProvider = () => {
+      const calls: string[] = [];
+      const provider: DnsProvider = {
+        name: 'fake',
+        updateRecord: async (domain, type, value) => {
+          calls.push(`update ${domain} ${type} ${value}`);
+          return true;
+        },
+        getRecord: async () => null,
+        deleteRecord: async (domain, type) => {
+          calls.push(`delete ${domain} ${type}`);
+          return true;
+        },
+      };
+      return { calls, spy: spyOn(dnsService, 'getDnsProvider').mockReturnValue(provider) };
+    };
+
+    const addRecords = async (nodeId: number, domain: string) => {
+      const now = Math.floor(Date.now() / 1000);
+      for (const [type, value] of [
+        ['A', '203.0.113.20'],
+        ['AAAA', '2001:db8::10'],
+      ]) {
+        await db.insert(dnsRecords).values({ nodeId, domain, type, value, createdAt: now, updatedAt: now });
+      }
+    };
+
+    it('should preview reassignment without changing anything', async () => {
+      const { host, node } = await setup('preview', '203.0.113.20');
+      const target = await createHost({
+        name: 'test-host-retire-target',
+        ip: '203.0.113.21',
+        cpuCores: 1,
+        memoryTotal: 1024,
+        diskTotal: 20,
+      });
+      await addRecords(node.id, 'retire-preview.example.com');
+
+      const plan = await decommissionHost(host.id, { reassignTo: target.id, dryRun: true });
+
+      expect(plan.archiveId).toBeNull();
+      expect(plan.nodes).toEqual([
+        { id: node.id, name: node.name, domain: 'retire-preview.example.com', action: 'reassign', portConflict: null },
+      ]);
+      // The target has no IPv6, so the AAAA record goes
+      expect(plan.dnsRecords.map((record) => [record.type, record.action, record.newValue])).toEqual([
+        ['A', 'repoint', '203.0.113.21'],
+        ['AAAA', 'delete', null],
+      ]);
+      expect(await getHostById(host.id)).not.toBeNull();
+      expect((await getNodeById(node.id))?.hostId).toBe(host.id);
+
+      await expect(decommissionHost(host.id, { reassignTo: host.id })).rejects.toThrow('Cannot reassign');
+      await expect(decommissionHost(host.id, { dnsAction: 'repoint' })).rejects.toThrow('needs reassignTo');
+
+      // DNS changes fail without a provider and the decommission stops before the database
+      await expect(decommissionHost(host.id, { reassignTo: target.id })).rejects.toThrow();
+      expect(await getHostById(host.id)).not.toBeNull();
+      expect((await getNodeById(node.id))?.hostId).toBe(host.id);
+    });
+
+    it('should plan node domains without managed records', async () => {
+      const { host } = await setup('untracked', '203.0.113.24');
+      const target = await createHost({
+        name: 'test-host-retire-untracked-target',
+        ip: '203.0.113.25',
+        cpuCores: 1,
+        memoryTotal: 1024,
+        diskTotal: 20,
+      });
+
+      const plan = await decommissionHost(host.id, { reassignTo: target.id, dryRun: true });
+
+      expect(plan.dnsRecords.map((record) => [record.id, record.domain, record.type, record.action])).toEqual([
+        [null, 'retire-untracked.example.com', 'A', 'repoint'],
+        [null, 'retire-untracked.example.com', 'AAAA', 'delete'],
+      ]);
+    });
+
+    it('should put provider records back when the database changes fail', async () => {
+      const { host, node } = await setup('rollback', '203.0.113.26');
+      await addRecords(node.id, 'retire-rollback.example.com');
+      const { calls, spy } = useFakeProvider();
+      const transaction = spyOn(db, 'transaction').mockImplementationOnce(() => {
+        throw new Error('database is locked');
+      });
+
+      try {
+        await expect(decommissionHost(host.id)).rejects.toThrow('database is locked');
+      } finally {
+        spy.mockRestore();
+        transaction.mockRestore();
+      }
+
+      expect(calls).toEqual([
+        'delete retire-rollback.example.com A',
+        'delete retire-rollback.example.com AAAA',
+        'update retire-rollback.example.com AAAA 2001:db8::10',
+        'update retire-rollback.example.com A 203.0.113.20',
+      ]);
+      expect(await getHostById(host.id)).not.toBeNull();
+      expect((await getNodeById(node.id))?.hostId).toBe(host.id);
+    });
+
+    it('should refuse to move nodes onto ports taken on the new host', async () => {
+      const { host, node } = await setup('ports', '203.0.113.27');
+      const target = await createHost({
+        name: 'test-host-retire-ports-target',
+        ip: '203.0.113.28',
+        cpuCores: 1,
+        memoryTotal: 1024,
+        diskTotal: 20,
+      });
+      await createNode({
+        panelType: 'ssp',
+        panelNodeId: 901,
+        panelUrl: 'https://ssp.example.com',
+        name: 'test-node-retire-ports-taken',
+        hostId: target.id,
+        port: 8388,
+        proxyType: 'shadowsocks',
+      });
+
+      const plan = await decommissionHost(host.id, { reassignTo: target.id, dryRun: true });
+      expect(plan.nodes[0].portConflict).toContain("port 8388 is used by node 'test-node-retire-ports-taken'");
+
+      await expect(decommissionHost(host.id, { reassignTo: target.id })).rejects.toThrow('Port conflict');
+      expect((await getNodeById(node.id))?.hostId).toBe(host.id);
+    });
+
+    it('should refuse a bare delete of a host with nodes', async () => {
+      const { host } = await setup('delete', '203.0.113.22');
+
+      await expect(deleteHost(host.id)).rejects.toThrow('linked nodes');
+    });
+
+    it('should unlink nodes, archive metrics and delete the host', async () => {
+      const { host, node } = await setup('archive', '203.0.113.23');
+      await sendHeartbeat(
+        {
+          name: host.name,
+          cpuUsage: 20,
+          memoryUsed: 512,
+          diskUsed: 5,
+          uploadTotal: 100,
+          downloadTotal: 200,
+          uptime: 60,
+          timestamp: Math.floor(Date.now() / 1000),
+          nonce: crypto.randomUUID(),
+        },
+        host.agentToken
+      );
+
+      const { calls, spy } = useFakeProvider();
+      let result;
+      try {
+        result = await decommissionHost(host.id, { reason: 'Contract ended' }, 'admin');
+      } finally {
+        spy.mockRestore();
+      }
+
+      // The node domain pointed at the host, so its records go too
+      expect(calls).toEqual(['delete retire-archive.example.com A', 'delete retire-archive.example.com AAAA']);
+
+      expect(result.nodes[0].action).toBe('unlink');
+      expect(result.metrics.samples).toBe(1);
+      expect(await getHostById(host.id)).toBeNull();
+      expect((await getNodeById(node.id))?.hostId).toBeNull();
+
+      const [archive] = await db.select().from(hostArchives).where(eq(hostArchives.id, result.archiveId!));
+      expect(archive.name).toBe(host.name);
+      expect(archive.reason).toBe('Contract ended');
+      expect(archive.decommissionedBy).toBe('admin');
+      expect(JSON.parse(archive.metrics)).toHaveLength(1);
+      expect(JSON.parse(archive.snapshot).ip).toBe('203.0.113.23');
+    });
+  });
+
+  describe('agent channel', () => {
+    const createSocket = (id: string) => {
+      const sent: any[] = [];
+      const socket = {
+        id,
+        closed: null as number | null,
+        send: (data: string) => sent.push(JSON.parse(data)),
+        close: (code?: number) => {
+          socket.closed = code ?? 1000;
+        },
+      };
+      return { socket, sent };
+    };
+
+    const sample = (timestamp: number, uploadTotal: number) => ({
+      cpuUsage: 10,
+      memoryUsed: 256,
+      diskUsed: 4,
+      uploadTotal,
+      downloadTotal: 0,
+      uptime: 600,
+      timestamp,
+    });
+
+    it('should reject agents without a valid token', async () => {
+      const created = await createHost({
+        name: 'test-host-channel-auth',
+        ip: '192.168.1.30',
+        cpuCores: 1,
+        memoryTotal: 1024,
+        diskTotal: 20,
+      });
+
+      await expect(authenticateAgent(created.name, 'wrong-token')).rejects.toThrow('Channel rejected');
+      await expect(authenticateAgent('test-host-channel-missing', created.agentToken)).rejects.toThrow(
+        'Channel rejected'
+      );
+      expect((await authenticateAgent(created.name, created.agentToken)).id).toBe(created.id);
+    });
+
+    it('should drive host status from the connection', async () => {
+      const created = await createHost({
+        name: 'test-host-channel-status',
+        ip: '192.168.1.31',
+        cpuCores: 1,
+        memoryTotal: 1024,
+        diskTotal: 20,
+      });
+      const { socket, sent } = createSocket('channel-status-1');
+
+      await openAgentChannel(socket, created, '192.168.1.31');
+      expect(isAgentConnected(created.id)).toBe(true);
+      expect((await getHostById(created.id))?.status).toBe('online');
+      expect(sent[0]).toEqual({ type: 'welcome', data: { hostId: created.id, serverTime: expect.any(Number) } });
+
+      // Connected hosts stay online without heartbeats
+      await db.update(hosts).set({ lastHeartbeat: 0 }).where(eq(hosts.id, created.id));
+      await markOfflineHosts(300);
+      expect((await getHostById(created.id))?.status).toBe('online');
+
+      // A reconnect replaces the old socket, whose close leaves the host online
+      const replacement = createSocket('channel-status-2');
+      await openAgentChannel(replacement.socket, created, '192.168.1.31');
+      expect(socket.closed).toBe(4000);
+      await closeAgentChannel(socket.id);
+      expect((await getHostById(created.id))?.status).toBe('online');
+
+      await closeAgentChannel(replacement.socket.id);
+      expect(isAgentConnected(created.id)).toBe(false);
+      expect((await getHostById(created.id))?.status).toBe('offline');
+    });
+
+    it('should apply heartbeats and metric batches once', async () => {
+      const created = await createHost({
+        name: 'test-host-channel-metrics',
+        ip: '192.168.1.32',
+        cpuCores: 1,
+        memoryTotal: 1024,
+        diskTotal: 20,
+      });
+      const { socket } = createSocket('channel-metrics');
+      await openAgentChannel(socket, created, null);
+      const now = Math.floor(Date.now() / 1000);
+
+      const batch = { samples: [sample(now - 20, 300), sample(now - 40, 100), sample(now - 30, 200)] };
+      expect(await handleAgentMessage(socket.id, { type: 'metrics', id: 'm1', data: batch })).toEqual({
+        type: 'ack',
+        id: 'm1',
+        success: true,
+        data: { applied: 3 },
+      });
+      // Resent batches are ignored
+      expect((await handleAgentMessage(socket.id, { type: 'metrics', id: 'm2', data: batch }))?.data).toEqual({
+        applied: 0,
+      });
+
+      const heartbeat = { ...sample(now, 350), nonce: crypto.randomUUID() };
+      expect((await handleAgentMessage(socket.id, { type: 'heartbeat', id: 'h1', data: heartbeat }))?.success).toBe(
+        true
+      );
+      const replay = await handleAgentMessage(socket.id, { type: 'heartbeat', id: 'h2', data: heartbeat });
+      expect(replay?.error).toContain('nonce has already been used');
+
+      const rows = await db.select().from(hostMetrics).where(eq(hostMetrics.hostId, created.id));
+      expect(rows.map((row) => row.uploadDelta)).toEqual([100, 100, 100, 50]);
+      expect((await getHostById(created.id))?.uploadTotal).toBe(350);
+
+      const unknown = await handleAgentMessage(socket.id, { type: 'reboot', id: 'x1' });
+      expect(unknown).toEqual({ type: 'ack', id: 'x1', success: false, error: 'Unknown message type: reboot' });
+
+      await closeAgentChannel(socket.id);
+    });
+
+    it('should resolve pushed messages with the agent acknowledgement', async () => {
+      const created = await createHost({
+        name: 'test-host-channel-push',
+        ip: '192.168.1.33',
+        cpuCores: 1,
+        memoryTotal: 1024,
+        diskTotal: 20,
+      });
+      const { socket, sent } = createSocket('channel-push');
+      await openAgentChannel(socket, created, null);
+
+      const pushed = pushToAgent(created.id, 'refresh', { reason: 'test' });
+      const message = sent[sent.length - 1];
+      expect(message.type).toBe('refresh');
+      expect(await handleAgentMessage(socket.id, { type: 'ack', id: message.id, success: true } as any)).toBeNull();
+      expect((await pushed)?.success).toBe(true);
+
+      expect(await pushToAgent(created.id + 1000, 'refresh', {})).toBeNull();
+      await closeAgentChannel(socket.id);
+    });
+  });
+
+  describe('command queue', () => {
+    it('should validate the target and expiry', async () => {
+      await expect(enqueueHostCommand({ type: 'reload_xray' }, 'admin')).rejects.toThrow('either hostId or tag');
+      await expect(enqueueHostCommand({ hostId: 1, type: 'reboot' as any }, 'admin')).rejects.toThrow(
+        'Invalid command type'
+      );
+      await expect(
+        enqueueHostCommand({ hostId: 1, type: 'reload_xray', expiresIn: 'later' }, 'admin')
+      ).rejects.toThrow('Invalid duration');
+      await expect(enqueueHostCommand({ hostId: 99999, type: 'reload_xray' }, 'admin')).rejects.toThrow('not found');
+      await expect(enqueueHostCommand({ tag: 'no-such-tag', type: 'reload_xray' }, 'admin')).rejects.toThrow(
+        'No hosts found'
+      );
+    });
+
+    it('should reuse commands queued under the same idempotency key', async () => {
+      const created = await createHost({
+        name: 'test-host-command',
+        ip: '192.168.1.40',
+        cpuCores: 1,
+        memoryTotal: 1024,
+        diskTotal: 20,
+        tags: ['CommandFleet'],
+      });
+
+      const [command] = await enqueueHostCommand(
+        { tag: 'commandfleet', type: 'pull_config', payload: { node: 7 }, idempotencyKey: 'deploy-42' },
+        'admin'
+      );
+      const [again] = await enqueueHostCommand(
+        { hostId: created.id, type: 'pull_config', idempotencyKey: 'deploy-42' },
+        'admin'
+      );
+      expect(again.id).toBe(command.id);
+      expect(command.hostId).toBe(created.id);
+
+      await expect(reportHostCommandResult(command.id, created.agentToken, { status: 'succeeded' })).rejects.toThrow(
+        'has not been delivered'
+      );
+      await expect(reportHostCommandResult(command.id, 'wrong-token', { status: 'succeeded' })).rejects.toThrow(
+        'Invalid agent token'
+      );
+    });
+
+    it('should hand out pending commands and expire overdue ones', async () => {
+      const created = await createHost({
+        name: 'test-host-command-expiry',
+        ip: '192.168.1.41',
+        cpuCores: 1,
+        memoryTotal: 1024,
+        diskTotal: 20,
+      });
+      const now = Math.floor(Date.now() / 1000);
+
+      const [restart] = await enqueueHostCommand({ hostId: created.id, type: 'restart_nginx' }, 'admin', now);
+      const [speedTest] = await enqueueHostCommand(
+        { hostId: created.id, type: 'speed_test', payload: { server: 'fra' }, expiresIn: '5m' },
+        'admin',
+        now
+      );
+
+      const delivered = await claimHostCommands(created.id, now + 60);
+      expect(delivered.map((command) => [command.type, command.payload])).toEqual([
+        ['restart_nginx', null],
+        ['speed_test', { server: 'fra' }],
+      ]);
+      expect(await claimHostCommands(created.id, now + 60)).toEqual([]);
+
+      const done = await reportHostCommandResult(
+        restart.id,
+        created.agentToken,
+        { status: 'succeeded', output: 'nginx restarted', exitCode: 0 },
+        now + 70
+      );
+      expect(done.status).toBe('succeeded');
+      // Retried reports don't overwrite the first one
+      const retried = await reportHostCommandResult(restart.id, created.agentToken, { status: 'failed' }, now + 80);
+      expect(retried.status).toBe('succeeded');
+      expect(retried.output).toBe('nginx restarted');
+
+      const [late] = await enqueueHostCommand(
+        { hostId: created.id, type: 'reload_xray', expiresIn: '1m' },
+        'admin',
+        now
+      );
+      expect(await expireHostCommands(now + 3600)).toBeGreaterThanOrEqual(2);
+      expect(await claimHostCommands(created.id, now + 3600)).toEqual([]);
+
+      const rows = await db.select().from(hostCommands).where(eq(hostCommands.hostId, created.id));
+      const statuses = Object.fromEntries(rows.map((row) => [row.id, row.status]));
+      expect(statuses).toEqual({ [restart.id]: 'succeeded', [speedTest.id]: 'expired', [late.id]: 'expired' });
+    });
+
+    it('should push queued commands to connected agents', async () => {
+      const created = await createHost({
+        name: 'test-host-command-push',
+        ip: '192.168.1.42',
+        cpuCores: 1,
+        memoryTotal: 1024,
+        diskTotal: 20,
+      });
+      const sent: any[] = [];
+      const socket = { id: 'command-push', send: (data: string) => sent.push(JSON.parse(data)), close: () => {} };
+      await openAgentChannel(socket, created, null);
+
+      // The push happens after the route answers, so poll for its effects
+      const waitFor = async (check: () => boolean | Promise<boolean>) => {
+        for (let attempt = 0; attempt < 100 && !(await check()); attempt++) {
+          await Bun.sleep(10);
+        }
+      };
+      const nextPush = async () => {
+        await waitFor(() => sent[sent.length - 1]?.type === 'commands');
+        return sent.pop();
+      };
+      const status = async (id: number) =>
+        (await db.select().from(hostCommands).where(eq(hostCommands.id, id)))[0].status;
+
+      const queued = await callApi('POST', '/hosts/commands', { body: { hostId: created.id, type: 'pull_config' } });
+      const [command] = queued.body.data;
+      const pushed = await nextPush();
+      expect(pushed.data.commands).toEqual([expect.objectContaining({ id: command.id, type: 'pull_config' })]);
+      await handleAgentMessage(socket.id, { type: 'ack', id: pushed.id, success: true } as any);
+      expect(await status(command.id)).toBe('delivered');
+
+      // Commands the agent turns down wait for its next heartbeat
+      const refused = await callApi('POST', '/hosts/commands', { body: { hostId: created.id, type: 'reload_xray' } });
+      const [declined] = refused.body.data;
+      const retry = await nextPush();
+      await handleAgentMessage(socket.id, { type: 'ack', id: retry.id, success: false } as any);
+      await waitFor(async () => (await status(declined.id)) === 'pending');
+      expect(await status(declined.id)).toBe('pending');
+
+      await closeAgentChannel(socket.id);
+    });
+  });
 });
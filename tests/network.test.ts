@@ -0,0 +1,174 @@
+/**
+ * Network module tests
+ */
+
+import { describe, it, expect, spyOn } from 'bun:test';
+import * as telegram from '@/utils/telegram';
+import { createHost } from '@/modules/host/service';
+import {
+  percentile,
+  isDegraded,
+  summarizePath,
+  getProbeAssignment,
+  recordProbeResults,
+  getNetworkMatrix,
+  createProbeTarget,
+  deleteProbeTarget,
+} from '@/modules/network/service';
+import { callApi, TEST_KEYS } from './api';
+
+/**
+ * Create a host with placeholder hardware facts
+ */
+function createTestHost(info: { name: string; ip: string }) {
+  return createHost({ ...info, cpuCores: 1, memoryTotal: 1024, diskTotal: 20 });
+}
+
+const thresholds = { rttMs: 200, lossPercent: 5 };
+
+describe('Network Module', () => {
+  describe('path statistics', () => {
+    it('should pick nearest-rank percentiles', () => {
+      const values = [10, 20, 30, 40, 50, 60, 70, 80, 90, 100];
+
+      expect(percentile(values, 50)).toBe(50);
+      expect(percentile(values, 95)).toBe(100);
+      expect(percentile([42], 99)).toBe(42);
+      expect(percentile([], 50)).toBeNull();
+    });
+
+    it('should flag slow, lossy and unreachable rounds', () => {
+      expect(isDegraded({ rttMs: 150, lossPercent: 0 }, thresholds)).toBe(false);
+      expect(isDegraded({ rttMs: 250, lossPercent: 0 }, thresholds)).toBe(true);
+      expect(isDegraded({ rttMs: 150, lossPercent: 10 }, thresholds)).toBe(true);
+      expect(isDegraded({ rttMs: null, lossPercent: 100 }, thresholds)).toBe(true);
+    });
+
+    it('should summarize rounds, ignoring lost ones for RTT', () => {
+      const stats = summarizePath(
+        [
+          { rttMs: 40, lossPercent: 0, measuredAt: 100 },
+          { rttMs: null, lossPercent: 100, measuredAt: 200 },
+          { rttMs: 60, lossPercent: 10, measuredAt: 300 },
+        ],
+        thresholds
+      );
+
+      expect(stats?.latest).toEqual({ rttMs: 60, lossPercent: 10, measuredAt: 300 });
+      expect(stats?.p50).toBe(40);
+      expect(stats?.p99).toBe(60);
+      expect(stats?.avgLossPercent).toBe(36.67);
+      expect(stats?.samples).toBe(3);
+      expect(stats?.degraded).toBe(true);
+      expect(summarizePath([], thresholds)).toBeNull();
+    });
+  });
+
+  describe('probes', () => {
+    it('should assign other hosts and enabled targets to an agent', async () => {
+      const source = await createTestHost({ name: 'test-net-assign-a', ip: '198.51.100.1' });
+      const peer = await createTestHost({ name: 'test-net-assign-b', ip: '198.51.100.2' });
+      const target = await createProbeTarget({ name: 'test-net-cf', address: '1.1.1.1', method: 'tcp', port: 443 });
+      await createProbeTarget({ name: 'test-net-off', address: '8.8.8.8', enabled: false });
+
+      const assignment = await getProbeAssignment(source.name, source.agentToken);
+      const names = assignment.targets.map((entry) => entry.name);
+
+      expect(names).toContain(peer.name);
+      expect(names).not.toContain(source.name);
+      expect(names).not.toContain('test-net-off');
+      expect(assignment.targets.find((entry) => entry.targetId === target.id)).toEqual({
+        targetHostId: null,
+        targetId: target.id,
+        name: 'test-net-cf',
+        address: '1.1.1.1',
+        method: 'tcp',
+        port: 443,
+      });
+
+      await expect(getProbeAssignment(source.name, 'wrong-token')).rejects.toThrow('Invalid agent token');
+      await expect(createProbeTarget({ name: 'test-net-tcp', address: '1.0.0.1', method: 'tcp' })).rejects.toThrow(
+        'tcp probes need a port'
+      );
+      await expect(createProbeTarget({ name: 'test-net-cf', address: '1.0.0.1' })).rejects.toThrow('already exists');
+      expect(await deleteProbeTarget(target.id)).toBe(true);
+    });
+
+    it('should store results once and build the host matrix', async () => {
+      const source = await createTestHost({ name: 'test-net-matrix-a', ip: '198.51.100.11' });
+      const peer = await createTestHost({ name: 'test-net-matrix-b', ip: '198.51.100.12' });
+      const now = Math.floor(Date.now() / 1000);
+
+      const results = [10, 20, 30, 40].map((rttMs, index) => ({
+        targetHostId: peer.id,
+        method: 'icmp' as const,
+        rttMs,
+        lossPercent: 0,
+        measuredAt: now - 400 + index * 100,
+      }));
+      const report = { name: source.name, results: [...results, { targetHostId: source.id, ...results[0] }] };
+
+      expect(await recordProbeResults(report, source.agentToken, now)).toBe(4);
+      // Resent rounds are skipped
+      expect(await recordProbeResults(report, source.agentToken, now)).toBe(0);
+
+      const matrix = await getNetworkMatrix({ window: '1h' }, now);
+      const row = matrix.rows.find((entry) => entry.hostId === source.id)!;
+
+      expect(matrix.hosts).toContain(peer.name);
+      expect(row.hosts[source.name]).toBeUndefined();
+      expect(row.hosts[peer.name]).toMatchObject({
+        latest: { rttMs: 40, lossPercent: 0, measuredAt: now - 100 },
+        p50: 20,
+        p95: 40,
+        samples: 4,
+        degraded: false,
+      });
+      expect(matrix.rows.find((entry) => entry.hostId === peer.id)!.hosts[source.name]).toBeNull();
+
+      await expect(getNetworkMatrix({ window: 'forever' }, now)).rejects.toThrow('Invalid duration');
+    });
+
+    it('should take agent reports and serve the matrix over HTTP', async () => {
+      const source = await createTestHost({ name: 'test-net-api-a', ip: '198.51.100.31' });
+      const peer = await createTestHost({ name: 'test-net-api-b', ip: '198.51.100.32' });
+      const now = Math.floor(Date.now() / 1000);
+      const report = {
+        name: source.name,
+        results: [{ targetHostId: peer.id, method: 'icmp', rttMs: 25, lossPercent: 0, measuredAt: now - 60 }],
+      };
+      const agent = (agentToken: string) => ({ key: TEST_KEYS.agent, headers: { 'X-Host-Token': agentToken } });
+
+      expect((await callApi('POST', '/network/probes', { ...agent('nh_wrong'), body: report })).status).toBe(401);
+      const stored = await callApi('POST', '/network/probes', { ...agent(source.agentToken), body: report });
+      expect(stored.body.success).toBe(true);
+
+      const matrix = await callApi('GET', '/network/matrix?window=1h');
+      const row = matrix.body.data.rows.find((entry: { hostId: number }) => entry.hostId === source.id);
+      expect(row.hosts[peer.name]).toMatchObject({ latest: { rttMs: 25, lossPercent: 0 }, degraded: false });
+
+      expect((await callApi('GET', '/network/matrix?window=forever')).body.error?.code).toBe('INVALID_REQUEST');
+      expect((await callApi('GET', '/network/matrix', { key: TEST_KEYS.agent })).status).toBe(403);
+    });
+
+    it('should alert on paths degraded from their first round', async () => {
+      const source = await createTestHost({ name: 'test-net-alert-a', ip: '198.51.100.21' });
+      const peer = await createTestHost({ name: 'test-net-alert-b', ip: '198.51.100.22' });
+      const now = Math.floor(Date.now() / 1000);
+      const notify = spyOn(telegram, 'notifyPathsDegraded').mockResolvedValue(true);
+
+      const round = (measuredAt: number) => ({
+        name: source.name,
+        results: [{ targetHostId: peer.id, method: 'icmp' as const, rttMs: null, lossPercent: 100, measuredAt }],
+      });
+      await recordProbeResults(round(now - 200), source.agentToken, now);
+      expect(notify).toHaveBeenCalledTimes(1);
+      expect(notify.mock.calls[0][1]).toEqual([{ target: peer.name, rttMs: null, lossPercent: 100 }]);
+
+      // Still degraded on the next round, no new alert
+      await recordProbeResults(round(now - 100), source.agentToken, now);
+      expect(notify).toHaveBeenCalledTimes(1);
+      notify.mockRestore();
+    });
+  });
+});
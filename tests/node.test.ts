@@ -2,9 +2,16 @@
  * Node module tests
  */
 
-import { describe, it, expect } from 'bun:test';
+import { describe, it, expect, spyOn } from 'bun:test';
+import * as nodeService from '@/modules/node/service';
 import { createNode, getNodeById, updateNode, deleteNode, linkNodeToHost } from '@/modules/node/service';
-import { createHost } from '@/modules/host/service';
+import { createHost, getHostById, updateHost } from '@/modules/host/service';
+import { allocateNode, rankHosts, toDnsLabel } from '@/modules/node/allocation';
+import { parsePortList, pickFreePort, getHostPorts } from '@/modules/node/ports';
+import { db, hosts } from '@/db';
+import { eq } from 'drizzle-orm';
+import config from '@/utils/config';
+import { callApi, TEST_KEYS } from './api';
 
 describe('Node Module', () => {
   describe('createNode', () => {
@@ -115,4 +122,214 @@ describe('Node Module', () => {
       expect(retrieved).toBeNull();
     });
   });
+
+  describe('allocateNode', () => {
+    const request = {
+      panelType: 'srp' as const,
+      panelUrl: 'https://srp.example.com',
+      name: 'Test Alloc Node',
+      region: 'test-alloc',
+      proxyType: 'vless',
+    };
+
+    /**
+     * Create an online host in the test region
+     */
+    async function createOnlineHost(name: string, ip: string) {
+      const host = await createHost({ name, ip, cpuCores: 2, memoryTotal: 4096, diskTotal: 50, region: 'test-alloc' });
+      await db.update(hosts).set({ status: 'online' }).where(eq(hosts.id, host.id));
+      return host;
+    }
+
+    it('should parse port lists and pick free ports', () => {
+      expect(parsePortList('443, 8443-8445,bad')).toEqual([443, 8443, 8444, 8445]);
+      expect(parsePortList(null)).toEqual([]);
+      expect(pickFreePort(new Set([10000, 10001]), { start: 10000, end: 10005 })).toBe(10002);
+      expect(pickFreePort(new Set([1, 2]), { start: 1, end: 2 })).toBeNull();
+      expect(toDnsLabel('  HK #1 (Premium) ')).toBe('hk-1-premium');
+    });
+
+    it('should rank hosts by node count, then CPU', () => {
+      const host = (cpuUsage: number) => ({ cpuUsage, memoryUsed: 0, memoryTotal: 1024 });
+      const ranked = rankHosts([
+        { id: 'a', host: host(10), nodeCount: 2 },
+        { id: 'b', host: host(80), nodeCount: 1 },
+        { id: 'c', host: host(20), nodeCount: 1 },
+      ]);
+
+      expect(ranked.map((entry) => entry.id)).toEqual(['c', 'b', 'a']);
+    });
+
+    it('should place nodes on the least loaded host without port or domain conflicts', async () => {
+      const defaultDomain = config.defaults.default_domain;
+      config.defaults.default_domain = 'example.test';
+
+      try {
+        const busy = await createOnlineHost('test-alloc-busy', '198.51.100.21');
+        const idle = await createOnlineHost('test-alloc-idle', '198.51.100.22');
+        await createNode({
+          panelType: 'srp',
+          panelNodeId: 900,
+          panelUrl: 'https://srp.example.com',
+          name: 'test-alloc-existing',
+          hostId: busy.id,
+          port: 10000,
+          proxyType: 'vless',
+        });
+
+        const first = await allocateNode({ ...request, panelNodeId: 901 }, 'http://hub.example.test/nodes/allocate');
+        expect(first.hostId).toBe(idle.id);
+        expect(first.port).toBe(10000);
+        expect(first.domain).toBe('test-alloc-node.example.test');
+        expect(first.dnsQueued).toEqual(['test-alloc-node.example.test (A)']);
+        expect(first.configUrl).toBe(`http://hub.example.test/config/node/${first.id}/xray`);
+
+        // Port 10000 is taken on both hosts now, so the preference falls back to the range
+        const second = await allocateNode(
+          { ...request, panelNodeId: 902, preferredPort: 10000 },
+          'http://hub.example.test'
+        );
+        expect(second.port).toBe(10001);
+        expect(second.domain).toBe('test-alloc-node-2.example.test');
+
+        await expect(allocateNode({ ...request, panelNodeId: 901 }, 'http://hub.example.test')).rejects.toThrow(
+          'already exists'
+        );
+        await expect(
+          allocateNode({ ...request, panelNodeId: 903, region: 'test-nowhere' }, 'http://hub.example.test')
+        ).rejects.toThrow('No available host');
+      } finally {
+        config.defaults.default_domain = defaultDomain;
+      }
+    });
+
+    it('should allocate through the API with config URLs on the public URL', async () => {
+      const defaultDomain = config.defaults.default_domain;
+      config.defaults.default_domain = 'example.test';
+      config.server.public_url = 'https://hub.example.test';
+
+      try {
+        await createOnlineHost('test-alloc-api', '198.51.100.23');
+        const body = { ...request, name: 'Test Alloc API', panelNodeId: 910 };
+
+        const denied = await callApi('POST', '/nodes/allocate', { key: TEST_KEYS.panel, body });
+        expect(denied.status).toBe(403);
+
+        const allocated = await callApi('POST', '/nodes/allocate', { body });
+        expect(allocated.body.success).toBe(true);
+        expect(allocated.body.data.domain).toBe('test-alloc-api.example.test');
+        expect(allocated.body.data.configUrl).toBe(
+          `https://hub.example.test/config/node/${allocated.body.data.id}/xray`
+        );
+
+        const duplicate = await callApi('POST', '/nodes/allocate', { body });
+        expect(duplicate.body.error?.code).toBe('NODE_ALREADY_EXISTS');
+
+        // Another node may take the picked port before this one is created
+        const raced = spyOn(nodeService, 'createNode').mockRejectedValueOnce(
+          new Error("Port conflict on host 'test-alloc-api': port 10000 is used by node 'other' (ID: 1)")
+        );
+        const conflict = await callApi('POST', '/nodes/allocate', { body: { ...body, panelNodeId: 911 } });
+        expect(conflict.body.error?.code).toBe('PORT_CONFLICT');
+        raced.mockRestore();
+      } finally {
+        config.defaults.default_domain = defaultDomain;
+        config.server.public_url = '';
+      }
+    });
+  });
+
+  describe('port conflicts', () => {
+    const nodeOn = (hostId: number, panelNodeId: number, port: number, additionalPorts?: string) => ({
+      panelType: 'ssp' as const,
+      panelNodeId,
+      panelUrl: 'https://ssp.example.com',
+      name: `test-port-node-${panelNodeId}`,
+      hostId,
+      port,
+      additionalPorts,
+      proxyType: 'vless',
+    });
+
+    it('should reject ports used by another node or reserved on the host', async () => {
+      const host = await createHost({
+        name: 'test-host-ports',
+        ip: '198.51.100.31',
+        cpuCores: 1,
+        memoryTotal: 1024,
+        diskTotal: 20,
+        reservedPorts: '22, 80',
+      });
+      const first = await createNode(nodeOn(host.id, 950, 443, '8443-8445'));
+
+      await expect(createNode(nodeOn(host.id, 951, 443))).rejects.toThrow(
+        "port 443 is used by node 'test-port-node-950'"
+      );
+      await expect(createNode(nodeOn(host.id, 951, 2000, '9000, 8444'))).rejects.toThrow('Port conflict');
+      await expect(createNode(nodeOn(host.id, 951, 80))).rejects.toThrow('port 80 is reserved');
+      await expect(createNode(nodeOn(host.id, 951, 2000, '9000-8000'))).rejects.toThrow('Invalid port list');
+
+      const second = await createNode(nodeOn(host.id, 951, 2000));
+      await expect(updateNode(second.id, { port: 8445 })).rejects.toThrow('Port conflict');
+      // A node keeps its own ports when other fields change
+      expect((await updateNode(first.id, { port: 443, additionalPorts: '8443-8446' }))?.additionalPorts).toBe(
+        '8443-8446'
+      );
+
+      const loose = await createNode({ ...nodeOn(host.id, 952, 2000), hostId: undefined });
+      await expect(linkNodeToHost(loose.id, host.id)).rejects.toThrow('Port conflict');
+    });
+
+    it('should list used and reserved ports within the host range', async () => {
+      const host = await createHost({
+        name: 'test-host-port-registry',
+        ip: '198.51.100.32',
+        cpuCores: 1,
+        memoryTotal: 1024,
+        diskTotal: 20,
+        portRangeStart: 20000,
+        portRangeEnd: 20004,
+        reservedPorts: '20000',
+      });
+      await createNode(nodeOn(host.id, 960, 20001, '20003'));
+
+      const ports = await getHostPorts((await getHostById(host.id))!);
+      expect(ports.range).toEqual({ start: 20000, end: 20004 });
+      expect(ports.reserved).toEqual([20000]);
+      expect(ports.used.map((entry) => [entry.port, entry.main])).toEqual([
+        [20001, true],
+        [20003, false],
+      ]);
+      expect(ports.free).toBe(2);
+      expect(ports.nextFree).toBe(20002);
+
+      await expect(updateHost(host.id, { portRangeStart: 30000 })).rejects.toThrow('Invalid port range');
+      await expect(updateHost(host.id, { reservedPorts: '22, ssh' })).rejects.toThrow('Invalid port list');
+    });
+
+    it('should serve the port registry and reject conflicts over HTTP', async () => {
+      const host = await createHost({
+        name: 'test-host-port-api',
+        ip: '198.51.100.33',
+        cpuCores: 1,
+        memoryTotal: 1024,
+        diskTotal: 20,
+        portRangeStart: 21000,
+        portRangeEnd: 21009,
+      });
+
+      const created = await callApi('POST', '/nodes', { body: nodeOn(host.id, 970, 21000) });
+      expect(created.body.success).toBe(true);
+      const conflict = await callApi('POST', '/nodes', { body: nodeOn(host.id, 971, 21000) });
+      expect(conflict.body.error?.code).toBe('PORT_CONFLICT');
+
+      const ports = await callApi('GET', `/hosts/${host.id}/ports`);
+      expect(ports.body.data).toMatchObject({ hostId: host.id, free: 9, nextFree: 21001 });
+      expect(ports.body.data.used).toEqual([
+        { port: 21000, nodeId: created.body.data.id, nodeName: 'test-port-node-970', main: true },
+      ]);
+      expect((await callApi('GET', '/hosts/999999/ports')).body.error?.code).toBe('HOST_NOT_FOUND');
+      expect((await callApi('GET', `/hosts/${host.id}/ports`, { key: TEST_KEYS.panel })).status).toBe(403);
+    });
+  });
 });
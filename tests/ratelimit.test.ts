@@ -0,0 +1,160 @@
+/**
+ * Rate limit module tests
+ */
+
+import { describe, it, expect, beforeEach } from 'bun:test';
+import {
+  getRouteGroup,
+  getClientKey,
+  getBucketConfig,
+  consumeToken,
+  getRateLimitStats,
+  resetRateLimits,
+} from '@/modules/ratelimit/service';
+import { createHost } from '@/modules/host/service';
+import { callApi, TEST_KEYS } from './api';
+
+/**
+ * Create a host with placeholder hardware facts
+ */
+function createTestHost(name: string, ip: string) {
+  return createHost({ name, ip, cpuCores: 1, memoryTotal: 1024, diskTotal: 20 });
+}
+
+describe('Rate Limit Module', () => {
+  beforeEach(() => {
+    resetRateLimits();
+  });
+
+  describe('getRouteGroup', () => {
+    it('should map agent routes to their own groups', () => {
+      expect(getRouteGroup('POST', '/hosts/heartbeat')).toBe('heartbeat');
+      expect(getRouteGroup('GET', '/config/node/1/xray')).toBe('node_config');
+      expect(getRouteGroup('POST', '/auth/login')).toBe('login');
+      expect(getRouteGroup('GET', '/hosts')).toBe('default');
+    });
+
+    it('should exempt health checks and docs', () => {
+      expect(getRouteGroup('GET', '/health')).toBeNull();
+      expect(getRouteGroup('GET', '/swagger')).toBeNull();
+    });
+  });
+
+  describe('getClientKey', () => {
+    it('should fall back to client IP for unknown credentials', async () => {
+      const headers = new Headers({ Authorization: 'Bearer not-a-real-key' });
+      expect(await getClientKey(headers, '203.0.113.5')).toBe('ip:203.0.113.5');
+      expect(await getClientKey(new Headers(), null)).toBe('ip:unknown');
+    });
+
+    it('should key agents by the host of their token rather than IP', async () => {
+      const first = await createTestHost('test-ratelimit-a', '198.51.100.51');
+      const second = await createTestHost('test-ratelimit-b', '198.51.100.52');
+      const agent = (hostToken: string) =>
+        new Headers({ Authorization: `Bearer ${TEST_KEYS.agent}`, 'X-Host-Token': hostToken });
+
+      // Hosts behind one NAT address get separate buckets
+      expect(await getClientKey(agent(first.agentToken), '203.0.113.5')).toBe(`host:${first.id}`);
+      expect(await getClientKey(agent(second.agentToken), '203.0.113.5')).toBe(`host:${second.id}`);
+      expect(await getClientKey(agent(first.agentToken), '198.51.100.7')).toBe(`host:${first.id}`);
+
+      // Made-up tokens and the agent key alone are charged to the IP
+      expect(await getClientKey(agent('nh_made-up'), '203.0.113.5')).toBe('ip:203.0.113.5');
+      const keyOnly = new Headers({ Authorization: `Bearer ${TEST_KEYS.agent}` });
+      expect(await getClientKey(keyOnly, '203.0.113.5')).toBe('ip:203.0.113.5');
+    });
+  });
+
+  describe('consumeToken', () => {
+    it('should allow a burst up to capacity', () => {
+      const { capacity } = getBucketConfig('heartbeat');
+      const now = 1_000_000;
+
+      for (let i = 0; i < capacity; i++) {
+        expect(consumeToken('heartbeat', 'ip:a', now).allowed).toBe(true);
+      }
+
+      const decision = consumeToken('heartbeat', 'ip:a', now);
+      expect(decision.allowed).toBe(false);
+      expect(decision.retryAfter).toBe(Math.ceil(1 / getBucketConfig('heartbeat').refill_per_second));
+    });
+
+    it('should refill over time', () => {
+      const { capacity, refill_per_second } = getBucketConfig('heartbeat');
+      const now = 1_000_000;
+
+      for (let i = 0; i <= capacity; i++) {
+        consumeToken('heartbeat', 'ip:a', now);
+      }
+
+      expect(consumeToken('heartbeat', 'ip:a', now + 1000 / refill_per_second).allowed).toBe(true);
+    });
+
+    it('should keep separate buckets per client and group', () => {
+      const { capacity } = getBucketConfig('login');
+      const now = 1_000_000;
+
+      for (let i = 0; i < capacity; i++) {
+        consumeToken('login', 'ip:a', now);
+      }
+
+      expect(consumeToken('login', 'ip:a', now).allowed).toBe(false);
+      expect(consumeToken('login', 'ip:b', now).allowed).toBe(true);
+      expect(consumeToken('default', 'ip:a', now).allowed).toBe(true);
+    });
+
+    it('should count allowed and limited requests', () => {
+      const { capacity } = getBucketConfig('login');
+      const now = 1_000_000;
+
+      for (let i = 0; i <= capacity; i++) {
+        consumeToken('login', 'ip:a', now);
+      }
+
+      const stats = getRateLimitStats();
+      expect(stats.groups.login.allowed).toBe(capacity);
+      expect(stats.groups.login.limited).toBe(1);
+      expect(stats.groups.login.clients).toBe(1);
+      expect(stats.totalLimited).toBe(1);
+    });
+  });
+
+  describe('rate limit plugin', () => {
+    it('should answer 429 with Retry-After once a client is over budget', async () => {
+      const { capacity, refill_per_second } = getBucketConfig('login');
+      const attempt = () =>
+        callApi('POST', '/auth/login', { key: null, body: { username: 'test-nobody', password: 'wrong' } });
+
+      for (let i = 0; i < capacity; i++) {
+        const response = await attempt();
+        expect(response.body.success).toBe(false);
+        expect(response.headers.get('x-ratelimit-limit')).toBe(String(capacity));
+      }
+
+      const limited = await attempt();
+      expect(limited.status).toBe(429);
+      expect(limited.body.error?.code).toBe('RATE_LIMITED');
+      expect(limited.headers.get('retry-after')).toBe(String(Math.ceil(1 / refill_per_second)));
+
+      // Other groups and exempt routes are unaffected
+      expect((await callApi('GET', '/health', { key: null })).status).toBe(200);
+      const stats = await callApi('GET', '/rate-limit/stats/summary');
+      expect(stats.body.data.groups.login).toMatchObject({ allowed: capacity, limited: 1 });
+    });
+
+    it('should not give agents a fresh bucket for every made-up host token', async () => {
+      const { capacity } = getBucketConfig('heartbeat');
+      const heartbeat = () =>
+        callApi('POST', '/hosts/heartbeat', {
+          key: TEST_KEYS.agent,
+          body: {},
+          headers: { 'X-Host-Token': `nh_${crypto.randomUUID()}` },
+        });
+
+      for (let i = 0; i < capacity; i++) {
+        expect((await heartbeat()).status).not.toBe(429);
+      }
+      expect((await heartbeat()).status).toBe(429);
+    });
+  });
+});
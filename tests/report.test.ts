@@ -0,0 +1,159 @@
+/**
+ * Report module tests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { db, hosts } from '@/db';
+import { eq } from 'drizzle-orm';
+import { createHost, deleteHost, markOfflineHosts } from '@/modules/host/service';
+import { recordStatusEvent, getStatusEvents } from '@/modules/host/events';
+import { computeAvailability, getAvailabilityReport } from '@/modules/report/service';
+
+/**
+ * Create a host with placeholder hardware facts
+ */
+function createTestHost(info: { name: string; ip: string; provider?: string }) {
+  return createHost({ ...info, cpuCores: 1, memoryTotal: 1024, diskTotal: 20 });
+}
+
+describe('Report Module', () => {
+  describe('computeAvailability', () => {
+    it('should report full uptime without transitions', () => {
+      const stats = computeAvailability([], 'online', 0, 1000);
+
+      expect(stats.monitoredSeconds).toBe(1000);
+      expect(stats.downtimeSeconds).toBe(0);
+      expect(stats.uptimePercent).toBe(100);
+      expect(stats.outages).toBe(0);
+      expect(stats.mttr).toBeNull();
+    });
+
+    it('should measure outages, longest outage and MTTR', () => {
+      const stats = computeAvailability(
+        [
+          { fromStatus: 'online', toStatus: 'offline', changedAt: 100 },
+          { fromStatus: 'offline', toStatus: 'online', changedAt: 150 },
+          { fromStatus: 'online', toStatus: 'offline', changedAt: 500 },
+          { fromStatus: 'offline', toStatus: 'online', changedAt: 650 },
+        ],
+        'online',
+        0,
+        1000
+      );
+
+      expect(stats.downtimeSeconds).toBe(200);
+      expect(stats.uptimePercent).toBe(80);
+      expect(stats.outages).toBe(2);
+      expect(stats.longestOutage).toBe(150);
+      expect(stats.recoveredOutages).toBe(2);
+      expect(stats.mttr).toBe(100);
+    });
+
+    it('should clip outages to the period but use their full length for MTTR', () => {
+      const stats = computeAvailability(
+        [{ fromStatus: 'offline', toStatus: 'online', changedAt: 100 }],
+        'offline',
+        0,
+        1000,
+        -300
+      );
+
+      expect(stats.downtimeSeconds).toBe(100);
+      expect(stats.longestOutage).toBe(100);
+      expect(stats.outages).toBe(1);
+      expect(stats.mttr).toBe(400);
+    });
+
+    it('should count an ongoing outage without recovery', () => {
+      const events = [{ fromStatus: 'online', toStatus: 'offline', changedAt: 900 }];
+      const stats = computeAvailability(events, 'online', 0, 1000);
+
+      expect(stats.outages).toBe(1);
+      expect(stats.recoveredOutages).toBe(0);
+      expect(stats.longestOutage).toBe(100);
+      expect(stats.mttr).toBeNull();
+    });
+
+    it('should leave unknown periods out of monitored time', () => {
+      const events = [{ fromStatus: 'unknown', toStatus: 'online', changedAt: 400 }];
+      const stats = computeAvailability(events, 'unknown', 0, 1000);
+
+      expect(stats.monitoredSeconds).toBe(600);
+      expect(stats.uptimePercent).toBe(100);
+      expect(computeAvailability([], 'unknown', 0, 1000).uptimePercent).toBeNull();
+    });
+
+    it('should not count maintenance as downtime', () => {
+      const stats = computeAvailability(
+        [
+          { fromStatus: 'online', toStatus: 'maintenance', changedAt: 200 },
+          { fromStatus: 'maintenance', toStatus: 'online', changedAt: 700 },
+        ],
+        'online',
+        0,
+        1000
+      );
+
+      expect(stats.monitoredSeconds).toBe(500);
+      expect(stats.uptimePercent).toBe(100);
+      expect(stats.outages).toBe(0);
+    });
+  });
+
+  describe('getAvailabilityReport', () => {
+    it('should report per host and per provider', async () => {
+      const a = await createTestHost({ name: 'report-host-a', ip: '10.30.0.1', provider: 'ReportCloud' });
+      const b = await createTestHost({ name: 'report-host-b', ip: '10.30.0.2', provider: 'reportcloud' });
+      await db.update(hosts).set({ createdAt: 0 }).where(eq(hosts.id, a.id));
+      await db.update(hosts).set({ createdAt: 0 }).where(eq(hosts.id, b.id));
+
+      // Host A was offline from before the period until 2000, then again 5000-5500
+      await recordStatusEvent(a.id, 'online', 'offline', 500);
+      await recordStatusEvent(a.id, 'offline', 'online', 2000);
+      await recordStatusEvent(a.id, 'online', 'offline', 5000);
+      await recordStatusEvent(a.id, 'offline', 'online', 5500);
+      await recordStatusEvent(b.id, 'unknown', 'online', 1000);
+
+      const report = await getAvailabilityReport({ from: 1000, to: 11000, provider: 'REPORTCLOUD' });
+      const hostA = report.hosts.find((host) => host.hostId === a.id)!;
+      const hostB = report.hosts.find((host) => host.hostId === b.id)!;
+
+      expect(report.hosts.length).toBe(2);
+      expect(hostA.downtimeSeconds).toBe(1500);
+      expect(hostA.uptimePercent).toBe(85);
+      expect(hostA.outages).toBe(2);
+      expect(hostA.longestOutage).toBe(1000);
+      expect(hostA.mttr).toBe(1000);
+      expect(hostB.uptimePercent).toBe(100);
+
+      expect(report.providers.length).toBe(1);
+      expect(report.providers[0].hosts).toBe(2);
+      expect(report.providers[0].monitoredSeconds).toBe(20000);
+      expect(report.providers[0].uptimePercent).toBe(92.5);
+
+      await deleteHost(a.id);
+      await deleteHost(b.id);
+    });
+
+    it('should reject an empty time range', async () => {
+      await expect(getAvailabilityReport({ from: 2000, to: 1000 })).rejects.toThrow('Invalid time range');
+    });
+  });
+
+  describe('status events', () => {
+    it('should record offline transitions at the last heartbeat', async () => {
+      const host = await createTestHost({ name: 'report-offline', ip: '10.30.0.3' });
+      await db.update(hosts).set({ status: 'online', lastHeartbeat: 1000 }).where(eq(hosts.id, host.id));
+
+      await markOfflineHosts(300);
+
+      const events = await getStatusEvents([host.id], 0, Math.floor(Date.now() / 1000) + 1);
+      expect(events.length).toBe(1);
+      expect(events[0].fromStatus).toBe('online');
+      expect(events[0].toStatus).toBe('offline');
+      expect(events[0].changedAt).toBe(1000);
+
+      await deleteHost(host.id);
+    });
+  });
+});
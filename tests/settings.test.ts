@@ -0,0 +1,69 @@
+/**
+ * Settings module tests
+ */
+
+import { describe, it, expect, beforeAll } from 'bun:test';
+import { randomBytes } from 'crypto';
+import { db, configs } from '@/db';
+import { encryptSecret, decryptSecret, rewrapSecret, isEncryptedSecret } from '@/utils/crypto';
+import { getSettings, getRedactedSettings, updateSettings, REDACTED } from '@/modules/settings/service';
+
+describe('Settings Module', () => {
+  beforeAll(() => {
+    process.env.NODEHUB_MASTER_KEY = randomBytes(32).toString('base64');
+  });
+
+  describe('secret encryption', () => {
+    it('should round-trip a secret', () => {
+      const encrypted = encryptSecret('cf-token');
+
+      expect(isEncryptedSecret(encrypted)).toBe(true);
+      expect(encrypted).not.toContain('cf-token');
+      expect(decryptSecret(encrypted)).toBe('cf-token');
+    });
+
+    it('should return legacy plaintext unchanged', () => {
+      expect(decryptSecret('plain-value')).toBe('plain-value');
+    });
+
+    it('should re-wrap with a new master key', () => {
+      const oldKey = randomBytes(32);
+      const newKey = randomBytes(32);
+      const encrypted = encryptSecret('bot-token', oldKey);
+
+      const rekeyed = rewrapSecret(encrypted, oldKey, newKey);
+
+      expect(decryptSecret(rekeyed, newKey)).toBe('bot-token');
+      expect(() => decryptSecret(rekeyed, oldKey)).toThrow();
+    });
+  });
+
+  describe('updateSettings', () => {
+    it('should encrypt secrets at rest and redact them in responses', async () => {
+      const settings = await updateSettings({ dnsApiKey: 'dns-secret', telegramChatId: '123' });
+
+      expect(settings.dnsApiKey).toBe(REDACTED);
+      expect(settings.telegramChatId).toBe('123');
+
+      const stored = await db.select().from(configs).limit(1);
+      expect(isEncryptedSecret(stored[0].dnsApiKey)).toBe(true);
+
+      const decrypted = await getSettings();
+      expect(decrypted?.dnsApiKey).toBe('dns-secret');
+    });
+
+    it('should keep secrets when redacted settings are saved back', async () => {
+      const redacted = await getRedactedSettings();
+      expect(redacted?.dnsApiKey).toBe(REDACTED);
+
+      const { id, createdAt, updatedAt, ...fields } = redacted!;
+      const settings = await updateSettings({ ...fields, telegramChatId: '456' });
+
+      expect(settings.dnsApiKey).toBe(REDACTED);
+      expect(settings.telegramChatId).toBe('456');
+
+      const decrypted = await getSettings();
+      expect(decrypted?.dnsApiKey).toBe('dns-secret');
+    });
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Test setup
+ * Points the app at a throwaway database built from the current schema, so tests run from a clean checkout
+ */
+
+import { afterAll } from 'bun:test';
+import Database from 'bun:sqlite';
+import { drizzle } from 'drizzle-orm/bun-sqlite';
+import { migrate } from 'drizzle-orm/bun-sqlite/migrator';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { TEST_KEYS } from './api';
+
+const tempDir = mkdtempSync(join(tmpdir(), 'nodehub-test-'));
+const migrationsFolder = join(tempDir, 'drizzle');
+
+// Must be set before anything imports @/db or @/utils/config
+process.env.DATABASE_PATH = join(tempDir, 'nodehub.db');
+process.env.API_KEY = TEST_KEYS.admin;
+process.env.AGENT_API_KEY = TEST_KEYS.agent;
+process.env.PANEL_API_KEY = TEST_KEYS.panel;
+
+const generate = Bun.spawnSync(
+  [
+    process.execPath,
+    resolve(process.cwd(), 'node_modules/drizzle-kit/bin.cjs'),
+    'generate',
+    '--dialect',
+    'sqlite',
+    '--schema',
+    './src/db/schema.ts',
+    '--out',
+    migrationsFolder,
+  ],
+  { stdout: 'pipe', stderr: 'pipe' }
+);
+if (!generate.success) {
+  throw new Error(`Failed to generate test migrations: ${generate.stderr.toString() || generate.stdout.toString()}`);
+}
+
+const sqlite = new Database(process.env.DATABASE_PATH);
+migrate(drizzle(sqlite), { migrationsFolder });
+sqlite.close();
+
+afterAll(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});